@@ -0,0 +1,211 @@
+// ============================================================
+// Mock OIDC Server
+// ============================================================
+// A tiny OpenID Connect provider for trying single sign-on
+// locally, with the mock API (VITE_MOCK_API) or a real backend:
+//
+//   npm run mock:oidc            # http://localhost:9400
+//   PORT=9500 npm run mock:oidc
+//
+// The sign-in page asks for any name and email (nothing is
+// checked) and can also simulate "the user cancelled". Any
+// client id / secret and redirect URI are accepted. The id token
+// is unsigned, so point a real backend at /userinfo as well.
+//
+// Endpoints: /.well-known/openid-configuration, /authorize,
+// /token, /userinfo, /jwks
+// ============================================================
+
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT) || 9400;
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60_000;
+
+/** Authorization codes not yet traded for a token */
+const codes = new Map();
+/** Access tokens -> userinfo claims */
+const tokens = new Map();
+
+// -- Helpers --
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    // The mock API trades codes from the browser
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    ...headers,
+  });
+  res.end(body);
+}
+
+function sendJson(res, status, body) {
+  send(res, status, JSON.stringify(body), { "Content-Type": "application/json" });
+}
+
+async function readForm(req) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  if ((req.headers["content-type"] ?? "").includes("application/json")) {
+    return new URLSearchParams(JSON.parse(body || "{}"));
+  }
+  return new URLSearchParams(body);
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function base64Url(value) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/** Unsigned JWT ("alg": "none"); good enough for a local mock */
+function idToken(claims, clientId, nonce) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = { iss: ISSUER, aud: clientId, iat: now, exp: now + 3600, ...claims };
+  if (nonce) payload.nonce = nonce;
+  return `${base64Url({ alg: "none", typ: "JWT" })}.${base64Url(payload)}.`;
+}
+
+function redirectBack(res, redirectUri, params) {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value);
+  }
+  send(res, 302, "", { Location: url.toString() });
+}
+
+// -- Pages --
+
+function signInPage(query) {
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "scope"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(query.get(name) ?? "")}">`)
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Mock OIDC sign-in</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 22rem; margin: 4rem auto; padding: 0 1rem; }
+    label { display: block; margin-top: 1rem; font-size: .875rem; }
+    input { width: 100%; box-sizing: border-box; padding: .5rem; margin-top: .25rem; }
+    .actions { display: flex; gap: .5rem; margin-top: 1.5rem; }
+    button { flex: 1; padding: .5rem; }
+    p { color: #666; font-size: .875rem; }
+  </style>
+</head>
+<body>
+  <h1>Mock OIDC</h1>
+  <p>Signing in to <strong>${escapeHtml(query.get("client_id") ?? "unknown client")}</strong>. Any email works.</p>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <label>Name <input name="name" value="SSO User" required></label>
+    <label>Email <input name="email" type="email" value="sso.user@bookito.test" required></label>
+    <label><input name="email_verified" type="checkbox" value="true" checked style="width:auto"> Email verified</label>
+    <div class="actions">
+      <button type="submit" name="decision" value="cancel">Cancel</button>
+      <button type="submit" name="decision" value="allow">Sign in</button>
+    </div>
+  </form>
+</body>
+</html>`;
+}
+
+// -- Routes --
+
+async function handle(req, res) {
+  const url = new URL(req.url ?? "/", ISSUER);
+
+  if (req.method === "OPTIONS") return send(res, 204, "");
+
+  if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+    return sendJson(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      jwks_uri: `${ISSUER}/jwks`,
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["none"],
+      scopes_supported: ["openid", "email", "profile"],
+      token_endpoint_auth_methods_supported: ["client_secret_post", "client_secret_basic"],
+    });
+  }
+
+  if (req.method === "GET" && url.pathname === "/jwks") {
+    return sendJson(res, 200, { keys: [] });
+  }
+
+  if (req.method === "GET" && url.pathname === "/authorize") {
+    if (!url.searchParams.get("redirect_uri")) return send(res, 400, "redirect_uri is required");
+    return send(res, 200, signInPage(url.searchParams), { "Content-Type": "text/html; charset=utf-8" });
+  }
+
+  if (req.method === "POST" && url.pathname === "/authorize") {
+    const form = await readForm(req);
+    const redirectUri = form.get("redirect_uri");
+    const state = form.get("state");
+    if (!redirectUri) return send(res, 400, "redirect_uri is required");
+
+    if (form.get("decision") !== "allow") {
+      return redirectBack(res, redirectUri, { error: "access_denied", state });
+    }
+
+    const email = (form.get("email") ?? "").trim().toLowerCase();
+    const code = randomUUID();
+    codes.set(code, {
+      clientId: form.get("client_id"),
+      redirectUri,
+      nonce: form.get("nonce"),
+      expiresAt: Date.now() + CODE_TTL_MS,
+      claims: {
+        sub: `mock|${email}`,
+        email,
+        email_verified: form.get("email_verified") === "true",
+        name: (form.get("name") ?? "").trim() || email,
+      },
+    });
+    return redirectBack(res, redirectUri, { code, state });
+  }
+
+  if (req.method === "POST" && url.pathname === "/token") {
+    const form = await readForm(req);
+    const grant = codes.get(form.get("code"));
+    codes.delete(form.get("code"));
+    if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== form.get("redirect_uri")) {
+      return sendJson(res, 400, { error: "invalid_grant" });
+    }
+
+    const accessToken = randomUUID();
+    tokens.set(accessToken, grant.claims);
+    return sendJson(res, 200, {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: 3600,
+      scope: "openid email profile",
+      id_token: idToken(grant.claims, grant.clientId, grant.nonce),
+    });
+  }
+
+  if (req.method === "GET" && url.pathname === "/userinfo") {
+    const claims = tokens.get((req.headers.authorization ?? "").replace(/^Bearer /, ""));
+    if (!claims) return sendJson(res, 401, { error: "invalid_token" });
+    return sendJson(res, 200, claims);
+  }
+
+  return send(res, 404, "Not found");
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    console.error(err);
+    send(res, 500, "Internal error");
+  });
+}).listen(PORT, () => {
+  console.info(`[mock-oidc] Listening on ${ISSUER}`);
+});
@@ -1,67 +1,134 @@
 import { Loader2Icon } from "lucide-react"
 import { useCallback, useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
 
 import { AuthPage } from "@/components/auth-page"
 import { DashboardPage } from "@/components/dashboard-page"
+import { ReauthDialog } from "@/components/reauth-dialog"
+import { NotFoundPage } from "@/components/status-page"
+import { requestReauth } from "@/lib/api/reauth"
 import { authClient } from "@/lib/auth-client"
-
-const AUTH_PATH = "/"
-const DASHBOARD_PATH = "/dashboard"
-
-function getCurrentPath() {
-  if (typeof window === "undefined") {
-    return AUTH_PATH
-  }
-
-  return window.location.pathname === DASHBOARD_PATH
-    ? DASHBOARD_PATH
-    : AUTH_PATH
-}
+import { clearQueryCache } from "@/lib/query-cache"
+import { buildAuthRedirect, getReturnTo, withReturnTo } from "@/lib/return-to"
+import { matchPath, navigate, normalizePath, useLocation } from "@/lib/router"
+import {
+  ACCEPT_INVITE_PATH,
+  AUTH_PATH,
+  DASHBOARD_PATH,
+  isDashboardPath,
+  RESET_PASSWORD_PATH,
+  resolveLegacyHash,
+  SSO_CALLBACK_PATTERN,
+  VERIFY_EMAIL_PATH,
+} from "@/lib/routes"
+import { completeSsoSignIn, reportSsoPopupResult, type SsoErrorReason } from "@/lib/sso"
 
 export function App() {
-  const [currentPath, setCurrentPath] = useState(getCurrentPath)
+  const { t } = useTranslation()
+  const location = useLocation()
+  const { pathname, search, hash } = location
   const [isSigningOut, setIsSigningOut] = useState(false)
-  const { data: session, isPending: isCheckingSession } = authClient.useSession()
+  const { data: session, isPending: isCheckingSession, refetch: refetchSession } = authClient.useSession()
   const user = session?.user ?? null
+  // Signed up but has not opened the verification link yet
+  // (admins viewing as such a user still get the dashboard)
+  const needsVerification = !!user && !user.emailVerified && !session?.session.impersonatedBy
+
+  // Last signed-in user. When the session expires mid-work the dashboard
+  // stays mounted with this user while the re-login dialog is open;
+  // it is cleared on sign-out or when the user cancels the dialog.
+  const [lastUser, setLastUser] = useState(user)
+  if (user && user !== lastUser) {
+    setLastUser(user)
+  }
+  const dashboardUser = user ? (needsVerification ? null : user) : lastUser
 
-  const navigate = useCallback((path: string, replace = false) => {
-    const nextPath = path === DASHBOARD_PATH ? DASHBOARD_PATH : AUTH_PATH
+  const isAuthPath = normalizePath(pathname) === AUTH_PATH
+  const isDashboard = isDashboardPath(pathname)
+  const ssoProviderId = matchPath(SSO_CALLBACK_PATTERN, pathname)?.providerId ?? null
+  const [ssoError, setSsoError] = useState<SsoErrorReason | null>(null)
 
-    if (replace) {
-      window.history.replaceState(null, "", nextPath)
-    } else {
-      window.history.pushState(null, "", nextPath)
+  // Old links pointed at "/dashboard#<menu-url>"; move them to the real path
+  useEffect(() => {
+    if (normalizePath(pathname) !== DASHBOARD_PATH) {
+      return
     }
 
-    setCurrentPath(nextPath)
-  }, [])
+    const legacyPath = resolveLegacyHash(hash)
+    if (legacyPath) {
+      navigate(legacyPath, { replace: true })
+    }
+  }, [hash, pathname])
 
+  // Back from an SSO provider: finish the sign-in, then continue to the dashboard
   useEffect(() => {
-    const syncPath = () => {
-      setCurrentPath(getCurrentPath())
+    if (!ssoProviderId) {
+      return
     }
 
-    window.addEventListener("popstate", syncPath)
-    return () => window.removeEventListener("popstate", syncPath)
-  }, [])
+    let isCurrent = true
+    completeSsoSignIn(ssoProviderId, search).then(async ({ error, returnTo }) => {
+      if (!isCurrent) return
+      // Signed in again from the session-expired dialog's popup
+      if (reportSsoPopupResult(search, error)) return
+      if (error) {
+        setSsoError(error)
+        return
+      }
+      await refetchSession()
+      navigate(returnTo ?? DASHBOARD_PATH, { replace: true })
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [refetchSession, search, ssoProviderId])
 
   useEffect(() => {
     if (isCheckingSession) {
       return
     }
 
-    if (user && currentPath === AUTH_PATH) {
-      navigate(DASHBOARD_PATH, true)
+    if (user && isAuthPath) {
+      const returnTo = getReturnTo(search)
+      navigate(
+        needsVerification ? withReturnTo(VERIFY_EMAIL_PATH, returnTo) : (returnTo ?? DASHBOARD_PATH),
+        { replace: true }
+      )
+    }
+
+    // Unverified accounts never reach the dashboard
+    if (needsVerification && isDashboard) {
+      navigate(buildAuthRedirect(location, VERIFY_EMAIL_PATH), { replace: true })
+      return
     }
 
-    if (!user && currentPath === DASHBOARD_PATH) {
-      navigate(AUTH_PATH, true)
+    // Session expired while working: ask for the password in place
+    if (!user && isDashboard && lastUser && !isSigningOut) {
+      requestReauth().then((signedIn) => {
+        if (!signedIn) setLastUser(null)
+      })
+      return
     }
-  }, [currentPath, isCheckingSession, navigate, user])
+
+    // Not signed in: remember where they were going
+    if (!user && isDashboard) {
+      navigate(buildAuthRedirect(location), { replace: true })
+    }
+  }, [
+    isAuthPath,
+    isCheckingSession,
+    isDashboard,
+    isSigningOut,
+    lastUser,
+    location,
+    needsVerification,
+    search,
+    user,
+  ])
 
   const onAuthenticated = useCallback(() => {
-    navigate(DASHBOARD_PATH, true)
-  }, [navigate])
+    navigate(getReturnTo(search) ?? DASHBOARD_PATH, { replace: true })
+  }, [search])
 
   const onSignOut = useCallback(async () => {
     setIsSigningOut(true)
@@ -69,14 +136,18 @@ export function App() {
     try {
       const result = await authClient.signOut()
       if (!result.error) {
-        navigate(AUTH_PATH, true)
+        // Cached admin data belongs to this account; the next one starts clean
+        clearQueryCache()
+        setLastUser(null)
+        navigate(AUTH_PATH, { replace: true })
       }
     } finally {
       setIsSigningOut(false)
     }
-  }, [navigate])
+  }, [])
 
-  if (currentPath === DASHBOARD_PATH && (isCheckingSession || !user)) {
+  // A background session refetch must not unmount an open dashboard
+  if (isDashboard && !dashboardUser) {
     return (
       <main className="flex min-h-screen items-center justify-center gap-2 text-muted-foreground text-sm">
         <Loader2Icon className="h-4 w-4 animate-spin" />
@@ -85,17 +156,78 @@ export function App() {
     )
   }
 
-  if (currentPath === DASHBOARD_PATH && user) {
+  if (isDashboard && dashboardUser) {
     return (
-      <DashboardPage
-        user={user}
-        onSignOut={onSignOut}
-        isSigningOut={isSigningOut}
+      <>
+        <DashboardPage
+          user={dashboardUser}
+          pathname={pathname}
+          onSignOut={onSignOut}
+          isSigningOut={isSigningOut}
+        />
+        <ReauthDialog email={dashboardUser.email} />
+      </>
+    )
+  }
+
+  if (isAuthPath) {
+    return <AuthPage onAuthenticated={onAuthenticated} />
+  }
+
+  // "Check your inbox" after sign-up, and landing page of the verification link
+  // (?token= to verify here, or ?error= when the backend rejected the link)
+  if (normalizePath(pathname) === VERIFY_EMAIL_PATH) {
+    const params = new URLSearchParams(search)
+    return (
+      <AuthPage
+        initialStep="verify"
+        verifyToken={params.get("token")}
+        verifyError={params.get("error")}
+        onAuthenticated={onAuthenticated}
+      />
+    )
+  }
+
+  // Reached from the emailed link; better-auth adds ?token= or ?error=INVALID_TOKEN
+  if (normalizePath(pathname) === RESET_PASSWORD_PATH) {
+    return (
+      <AuthPage
+        initialStep="reset"
+        resetToken={new URLSearchParams(search).get("token")}
+        onAuthenticated={onAuthenticated}
+      />
+    )
+  }
+
+  // Reached from the invitation email; the invitee chooses their own password
+  if (normalizePath(pathname) === ACCEPT_INVITE_PATH) {
+    return (
+      <AuthPage
+        initialStep="accept-invite"
+        inviteToken={new URLSearchParams(search).get("token")}
+        onAuthenticated={onAuthenticated}
       />
     )
   }
 
-  return <AuthPage onAuthenticated={onAuthenticated} />
+  // Landing page of SSO sign-in (see lib/sso); on failure the sign-in form says why
+  if (ssoProviderId) {
+    if (ssoError) {
+      return <AuthPage initialStep="auth" ssoError={ssoError} onAuthenticated={onAuthenticated} />
+    }
+    return (
+      <main className="flex min-h-screen items-center justify-center gap-2 text-muted-foreground text-sm">
+        <Loader2Icon className="h-4 w-4 animate-spin" />
+        {t("auth.sso_signing_in")}
+      </main>
+    )
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col p-4">
+      <NotFoundPage homeHref={AUTH_PATH} />
+    </main>
+  )
 }
 
 export default App
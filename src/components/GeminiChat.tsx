@@ -3,11 +3,9 @@ import { Sparkles, Send, X, MessageSquare, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
+import { api, type ChatMessage } from "@/lib/api"
 
-interface Message {
-  role: "user" | "model"
-  parts: [{ text: string }]
-}
+type Message = ChatMessage
 
 export function GeminiChat() {
   const [isOpen, setIsOpen] = useState(false)
@@ -31,22 +29,10 @@ export function GeminiChat() {
     setIsLoading(true)
 
     try {
-      const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
-      const response = await fetch(`${API_URL}/api/ai/chat`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({
-          message: input,
-          history: messages,
-        }),
+      const data = await api.ai.chat({
+        message: input,
+        history: messages,
       })
-
-      if (!response.ok) throw new Error("Failed to get AI response")
-
-      const data = await response.json()
       const aiMessage: Message = { role: "model", parts: [{ text: data.response }] }
       setMessages((prev) => [...prev, aiMessage])
     } catch (error) {
@@ -5,14 +5,26 @@
 // Features:
 //   - List all groups with user counts
 //   - Create new group with permission matrix (checkboxes)
+//   - Clone a group, start from a template (PERMISSION_TEMPLATES)
+//     or copy another group's permissions into the form
 //   - Edit group name/description and permissions
 //   - Delete group with confirmation
+//   - Export one or all groups (JSON / CSV) and import them with a
+//     dry run first (GroupTransfer), e.g. from staging to production
+//   - Preview: the sidebar and route access members would get, and
+//     the changes against the saved permissions (GroupPreviewDialog)
+//   - Deep link: /dashboard/team/groups/:id opens that group's edit form
+//   - Groups come from the shared query cache (also read by
+//     UserManagement), so the list is fetched once for both pages
+//   - Actions follow the Team → Groups add/change/delete permissions
 //
-// The permission matrix shows all available menus from the
-// master menu list, with add/change/delete checkboxes per submenu.
+// The permission matrix (components/admin/PermissionMatrix) shows
+// all available menus from the master menu list, with a checkbox
+// per permission verb each submenu declares (view, add, change,
+// delete, export, ...) and column / main menu bulk toggles.
 // ============================================================
 
-import { useCallback, useEffect, useState } from "react"
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -20,176 +32,43 @@ import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Skeleton } from "@/components/ui/skeleton"
-import { ALL_MENU_ITEMS } from "@/lib/menu-config"
-import { PlusIcon, Pencil, Trash2, X, Save, Users } from "lucide-react"
-
-const API_BASE = import.meta.env.VITE_API_URL || ""
-
-// -- Types --
-
-type MenuPermissionData = {
-  mainMenu: string
-  subMenu: string
-  url: string
-  canAdd: boolean
-  canChange: boolean
-  canDelete: boolean
-}
-
-type GroupData = {
-  id: string
-  name: string
-  description: string | null
-  permissions: MenuPermissionData[]
-  _count: { users: number }
-  createdAt: string
-}
-
-// -- Permission Matrix Component --
-// Shows all menus with checkboxes for add/change/delete per submenu
-
-function PermissionMatrix({
-  permissions,
-  onChange,
-}: {
-  permissions: MenuPermissionData[]
-  onChange: (updated: MenuPermissionData[]) => void
-}) {
-  // Build a lookup map for quick access: "mainMenu|subMenu" -> permission
-  const permMap = new Map<string, MenuPermissionData>()
-  permissions.forEach((p) => permMap.set(`${p.mainMenu}|${p.subMenu}`, p))
-
-  // Toggle a specific permission
-  const toggle = (mainMenu: string, subMenu: string, url: string, field: "canAdd" | "canChange" | "canDelete") => {
-    const key = `${mainMenu}|${subMenu}`
-    const existing = permMap.get(key)
-
-    if (existing) {
-      // Update existing permission
-      const updated = permissions.map((p) =>
-        p.mainMenu === mainMenu && p.subMenu === subMenu
-          ? { ...p, [field]: !p[field] }
-          : p
-      )
-      // If all permissions are false, remove the entry
-      const target = updated.find((p) => p.mainMenu === mainMenu && p.subMenu === subMenu)
-      if (target && !target.canAdd && !target.canChange && !target.canDelete) {
-        onChange(updated.filter((p) => !(p.mainMenu === mainMenu && p.subMenu === subMenu)))
-      } else {
-        onChange(updated)
-      }
-    } else {
-      // Add new permission entry with the toggled field
-      onChange([
-        ...permissions,
-        {
-          mainMenu,
-          subMenu,
-          url,
-          canAdd: field === "canAdd",
-          canChange: field === "canChange",
-          canDelete: field === "canDelete",
-        },
-      ])
-    }
-  }
-
-  // Toggle all permissions for a submenu (select/deselect all)
-  const toggleAll = (mainMenu: string, subMenu: string, url: string) => {
-    const key = `${mainMenu}|${subMenu}`
-    const existing = permMap.get(key)
-    const allChecked = existing && existing.canAdd && existing.canChange && existing.canDelete
-
-    if (allChecked) {
-      // Deselect all
-      onChange(permissions.filter((p) => !(p.mainMenu === mainMenu && p.subMenu === subMenu)))
-    } else {
-      // Select all
-      const filtered = permissions.filter((p) => !(p.mainMenu === mainMenu && p.subMenu === subMenu))
-      onChange([
-        ...filtered,
-        { mainMenu, subMenu, url, canAdd: true, canChange: true, canDelete: true },
-      ])
-    }
-  }
-
-  return (
-    <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
-      {ALL_MENU_ITEMS.map((menu) => (
-        <div key={menu.title} className="rounded-lg border p-3">
-          {/* Main Menu Header */}
-          <h4 className="font-semibold text-sm mb-2 text-primary">{menu.title}</h4>
-
-          {/* Sub-menu permission rows */}
-          <div className="space-y-2">
-            {menu.items.map((sub) => {
-              const key = `${menu.title}|${sub.title}`
-              const perm = permMap.get(key)
-              const hasAny = perm && (perm.canAdd || perm.canChange || perm.canDelete)
-
-              return (
-                <div
-                  key={key}
-                  className={`flex items-center gap-4 rounded-md px-3 py-2 text-sm transition-colors ${
-                    hasAny ? "bg-primary/5" : "bg-muted/30"
-                  }`}
-                >
-                  {/* Submenu name + select all toggle */}
-                  <button
-                    type="button"
-                    onClick={() => toggleAll(menu.title, sub.title, sub.url)}
-                    className="min-w-[140px] text-left font-medium hover:text-primary transition-colors"
-                    title="Toggle all permissions"
-                  >
-                    {sub.title}
-                  </button>
-
-                  {/* Permission checkboxes */}
-                  <label className="flex items-center gap-1.5 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={perm?.canAdd ?? false}
-                      onChange={() => toggle(menu.title, sub.title, sub.url, "canAdd")}
-                      className="h-4 w-4 rounded border-gray-300 accent-primary"
-                    />
-                    <span className="text-xs text-muted-foreground">Add</span>
-                  </label>
-
-                  <label className="flex items-center gap-1.5 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={perm?.canChange ?? false}
-                      onChange={() => toggle(menu.title, sub.title, sub.url, "canChange")}
-                      className="h-4 w-4 rounded border-gray-300 accent-primary"
-                    />
-                    <span className="text-xs text-muted-foreground">Change</span>
-                  </label>
-
-                  <label className="flex items-center gap-1.5 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={perm?.canDelete ?? false}
-                      onChange={() => toggle(menu.title, sub.title, sub.url, "canDelete")}
-                      className="h-4 w-4 rounded border-gray-300 accent-primary"
-                    />
-                    <span className="text-xs text-muted-foreground">Delete</span>
-                  </label>
-                </div>
-              )
-            })}
-          </div>
-        </div>
-      ))}
-    </div>
-  )
-}
+import { Can } from "@/components/can"
+import { GroupPreviewDialog } from "@/components/admin/GroupPreviewDialog"
+import { ExportGroupsMenu, ImportGroupsButton } from "@/components/admin/GroupTransfer"
+import { PermissionMatrix } from "@/components/admin/PermissionMatrix"
+import { NotFoundPage } from "@/components/status-page"
+import { useCan } from "@/hooks/useCan"
+import { useQuery } from "@/hooks/useQuery"
+import { useRecordCrumb } from "@/hooks/useRecordCrumb"
+import {
+  api,
+  ApiError,
+  getErrorMessage,
+  type FieldErrors,
+  type GroupData,
+  type MenuPermissionData,
+} from "@/lib/api"
+import { copyPermissions } from "@/lib/permission-matrix"
+import { PERMISSION_TEMPLATES, templatePermissions } from "@/lib/permission-templates"
+import { invalidateQueries, optimisticUpdate, queryKeys } from "@/lib/query-cache"
+import { navigate } from "@/lib/router"
+import { recordPath, routePath } from "@/lib/routes"
+import { PlusIcon, Pencil, Trash2, X, Save, Users, Copy, Eye } from "lucide-react"
 
 // -- Main Page Component --
 
-export function GroupManagement() {
-  const [groups, setGroups] = useState<GroupData[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+const ROUTE_KEY = "team-groups"
+const PERMISSION = { menu: "Team", sub: "Groups" } as const
+const NO_GROUPS: GroupData[] = []
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+
+export function GroupManagement({ recordId }: { recordId?: string }) {
+  const groupsQuery = useQuery(queryKeys.groups, api.groups.list)
+  const groups = groupsQuery.data ?? NO_GROUPS
+  const isLoading = groupsQuery.isLoading
+  // A failed background refresh keeps showing the cached rows
+  const error = !groupsQuery.data && groupsQuery.error ? getErrorMessage(groupsQuery.error) : null
 
   // Form state for create/edit
   const [isFormOpen, setIsFormOpen] = useState(false)
@@ -199,62 +78,94 @@ export function GroupManagement() {
   const [formPermissions, setFormPermissions] = useState<MenuPermissionData[]>([])
   const [isSaving, setIsSaving] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
+  const [formFieldErrors, setFormFieldErrors] = useState<FieldErrors>({})
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
 
-  // -- Fetch groups --
-  const fetchGroups = useCallback(async () => {
-    setIsLoading(true)
-    try {
-      const res = await fetch(`${API_BASE}/api/groups`, { credentials: "include" })
-      if (!res.ok) throw new Error("Failed to fetch groups")
-      const json = await res.json()
-      setGroups(json.data)
-      setError(null)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error")
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
-  useEffect(() => { fetchGroups() }, [fetchGroups])
+  // -- RBAC: action flags for Team → Groups --
+  const canAdd = useCan(PERMISSION.menu, PERMISSION.sub, "add")
+  const canChange = useCan(PERMISSION.menu, PERMISSION.sub, "change")
+  const canDelete = useCan(PERMISSION.menu, PERMISSION.sub, "delete")
+  const canSave = editingGroup ? canChange : canAdd
 
-  // -- Open create form --
-  const openCreate = () => {
+  // -- Open create form (optionally prefilled, e.g. by Clone) --
+  const openCreate = (prefill?: Pick<GroupData, "name" | "description" | "permissions">) => {
     setEditingGroup(null)
-    setFormName("")
-    setFormDescription("")
-    setFormPermissions([])
+    setFormName(prefill?.name ?? "")
+    setFormDescription(prefill?.description ?? "")
+    setFormPermissions(prefill ? copyPermissions(prefill.permissions) : [])
     setFormError(null)
+    setFormFieldErrors({})
     setIsFormOpen(true)
   }
 
-  // -- Open edit form --
-  const openEdit = (group: GroupData) => {
+  // -- Clone: a new group with the same description and permissions --
+  const openClone = (group: GroupData) => {
+    if (recordId) navigate(routePath(ROUTE_KEY))
+    openCreate({ ...group, name: `${group.name} (copy)` })
+  }
+
+  // -- Replace the matrix (template / copy from group), confirming over existing picks --
+  const replacePermissions = (permissions: MenuPermissionData[], source: string) => {
+    if (formPermissions.length > 0 && !confirm(`Replace the current permissions with ${source}?`)) return
+    setFormPermissions(permissions)
+  }
+
+  const applyTemplate = (templateId: string) => {
+    const template = PERMISSION_TEMPLATES.find((t) => t.id === templateId)
+    if (template) replacePermissions(templatePermissions(template), `the "${template.name}" template`)
+  }
+
+  const copyFromGroup = (groupId: string) => {
+    const source = groups.find((g) => g.id === groupId)
+    if (source) replacePermissions(copyPermissions(source.permissions), `those of "${source.name}"`)
+  }
+
+  // -- Fill the edit form for a group --
+  const fillEditForm = (group: GroupData) => {
     setEditingGroup(group)
     setFormName(group.name)
     setFormDescription(group.description ?? "")
-    setFormPermissions(
-      group.permissions.map((p) => ({
-        mainMenu: p.mainMenu,
-        subMenu: p.subMenu,
-        url: p.url,
-        canAdd: p.canAdd,
-        canChange: p.canChange,
-        canDelete: p.canDelete,
-      }))
-    )
+    setFormPermissions(copyPermissions(group.permissions))
     setFormError(null)
+    setFormFieldErrors({})
     setIsFormOpen(true)
   }
 
+  // -- Open edit form (via its deep-linkable record route) --
+  const openEdit = (group: GroupData) => {
+    navigate(recordPath(ROUTE_KEY, group.id))
+  }
+
+  // -- Close form (leaves the record route when editing) --
+  const closeForm = () => {
+    setIsFormOpen(false)
+    setIsPreviewOpen(false)
+    if (recordId) navigate(routePath(ROUTE_KEY))
+  }
+
+  // -- Sync the edit form with the :id in the URL --
+  const recordGroup = recordId ? groups.find((g) => g.id === recordId) ?? null : null
+  useRecordCrumb(recordGroup?.name)
+  const [routedGroupId, setRoutedGroupId] = useState<string | null>(null)
+  if (!isLoading && (recordGroup?.id ?? null) !== routedGroupId) {
+    setRoutedGroupId(recordGroup?.id ?? null)
+    if (recordGroup) {
+      fillEditForm(recordGroup)
+    } else if (editingGroup) {
+      setIsFormOpen(false)
+    }
+  }
+
   // -- Save (create or update) --
   const handleSave = async () => {
+    if (!canSave) return
     if (!formName.trim()) {
       setFormError("Group name is required")
       return
     }
     setIsSaving(true)
     setFormError(null)
+    setFormFieldErrors({})
 
     try {
       const body = {
@@ -263,26 +174,18 @@ export function GroupManagement() {
         permissions: formPermissions,
       }
 
-      const url = editingGroup
-        ? `${API_BASE}/api/groups/${editingGroup.id}`
-        : `${API_BASE}/api/groups`
-
-      const res = await fetch(url, {
-        method: editingGroup ? "PUT" : "POST",
-        credentials: "include",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
-      })
-
-      if (!res.ok) {
-        const err = await res.json()
-        throw new Error(err.message || "Failed to save group")
+      if (editingGroup) {
+        await api.groups.update(editingGroup.id, body)
+      } else {
+        await api.groups.create(body)
       }
 
-      setIsFormOpen(false)
-      fetchGroups()
+      closeForm()
+      invalidateQueries(queryKeys.groups)
+      invalidateQueries(queryKeys.users) // Users list shows group names
     } catch (err) {
-      setFormError(err instanceof Error ? err.message : "Unknown error")
+      setFormError(getErrorMessage(err, "Failed to save group"))
+      if (err instanceof ApiError) setFormFieldErrors(err.fieldErrors)
     } finally {
       setIsSaving(false)
     }
@@ -290,17 +193,21 @@ export function GroupManagement() {
 
   // -- Delete group --
   const handleDelete = async (group: GroupData) => {
+    if (!canDelete) return
     if (!confirm(`Delete group "${group.name}"? Users in this group will be unassigned.`)) return
 
+    // Remove the row immediately; put it back if the request fails
+    const rollback = optimisticUpdate<GroupData[]>(queryKeys.groups, (prev) =>
+      prev.filter((g) => g.id !== group.id)
+    )
+
     try {
-      const res = await fetch(`${API_BASE}/api/groups/${group.id}`, {
-        method: "DELETE",
-        credentials: "include",
-      })
-      if (!res.ok) throw new Error("Failed to delete group")
-      fetchGroups()
+      await api.groups.remove(group.id)
+      invalidateQueries(queryKeys.groups)
+      invalidateQueries(queryKeys.users) // Members were unassigned
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to delete group")
+      rollback()
+      alert(getErrorMessage(err, "Failed to delete group"))
     }
   }
 
@@ -321,13 +228,18 @@ export function GroupManagement() {
       <div className="rounded-lg border border-destructive/50 p-4 text-destructive">
         <p className="font-medium">Error loading groups</p>
         <p className="text-sm mt-1">{error}</p>
-        <Button variant="outline" size="sm" className="mt-2" onClick={fetchGroups}>
+        <Button variant="outline" size="sm" className="mt-2" onClick={() => groupsQuery.refetch()}>
           Retry
         </Button>
       </div>
     )
   }
 
+  // -- Unknown :id in the URL --
+  if (recordId && !recordGroup) {
+    return <NotFoundPage homeHref={routePath(ROUTE_KEY)} />
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -339,10 +251,18 @@ export function GroupManagement() {
           </p>
         </div>
         {!isFormOpen && (
-          <Button onClick={openCreate}>
-            <PlusIcon className="h-4 w-4 mr-2" />
-            New Group
-          </Button>
+          <div className="flex gap-2">
+            <ExportGroupsMenu groups={groups} />
+            <ImportGroupsButton groups={groups} disabled={!canAdd && !canChange} />
+            <Can {...PERMISSION} action="add">
+              {(allowed) => (
+                <Button onClick={() => openCreate()} disabled={!allowed}>
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  New Group
+                </Button>
+              )}
+            </Can>
+          </div>
         )}
       </div>
 
@@ -367,7 +287,11 @@ export function GroupManagement() {
                   placeholder="e.g. Front Desk Staff"
                   value={formName}
                   onChange={(e) => setFormName(e.target.value)}
+                  aria-invalid={!!formFieldErrors.name}
                 />
+                {formFieldErrors.name && (
+                  <p className="text-xs text-destructive">{formFieldErrors.name}</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="group-desc">Description</Label>
@@ -376,7 +300,11 @@ export function GroupManagement() {
                   placeholder="e.g. Can manage front desk operations"
                   value={formDescription}
                   onChange={(e) => setFormDescription(e.target.value)}
+                  aria-invalid={!!formFieldErrors.description}
                 />
+                {formFieldErrors.description && (
+                  <p className="text-xs text-destructive">{formFieldErrors.description}</p>
+                )}
               </div>
             </div>
 
@@ -386,8 +314,43 @@ export function GroupManagement() {
             <div>
               <Label className="mb-2 block">Menu Permissions</Label>
               <p className="text-xs text-muted-foreground mb-3">
-                Click a submenu name to toggle all permissions. Check individual boxes for granular control.
+                Click a submenu or menu name to toggle all its permissions. View makes a page visible;
+                the other permissions need it.
               </p>
+
+              {/* Starting points: a built-in template or another group */}
+              <div className="grid gap-3 sm:grid-cols-2 mb-3">
+                <select
+                  value=""
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  className={SELECT_CLASS_NAME}
+                  aria-label="Start from template"
+                >
+                  <option value="">Start from template...</option>
+                  {PERMISSION_TEMPLATES.map((t) => (
+                    <option key={t.id} value={t.id} title={t.description}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value=""
+                  onChange={(e) => copyFromGroup(e.target.value)}
+                  className={SELECT_CLASS_NAME}
+                  aria-label="Copy permissions from group"
+                  disabled={groups.every((g) => g.id === editingGroup?.id)}
+                >
+                  <option value="">Copy from group...</option>
+                  {groups
+                    .filter((g) => g.id !== editingGroup?.id)
+                    .map((g) => (
+                      <option key={g.id} value={g.id}>
+                        {g.name}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
               <PermissionMatrix
                 permissions={formPermissions}
                 onChange={setFormPermissions}
@@ -401,13 +364,25 @@ export function GroupManagement() {
 
             {/* Action buttons */}
             <div className="flex gap-2 pt-2">
-              <Button onClick={handleSave} disabled={isSaving}>
-                <Save className="h-4 w-4 mr-2" />
-                {isSaving ? "Saving..." : editingGroup ? "Update Group" : "Create Group"}
+              <Can {...PERMISSION} action={editingGroup ? "change" : "add"}>
+                {(allowed) => (
+                  <Button onClick={handleSave} disabled={isSaving || !allowed}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {isSaving ? "Saving..." : editingGroup ? "Update Group" : "Create Group"}
+                  </Button>
+                )}
+              </Can>
+              <Button
+                variant="outline"
+                onClick={() => setIsPreviewOpen(true)}
+                disabled={isSaving}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
               </Button>
               <Button
                 variant="outline"
-                onClick={() => setIsFormOpen(false)}
+                onClick={closeForm}
                 disabled={isSaving}
               >
                 <X className="h-4 w-4 mr-2" />
@@ -418,6 +393,21 @@ export function GroupManagement() {
         </Card>
       )}
 
+      {/* Preview as the group, with the changes against the saved permissions */}
+      {isFormOpen && isPreviewOpen && (
+        <GroupPreviewDialog
+          groupId={editingGroup?.id ?? null}
+          name={formName}
+          savedPermissions={editingGroup?.permissions ?? null}
+          permissions={formPermissions}
+          canSave={canSave}
+          isSaving={isSaving}
+          error={formError}
+          onSave={handleSave}
+          onClose={() => setIsPreviewOpen(false)}
+        />
+      )}
+
       {/* Groups List */}
       {groups.length === 0 && !isFormOpen ? (
         <Card className="border-dashed">
@@ -427,10 +417,14 @@ export function GroupManagement() {
             <p className="text-muted-foreground text-sm mt-1 mb-4">
               Create your first group to start assigning permissions
             </p>
-            <Button onClick={openCreate}>
-              <PlusIcon className="h-4 w-4 mr-2" />
-              Create First Group
-            </Button>
+            <Can {...PERMISSION} action="add">
+              {(allowed) => (
+                <Button onClick={() => openCreate()} disabled={!allowed}>
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  Create First Group
+                </Button>
+              )}
+            </Can>
           </CardContent>
         </Card>
       ) : (
@@ -448,22 +442,47 @@ export function GroupManagement() {
                     )}
                   </div>
                   <div className="flex gap-1 opacity-0 group-hover/card:opacity-100 transition-opacity">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                      onClick={() => openEdit(group)}
-                    >
-                      <Pencil className="h-3.5 w-3.5" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                      onClick={() => handleDelete(group)}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </Button>
+                    <ExportGroupsMenu groups={[group]} iconOnly />
+                    <Can {...PERMISSION} action="add">
+                      {(allowed) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openClone(group)}
+                          disabled={!allowed}
+                          title="Clone group"
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </Can>
+                    <Can {...PERMISSION} action="change">
+                      {(allowed) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEdit(group)}
+                          disabled={!allowed}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </Can>
+                    <Can {...PERMISSION} action="delete">
+                      {(allowed) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(group)}
+                          disabled={!allowed}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </Can>
                   </div>
                 </div>
               </CardHeader>
@@ -0,0 +1,180 @@
+// ============================================================
+// Group Preview Dialog
+// ============================================================
+// "Preview" in the group form of Team → Groups. Before saving,
+// shows what the group's members will get:
+//   - The real AppSidebar and RouteGuard, fed the edited
+//     permissions through PermissionProvider's `data` (nothing is
+//     fetched). Links open inside the preview, not the app.
+//   - The changes against the saved permissions, side by side
+// Pages are not mounted in the preview; a summary of the allowed
+// actions stands in for them.
+// ============================================================
+
+import { useState, type MouseEvent } from "react"
+import { PermissionDiff } from "@/components/admin/PermissionDiff"
+import { AppSidebar } from "@/components/app-sidebar"
+import { RouteGuard } from "@/components/route-guard"
+import { NotFoundPage } from "@/components/status-page"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { SidebarProvider } from "@/components/ui/sidebar"
+import { PermissionProvider } from "@/context/PermissionContext"
+import { usePermissions } from "@/hooks/usePermissions"
+import type { MenuPermissionData } from "@/lib/api"
+import { diffPermissions, groupPermissionsData } from "@/lib/permission-preview"
+import { findSubmenu, PERMISSION_VERB_LABELS, submenuVerbs } from "@/lib/permission-verbs"
+import { DASHBOARD_PATH, matchDashboardRoute, type DashboardRoute } from "@/lib/routes"
+import { Check, Save, X } from "lucide-react"
+
+// -- Stand-in for the page a member would open --
+
+function PreviewPage({ route }: { route: DashboardRoute }) {
+  const { getPermissions } = usePermissions()
+  const sub = findSubmenu(route.mainMenu, route.subMenu)
+  const permissions = getPermissions(route.mainMenu, route.subMenu)
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-xs text-muted-foreground">{route.mainMenu}</p>
+        <h3 className="font-semibold text-lg">{route.subMenu}</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">Members can open this page. Actions on it:</p>
+      <ul className="space-y-1 text-sm">
+        {(sub ? submenuVerbs(sub) : []).map((verb) => (
+          <li key={verb} className="flex items-center gap-2">
+            {permissions[verb] ? (
+              <Check className="h-4 w-4 text-green-600" />
+            ) : (
+              <X className="h-4 w-4 text-muted-foreground" />
+            )}
+            <span className={permissions[verb] ? "" : "text-muted-foreground line-through"}>
+              {PERMISSION_VERB_LABELS[verb]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+// -- Dialog --
+
+type GroupPreviewDialogProps = {
+  /** Saved group id; null while creating */
+  groupId: string | null
+  name: string
+  /** Permissions as saved; null for a new group */
+  savedPermissions: MenuPermissionData[] | null
+  /** Permissions as edited in the form */
+  permissions: MenuPermissionData[]
+  canSave: boolean
+  isSaving: boolean
+  error: string | null
+  onSave: () => void
+  onClose: () => void
+}
+
+export function GroupPreviewDialog({
+  groupId,
+  name,
+  savedPermissions,
+  permissions,
+  canSave,
+  isSaving,
+  error,
+  onSave,
+  onClose,
+}: GroupPreviewDialogProps) {
+  const [path, setPath] = useState(DASHBOARD_PATH)
+  const match = matchDashboardRoute(path)
+  const displayName = name.trim() || "New group"
+  const previewData = groupPermissionsData({ id: groupId, name: displayName, permissions })
+  const changes = diffPermissions(savedPermissions ?? [], permissions)
+
+  // Sidebar links and status page buttons navigate the preview only
+  const keepLinksInPreview = (event: MouseEvent<HTMLElement>) => {
+    const href = (event.target as HTMLElement).closest("a")?.getAttribute("href")
+    if (!href?.startsWith("/")) return
+    event.preventDefault()
+    event.stopPropagation()
+    setPath(href)
+  }
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open && !isSaving) onClose()
+      }}
+    >
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preview as "{displayName}"</DialogTitle>
+          <DialogDescription>
+            What members of this group will see once the changes are saved. Admins always see
+            everything.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Sidebar and route guard with the edited permissions */}
+        <PermissionProvider data={previewData}>
+          <div
+            onClickCapture={keepLinksInPreview}
+            className="flex h-[420px] overflow-hidden rounded-lg border"
+          >
+            <SidebarProvider className="min-h-0 w-auto shrink-0">
+              <AppSidebar
+                collapsible="none"
+                className="border-e"
+                user={{ name: `${displayName} member`, email: "Preview" }}
+                activePath={path}
+              />
+            </SidebarProvider>
+            <div className="flex flex-1 flex-col overflow-y-auto p-4">
+              <p className="mb-3 font-mono text-xs text-muted-foreground">{path}</p>
+              {match ? (
+                <RouteGuard route={match.route} onRedirect={setPath}>
+                  <PreviewPage route={match.route} />
+                </RouteGuard>
+              ) : (
+                <NotFoundPage />
+              )}
+            </div>
+          </div>
+        </PermissionProvider>
+
+        {/* Saved vs. edited */}
+        <div className="space-y-2">
+          <h3 className="font-medium">Changes</h3>
+          <PermissionDiff
+            changes={changes}
+            beforeLabel={savedPermissions ? "Saved" : "Saved (new group)"}
+            afterLabel="After saving"
+            emptyText={savedPermissions ? "No changes to the saved permissions" : "No permissions selected yet"}
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Back to editing
+          </Button>
+          <Button onClick={onSave} disabled={isSaving || !canSave}>
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? "Saving..." : groupId ? "Update Group" : "Create Group"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,65 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ImportGroupsButton } from "@/components/admin/GroupTransfer";
+import { PermissionProvider } from "@/context/PermissionContext";
+import { api, type GroupData } from "@/lib/api";
+import { serveLegacyGroupFormat, signInAs } from "@/test/mock-api";
+
+const FILE = {
+  version: 1,
+  exportedAt: "2026-10-01T00:00:00.000Z",
+  groups: [
+    {
+      name: "Viewers",
+      description: "Read-only access to plans",
+      permissions: [{ mainMenu: "Subscriptions", subMenu: "Plans", verbs: ["view", "change"] }],
+    },
+    {
+      name: "Front desk",
+      description: null,
+      permissions: [
+        { mainMenu: "Subscriptions", subMenu: "Plans", verbs: ["view", "add", "delete"] },
+        { mainMenu: "Invoices", subMenu: "Create Invoice", verbs: ["view", "add"] },
+      ],
+    },
+  ],
+};
+
+function verbsOf(groups: GroupData[], name: string, subMenu: string) {
+  return groups.find((group) => group.name === name)?.permissions.find((row) => row.subMenu === subMenu)?.verbs;
+}
+
+async function importFile(contents: string) {
+  const user = userEvent.setup();
+  const { container } = render(
+    <PermissionProvider>
+      <ImportGroupsButton groups={await api.groups.list()} />
+    </PermissionProvider>
+  );
+
+  await user.upload(
+    container.querySelector<HTMLInputElement>('input[type="file"]')!,
+    new File([contents], "groups.json", { type: "application/json" })
+  );
+  await user.click(await screen.findByRole("button", { name: "Import 2 groups" }));
+  expect(await screen.findByText("2 groups imported")).toBeTruthy();
+}
+
+describe("ImportGroupsButton on a backend with the old permission format", () => {
+  let restore: () => void;
+  beforeEach(async () => {
+    await signInAs("admin@bookito.test", "admin123");
+    restore = serveLegacyGroupFormat();
+  });
+  afterEach(() => restore());
+
+  it("keeps add, change and delete on new and updated groups", async () => {
+    await importFile(JSON.stringify(FILE));
+
+    const groups = await api.groups.list();
+    expect(verbsOf(groups, "Viewers", "Plans")).toEqual(["view", "change"]);
+    expect(verbsOf(groups, "Front desk", "Plans")).toEqual(["view", "add", "delete"]);
+    expect(verbsOf(groups, "Front desk", "Create Invoice")).toEqual(["view", "add"]);
+  });
+});
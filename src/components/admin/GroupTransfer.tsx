@@ -0,0 +1,308 @@
+// ============================================================
+// Group Import / Export
+// ============================================================
+// Moves groups between backends (staging → production) from
+// Team → Groups; formats and checks live in lib/group-transfer.
+//   - ExportGroupsMenu: downloads one or all groups as JSON or
+//     as a CSV matrix
+//   - ImportGroupsButton: reads a JSON / CSV file and opens a dry
+//     run: what each group would become (new, updated, no change)
+//     with the permission changes side by side. Nothing is saved
+//     until "Import"; a file with any problem cannot be imported.
+// Groups are matched by name, so importing the same file twice
+// changes nothing the second time.
+// ============================================================
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { PermissionDiff } from "@/components/admin/PermissionDiff"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useCan } from "@/hooks/useCan"
+import { api, getErrorMessage, type GroupData } from "@/lib/api"
+import {
+  exportFileName,
+  exportGroupsCsv,
+  exportGroupsJson,
+  parseGroupsFile,
+  planImport,
+  type ImportAction,
+  type ImportStep,
+  type ParsedGroups,
+} from "@/lib/group-transfer"
+import { invalidateQueries, queryKeys } from "@/lib/query-cache"
+import { AlertTriangle, Download, Loader2, Upload } from "lucide-react"
+
+const PERMISSION = { menu: "Team", sub: "Groups" } as const
+
+// -- Export --
+
+function download(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function ExportGroupsMenu({
+  groups,
+  iconOnly = false,
+}: {
+  /** One group (its card) or all of them (page header) */
+  groups: GroupData[]
+  iconOnly?: boolean
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        disabled={groups.length === 0}
+        render={
+          iconOnly ? (
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Export group" />
+          ) : (
+            <Button variant="outline" />
+          )
+        }
+      >
+        <Download className={iconOnly ? "h-3.5 w-3.5" : "h-4 w-4 mr-2"} />
+        {!iconOnly && "Export"}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44">
+        <DropdownMenuItem
+          onClick={() => download(exportGroupsJson(groups), exportFileName(groups, "json"), "application/json")}
+        >
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() => download(exportGroupsCsv(groups), exportFileName(groups, "csv"), "text/csv")}
+        >
+          CSV matrix
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+// -- Import --
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "No change",
+}
+
+type StepResult = { ok: true } | { ok: false; error: string }
+
+function ImportStepRow({ step, result }: { step: ImportStep; result?: StepResult }) {
+  const [isOpen, setIsOpen] = useState(step.action !== "unchanged")
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="font-medium hover:underline underline-offset-4 disabled:no-underline"
+          onClick={() => setIsOpen((open) => !open)}
+          disabled={step.action === "unchanged"}
+        >
+          {step.input.name}
+        </button>
+        <Badge variant={step.action === "unchanged" ? "outline" : "secondary"} className="text-xs">
+          {ACTION_LABELS[step.action]}
+        </Badge>
+        {step.action !== "unchanged" && (
+          <span className="text-xs text-muted-foreground">
+            {step.changes.length} menu{step.changes.length !== 1 ? "s" : ""} changed
+            {step.descriptionChanged && ", new description"}
+          </span>
+        )}
+        {result?.ok && <span className="ml-auto text-xs text-green-700 dark:text-green-400">Imported</span>}
+        {result && !result.ok && <span className="ml-auto text-xs text-destructive">{result.error}</span>}
+      </div>
+
+      {isOpen && step.action !== "unchanged" && (
+        <>
+          {step.descriptionChanged && (
+            <p className="text-xs text-muted-foreground">
+              Description: "{step.existing?.description ?? ""}" → "{step.input.description ?? ""}"
+            </p>
+          )}
+          <PermissionDiff
+            changes={step.changes}
+            beforeLabel={step.existing ? "Current" : "Current (no group)"}
+            afterLabel="After import"
+            emptyText={step.action === "create" ? "No permissions" : "Permissions unchanged"}
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+function ImportGroupsDialog({
+  fileName,
+  parsed,
+  groups,
+  onClose,
+}: {
+  fileName: string
+  parsed: ParsedGroups
+  groups: GroupData[]
+  onClose: () => void
+}) {
+  const canAdd = useCan(PERMISSION.menu, PERMISSION.sub, "add")
+  const canChange = useCan(PERMISSION.menu, PERMISSION.sub, "change")
+  // Planned once against the groups as they were when the file was opened
+  const [steps] = useState(() => planImport(parsed.groups, groups))
+  const [results, setResults] = useState<Map<ImportStep, StepResult> | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const pending = steps.filter((step) => step.action !== "unchanged")
+  const missingPermission =
+    (pending.some((step) => step.action === "create") && !canAdd) ||
+    (pending.some((step) => step.action === "update") && !canChange)
+  const canImport = parsed.errors.length === 0 && pending.length > 0 && !missingPermission && !results
+
+  const runImport = async () => {
+    setIsImporting(true)
+    const done = new Map<ImportStep, StepResult>()
+    // One at a time, so a failure leaves the rest of the list readable
+    for (const step of pending) {
+      try {
+        if (step.existing) {
+          await api.groups.update(step.existing.id, step.input)
+        } else {
+          await api.groups.create(step.input)
+        }
+        done.set(step, { ok: true })
+      } catch (err) {
+        done.set(step, { ok: false, error: getErrorMessage(err, "Failed to import") })
+      }
+      setResults(new Map(done))
+    }
+    setIsImporting(false)
+    invalidateQueries(queryKeys.groups)
+    invalidateQueries(queryKeys.users) // Users list shows group names
+  }
+
+  const failed = results ? [...results.values()].filter((r) => !r.ok).length : 0
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open && !isImporting) onClose()
+      }}
+    >
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import groups</DialogTitle>
+          <DialogDescription>
+            {fileName}: dry run against the groups here. Groups are matched by name; nothing is saved
+            until you import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {parsed.errors.length > 0 ? (
+          <div className="rounded-lg border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+            <p className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              The file cannot be imported
+            </p>
+            <ul className="list-disc ps-5 text-xs space-y-0.5 max-h-48 overflow-y-auto">
+              {parsed.errors.map((error, i) => (
+                <li key={i}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {steps.map((step) => (
+              <ImportStepRow key={step.input.name} step={step} result={results?.get(step)} />
+            ))}
+          </div>
+        )}
+
+        {missingPermission && parsed.errors.length === 0 && (
+          <p className="text-sm text-destructive">
+            You need permission to {canAdd ? "change" : "add"} groups to import this file.
+          </p>
+        )}
+        {results && !isImporting && (
+          <p className={`text-sm ${failed > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+            {failed > 0
+              ? `${results.size - failed} of ${results.size} groups imported`
+              : `${results.size} group${results.size !== 1 ? "s" : ""} imported`}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            {results ? "Close" : "Cancel"}
+          </Button>
+          {!results && (
+            <Button onClick={runImport} disabled={!canImport || isImporting}>
+              {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {pending.length > 0 ? `Import ${pending.length} group${pending.length !== 1 ? "s" : ""}` : "Nothing to import"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ImportGroupsButton({ groups, disabled }: { groups: GroupData[]; disabled?: boolean }) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [opened, setOpened] = useState<{ fileName: string; parsed: ParsedGroups } | null>(null)
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Picking the same file again still fires
+    if (!file) return
+    try {
+      setOpened({ fileName: file.name, parsed: parseGroupsFile(await file.text()) })
+    } catch {
+      setOpened({ fileName: file.name, parsed: { groups: [], errors: ["The file could not be read"] } })
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        className="hidden"
+        onChange={onFileChange}
+      />
+      <Button variant="outline" onClick={() => inputRef.current?.click()} disabled={disabled}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import
+      </Button>
+      {opened && (
+        <ImportGroupsDialog
+          fileName={opened.fileName}
+          parsed={opened.parsed}
+          groups={groups}
+          onClose={() => setOpened(null)}
+        />
+      )}
+    </>
+  )
+}
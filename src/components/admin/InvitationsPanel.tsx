@@ -0,0 +1,152 @@
+// ============================================================
+// Pending Invitations Panel
+// ============================================================
+// Shown under the user list on Team → Users. Lists invitations
+// that have not been accepted yet, with who sent them and when
+// the emailed link expires.
+//   - Resend: emails a new link (the old one stops working) and
+//     restarts the expiry; also revives expired invitations
+//   - Revoke: the link stops working, nothing is created
+// Both need the Team → Users "add" permission.
+// ============================================================
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Can } from "@/components/can"
+import { useQuery } from "@/hooks/useQuery"
+import { api, getErrorMessage, type InvitationData } from "@/lib/api"
+import { invalidateQueries, optimisticUpdate, queryKeys } from "@/lib/query-cache"
+import { Clock, MailPlus, RotateCw, X } from "lucide-react"
+import { useState } from "react"
+
+const PERMISSION = { menu: "Team", sub: "Users", action: "add" } as const
+const NO_INVITATIONS: InvitationData[] = []
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { dateStyle: "medium" })
+}
+
+export function InvitationsPanel() {
+  const invitationsQuery = useQuery(queryKeys.invitations, api.invitations.list)
+  const invitations = invitationsQuery.data ?? NO_INVITATIONS
+  const [resendingId, setResendingId] = useState<string | null>(null)
+  const [resentId, setResentId] = useState<string | null>(null)
+
+  // -- Resend: new link, new expiry --
+  const handleResend = async (invitation: InvitationData) => {
+    setResendingId(invitation.id)
+    setResentId(null)
+
+    try {
+      await api.invitations.resend(invitation.id)
+      setResentId(invitation.id)
+      invalidateQueries(queryKeys.invitations)
+    } catch (err) {
+      alert(getErrorMessage(err, "Failed to resend invitation"))
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  // -- Revoke --
+  const handleRevoke = async (invitation: InvitationData) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The emailed link will stop working.`)) return
+
+    const rollback = optimisticUpdate<InvitationData[]>(queryKeys.invitations, (prev) =>
+      prev.filter((i) => i.id !== invitation.id)
+    )
+
+    try {
+      await api.invitations.revoke(invitation.id)
+      invalidateQueries(queryKeys.invitations)
+    } catch (err) {
+      rollback()
+      alert(getErrorMessage(err, "Failed to revoke invitation"))
+    }
+  }
+
+  // Nothing pending (or the list failed to load): keep the page uncluttered
+  if (invitations.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MailPlus className="h-4 w-4" />
+          Pending invitations
+        </CardTitle>
+        <CardDescription>
+          Invited people get an account once they open the emailed link and choose a password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => {
+          const isExpired = invitation.status === "expired"
+
+          return (
+            <div
+              key={invitation.id}
+              className="flex items-center justify-between gap-3 rounded-lg border px-4 py-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-sm truncate">{invitation.name}</p>
+                  <Badge
+                    variant={invitation.role === "admin" ? "default" : "secondary"}
+                    className="text-[10px] px-1.5 py-0"
+                  >
+                    {invitation.role}
+                  </Badge>
+                  {invitation.group && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                      {invitation.group.name}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {invitation.email} · Invited by {invitation.invitedBy.name} on {formatDate(invitation.createdAt)}
+                </p>
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="h-3 w-3" />
+                  {isExpired ? (
+                    <span className="text-destructive">Expired on {formatDate(invitation.expiresAt)}</span>
+                  ) : (
+                    <>Link expires {formatDate(invitation.expiresAt)}</>
+                  )}
+                  {resentId === invitation.id && <span className="text-primary"> · Sent again</span>}
+                </p>
+              </div>
+
+              <Can {...PERMISSION}>
+                {(allowed) => (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResend(invitation)}
+                      disabled={!allowed || resendingId === invitation.id}
+                    >
+                      <RotateCw className="h-3.5 w-3.5 mr-1.5" />
+                      {resendingId === invitation.id ? "Sending..." : "Resend"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={!allowed}
+                    >
+                      <X className="h-3.5 w-3.5 mr-1.5" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </Can>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
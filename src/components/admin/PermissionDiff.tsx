@@ -0,0 +1,101 @@
+// ============================================================
+// Permission Diff
+// ============================================================
+// Side-by-side table of submenus whose verbs differ (see
+// diffPermissions in lib/permission-preview): what is granted now
+// next to what will be. Verbs only on the left are struck out,
+// verbs only on the right are highlighted. Used by the group
+// preview and the group import of Team → Groups.
+// ============================================================
+
+import { Badge } from "@/components/ui/badge"
+import type { PermissionChange } from "@/lib/permission-preview"
+import { PERMISSION_VERB_LABELS, type PermissionVerb } from "@/lib/permission-verbs"
+
+function VerbList({
+  verbs,
+  other,
+  highlight,
+}: {
+  verbs: PermissionVerb[]
+  /** Verbs on the other side; ours that are missing there are highlighted */
+  other: PermissionVerb[]
+  highlight: string
+}) {
+  if (verbs.length === 0) {
+    return <span className="text-xs text-muted-foreground">Hidden</span>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {verbs.map((verb) => (
+        <Badge
+          key={verb}
+          variant="outline"
+          className={`text-[10px] ${other.includes(verb) ? "" : highlight}`}
+        >
+          {PERMISSION_VERB_LABELS[verb]}
+        </Badge>
+      ))}
+    </div>
+  )
+}
+
+export function PermissionDiff({
+  changes,
+  beforeLabel,
+  afterLabel,
+  emptyText,
+}: {
+  changes: PermissionChange[]
+  beforeLabel: string
+  afterLabel: string
+  /** Shown instead of the table when nothing changes */
+  emptyText: string
+}) {
+  if (changes.length === 0) {
+    return (
+      <p className="rounded-lg border border-dashed p-4 text-center text-sm text-muted-foreground">
+        {emptyText}
+      </p>
+    )
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto rounded-lg border">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-muted text-xs text-muted-foreground">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Menu</th>
+            <th className="px-3 py-2 text-left font-medium">{beforeLabel}</th>
+            <th className="px-3 py-2 text-left font-medium">{afterLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) => (
+            <tr key={`${change.mainMenu}|${change.subMenu}`} className="border-t align-top">
+              <td className="px-3 py-2">
+                <span className="text-muted-foreground">{change.mainMenu} › </span>
+                {change.subMenu}
+              </td>
+              <td className="px-3 py-2">
+                <VerbList
+                  verbs={change.saved}
+                  other={change.draft}
+                  highlight="border-destructive/50 text-destructive line-through"
+                />
+              </td>
+              <td className="px-3 py-2">
+                <VerbList
+                  verbs={change.draft}
+                  other={change.saved}
+                  highlight="border-green-600/50 text-green-700 dark:text-green-400"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+// ============================================================
+// Permission Matrix
+// ============================================================
+// The checkbox grid of a group's form in Team → Groups. Shows all
+// menus with a checkbox per verb each submenu declares in
+// menu-config. "View" makes the submenu visible and the other
+// verbs need it: checking one also checks View, unchecking View
+// clears the row (see lib/permission-matrix).
+// Bulk edits:
+//   - Submenu name: all of its verbs on / off
+//   - Main menu heading: every submenu under it
+//   - Column buttons: one verb across every submenu declaring it
+//   - Filter: narrows the grid; bulk edits only touch what is shown
+// ============================================================
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { MenuPermissionData } from "@/lib/api"
+import { ALL_MENU_ITEMS, type MenuItem } from "@/lib/menu-config"
+import {
+  getVerbs,
+  hasAllVerbs,
+  hasVerbEverywhere,
+  setAllVerbs,
+  setVerb,
+  setVerbForAll,
+  type MatrixTarget,
+} from "@/lib/permission-matrix"
+import { PERMISSION_VERB_LABELS, PERMISSION_VERBS, submenuVerbs } from "@/lib/permission-verbs"
+import { SearchIcon } from "lucide-react"
+
+/** Menus (and their submenus) matching the filter; a main menu match keeps all its submenus */
+function filterMenus(query: string): MenuItem[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return ALL_MENU_ITEMS
+
+  return ALL_MENU_ITEMS.flatMap((menu) => {
+    if (menu.title.toLowerCase().includes(needle)) return [menu]
+    const items = menu.items.filter((sub) => sub.title.toLowerCase().includes(needle))
+    return items.length > 0 ? [{ ...menu, items }] : []
+  })
+}
+
+function toTargets(menu: MenuItem): MatrixTarget[] {
+  return menu.items.map((sub) => ({ mainMenu: menu.title, sub }))
+}
+
+export function PermissionMatrix({
+  permissions,
+  onChange,
+}: {
+  permissions: MenuPermissionData[]
+  onChange: (updated: MenuPermissionData[]) => void
+}) {
+  const [query, setQuery] = useState("")
+  const menus = filterMenus(query)
+  const targets = menus.flatMap(toTargets)
+  // Only verbs some shown submenu declares get a column button
+  const columnVerbs = PERMISSION_VERBS.filter((verb) =>
+    targets.some((target) => submenuVerbs(target.sub).includes(verb))
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <SearchIcon className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Filter menus, e.g. invoice"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-8"
+          aria-label="Filter menus"
+        />
+      </div>
+
+      {/* Whole-column toggles */}
+      {columnVerbs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-muted-foreground mr-1">
+            {query.trim() ? "Toggle for shown menus:" : "Toggle for all menus:"}
+          </span>
+          {columnVerbs.map((verb) => {
+            const isOn = hasVerbEverywhere(permissions, targets, verb)
+            return (
+              <Button
+                key={verb}
+                type="button"
+                size="sm"
+                variant={isOn ? "default" : "outline"}
+                className="h-7 px-2 text-xs"
+                aria-pressed={isOn}
+                onClick={() => onChange(setVerbForAll(permissions, targets, verb, !isOn))}
+              >
+                {PERMISSION_VERB_LABELS[verb]}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+        {menus.length === 0 && (
+          <p className="py-6 text-center text-sm text-muted-foreground">No menus match "{query.trim()}"</p>
+        )}
+
+        {menus.map((menu) => {
+          const menuTargets = toTargets(menu)
+
+          return (
+            <div key={menu.title} className="rounded-lg border p-3">
+              {/* Main Menu Header + toggle all of its submenus */}
+              <button
+                type="button"
+                onClick={() => onChange(setAllVerbs(permissions, menuTargets, !hasAllVerbs(permissions, menuTargets)))}
+                className="font-semibold text-sm mb-2 text-primary hover:underline underline-offset-4"
+                title={`Toggle all ${menu.title} permissions`}
+              >
+                {menu.title}
+              </button>
+
+              {/* Sub-menu permission rows */}
+              <div className="space-y-2">
+                {menuTargets.map((target) => {
+                  const { sub } = target
+                  const verbs = getVerbs(permissions, target)
+
+                  return (
+                    <div
+                      key={sub.title}
+                      className={`flex flex-wrap items-center gap-x-4 gap-y-2 rounded-md px-3 py-2 text-sm transition-colors ${
+                        verbs.length > 0 ? "bg-primary/5" : "bg-muted/30"
+                      }`}
+                    >
+                      {/* Submenu name + select all toggle */}
+                      <button
+                        type="button"
+                        onClick={() => onChange(setAllVerbs(permissions, [target], !hasAllVerbs(permissions, [target])))}
+                        className="min-w-[140px] text-left font-medium hover:text-primary transition-colors"
+                        title="Toggle all permissions"
+                      >
+                        {sub.title}
+                      </button>
+
+                      {/* One checkbox per verb the submenu declares */}
+                      {submenuVerbs(sub).map((verb) => (
+                        <label key={verb} className="flex items-center gap-1.5 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={verbs.includes(verb)}
+                            onChange={(e) => onChange(setVerb(permissions, target, verb, e.target.checked))}
+                            className="h-4 w-4 rounded border-gray-300 accent-primary"
+                          />
+                          <span className="text-xs text-muted-foreground">{PERMISSION_VERB_LABELS[verb]}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
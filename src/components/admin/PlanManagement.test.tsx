@@ -0,0 +1,190 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import { PlanManagement } from "@/components/admin/PlanManagement";
+import { PermissionProvider } from "@/context/PermissionContext";
+import type { PlanData } from "@/lib/api";
+import { mockRequest, signInAs } from "@/test/mock-api";
+
+async function renderPlans({ recordId, as = "admin" }: { recordId?: string; as?: "admin" | "viewer" } = {}) {
+  if (as === "admin") await signInAs("admin@bookito.test", "admin123");
+  else await signInAs("viewer@bookito.test", "viewer123");
+
+  const user = userEvent.setup();
+  render(
+    <PermissionProvider>
+      <PlanManagement recordId={recordId} />
+    </PermissionProvider>
+  );
+  await screen.findByText("Plan Listing");
+  return user;
+}
+
+async function listPlans() {
+  const { body } = await mockRequest<{ data: PlanData[] }>("GET", "/api/plans");
+  return body.data;
+}
+
+async function fillPlanForm(user: ReturnType<typeof userEvent.setup>, from: string, to: string, rate: string) {
+  const fields = [
+    [screen.getByLabelText("From Rooms *"), from],
+    [screen.getByLabelText("To Rooms *"), to],
+    [screen.getByLabelText("Rate / Room *"), rate],
+  ] as const;
+  for (const [input, value] of fields) {
+    await user.clear(input);
+    if (value) await user.type(input, value);
+  }
+}
+
+describe("PlanManagement handleSave", () => {
+  it.each([
+    ["", "10", "100", "From rooms must be at least 1"],
+    ["0", "10", "100", "From rooms must be at least 1"],
+    ["120", "110", "100", "To rooms must be >= From rooms"],
+    ["120", "", "100", "To rooms must be >= From rooms"],
+    ["120", "130", "-5", "Rate per room must be a valid number >= 0"],
+    ["120", "130", "", "Rate per room must be a valid number >= 0"],
+  ])("rejects from=%j to=%j rate=%j before calling the API", async (from, to, rate, message) => {
+    const user = await renderPlans();
+    const before = await listPlans();
+
+    await user.click(await screen.findByRole("button", { name: "New Plan" }));
+    await fillPlanForm(user, from, to, rate);
+    await user.click(screen.getByRole("button", { name: "Create Plan" }));
+
+    expect(await screen.findByText(message)).toBeTruthy();
+    expect(await listPlans()).toHaveLength(before.length);
+  });
+
+  it("shows the backend's error and marks the field when the range overlaps", async () => {
+    const user = await renderPlans();
+
+    await user.click(await screen.findByRole("button", { name: "New Plan" }));
+    await fillPlanForm(user, "5", "15", "120");
+    await user.click(screen.getByRole("button", { name: "Create Plan" }));
+
+    // Above the buttons and under the field
+    expect(await screen.findAllByText(/overlaps the existing 1-10 rooms plan/)).toHaveLength(2);
+    expect(screen.getByLabelText("From Rooms *").getAttribute("aria-invalid")).toBe("true");
+    // The form stays open with the input
+    expect((screen.getByLabelText("Rate / Room *") as HTMLInputElement).value).toBe("120");
+  });
+
+  it("leaves rules the client does not check (a zero rate) to the backend", async () => {
+    const user = await renderPlans();
+
+    await user.click(await screen.findByRole("button", { name: "New Plan" }));
+    await fillPlanForm(user, "500", "600", "0");
+    await user.click(screen.getByRole("button", { name: "Create Plan" }));
+
+    expect(await screen.findAllByText("Rate per room must be greater than 0")).toHaveLength(2);
+    expect(screen.getByLabelText("Rate / Room *").getAttribute("aria-invalid")).toBe("true");
+  });
+
+  it("creates a valid plan and closes the form", async () => {
+    const user = await renderPlans();
+
+    await user.click(await screen.findByRole("button", { name: "New Plan" }));
+    await fillPlanForm(user, "101", "150", "89.5");
+    await user.click(screen.getByRole("button", { name: "Create Plan" }));
+
+    await waitFor(() => expect(screen.queryByRole("button", { name: "Create Plan" })).toBeNull());
+    expect((await listPlans()).find((plan) => plan.fromRooms === 101)).toMatchObject({
+      toRooms: 150,
+      ratePerRoom: 89.5,
+    });
+  });
+
+  it("updates the plan of the record route", async () => {
+    const user = await renderPlans({ recordId: "pln_2" });
+
+    expect((await screen.findByLabelText("From Rooms *") as HTMLInputElement).value).toBe("11");
+    await fillPlanForm(user, "11", "25", "125");
+    await user.click(screen.getByRole("button", { name: "Update Plan" }));
+
+    await waitFor(async () =>
+      expect((await listPlans()).find((plan) => plan.id === "pln_2")?.ratePerRoom).toBe(125)
+    );
+  });
+
+  it("does not let a read-only group create plans", async () => {
+    await renderPlans({ as: "viewer" });
+
+    const newPlan = await screen.findByRole("button", { name: "New Plan" });
+    await waitFor(() => expect((newPlan as HTMLButtonElement).disabled).toBe(true));
+  });
+});
+
+describe("PlanManagement poster generator", () => {
+  async function generatePoster(layout: "highlight" | "table") {
+    const user = await renderPlans();
+    await user.click(screen.getByRole("button", { name: "Image Generator" }));
+    await user.selectOptions(screen.getByLabelText("Design Type"), layout);
+    await user.click(screen.getByRole("button", { name: "Generate Image" }));
+
+    const img = (await screen.findByAltText("Generated plan poster")) as HTMLImageElement;
+    expect(img.src).toMatch(/^data:image\/png;base64,/);
+    return loadImage(img.src);
+  }
+
+  // RGBA reader for a decoded poster
+  function pixels(image: Awaited<ReturnType<typeof loadImage>>) {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext("2d");
+    ctx.drawImage(image, 0, 0);
+    const { data } = ctx.getImageData(0, 0, image.width, image.height);
+    return (x: number, y: number) => Array.from(data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+  }
+
+  it("draws the selected plan as a square poster", async () => {
+    const image = await generatePoster("highlight");
+    const pixelAt = pixels(image);
+
+    expect(screen.getByText("Poster generated successfully.")).toBeTruthy();
+    expect([image.width, image.height]).toEqual([1080, 1080]);
+    // Dark green gradient behind the card
+    const [r, g, b, a] = pixelAt(4, 4);
+    expect(a).toBe(255);
+    expect(g).toBeGreaterThan(r);
+    expect(g).toBeGreaterThan(b);
+    expect(g).toBeLessThan(80);
+    // The card itself is (almost) white
+    expect(pixelAt(540, 110).slice(0, 3).every((channel) => channel > 240)).toBe(true);
+    // The slate pricing box (#0f172a), 230px tall, starts below the headlines
+    const boxRows = Array.from({ length: 500 }, (_, i) => 400 + i).filter(
+      (y) => pixelAt(130, y).join() === "15,23,42,255"
+    );
+    expect(boxRows[0]).toBeGreaterThanOrEqual(420);
+    expect(boxRows.length).toBeGreaterThan(200);
+    expect(boxRows.length).toBeLessThanOrEqual(230);
+  });
+
+  it("grows the table poster with the number of plans", async () => {
+    await signInAs("admin@bookito.test", "admin123");
+    const rooms = [
+      [200, 210],
+      [211, 220],
+      [221, 230],
+      [231, 240],
+      [241, 250],
+      [251, 260],
+      [261, 270],
+      [271, 280],
+    ];
+    for (const [fromRooms, toRooms] of rooms) {
+      const { status } = await mockRequest("POST", "/api/plans", { fromRooms, toRooms, ratePerRoom: 80 });
+      expect(status).toBe(201);
+    }
+    const count = (await listPlans()).length;
+
+    const image = await generatePoster("table");
+
+    expect(screen.getByText("Full table poster generated successfully.")).toBeTruthy();
+    expect(image.width).toBe(1440);
+    // Header at 320, 62px header row, 58px per plan, 130px footer
+    expect(image.height).toBe(Math.max(980, 320 + 62 + count * 58 + 130));
+    expect(image.height).toBeGreaterThan(980);
+  });
+});
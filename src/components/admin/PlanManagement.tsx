@@ -7,6 +7,10 @@
 //   - Create / Edit plan via inline card form
 //   - Bulk delete via checkbox selection
 //   - Plan poster generator with WhatsApp share flow
+//   - Deep link: /dashboard/subscriptions/plans/:id opens that plan's edit form
+//   - Plans come from the shared query cache; deletes update the
+//     table immediately and roll back if the request fails
+//   - Actions follow the Subscriptions -> Plans add/change/delete permissions
 // ============================================================
 
 import { useCallback, useEffect, useMemo, useState } from "react";
@@ -43,29 +47,28 @@ import {
   Send,
   Sparkles,
 } from "lucide-react";
-
-const API_BASE = import.meta.env.VITE_API_URL || "";
-
-type UserRef = {
-  id: string;
-  name: string;
-  email: string;
-};
-
-type PlanData = {
-  id: string;
-  fromRooms: number;
-  toRooms: number;
-  ratePerRoom: number;
-  createdBy: UserRef;
-  updatedBy: UserRef;
-  createdAt: string;
-  updatedAt: string;
-};
+import { Can } from "@/components/can";
+import { NotFoundPage } from "@/components/status-page";
+import { useCan } from "@/hooks/useCan";
+import { useQuery } from "@/hooks/useQuery";
+import { useRecordCrumb } from "@/hooks/useRecordCrumb";
+import {
+  api,
+  ApiError,
+  getErrorMessage,
+  type FieldErrors,
+  type PlanData,
+} from "@/lib/api";
+import { invalidateQueries, optimisticUpdate, queryKeys } from "@/lib/query-cache";
+import { navigate } from "@/lib/router";
+import { recordPath, routePath } from "@/lib/routes";
 
 type PosterLayout = "highlight" | "table";
 type PlanManagementTab = "plans" | "generator";
 
+const ROUTE_KEY = "subscription-plans";
+const PERMISSION = { menu: "Subscriptions", sub: "Plans" } as const;
+
 function formatCurrency(value: number) {
   return `Rs ${value.toLocaleString("en-IN", {
     minimumFractionDigits: 2,
@@ -143,10 +146,14 @@ function drawWrappedText(
   return y + lines.length * lineHeight;
 }
 
-export function PlanManagement() {
-  const [plans, setPlans] = useState<PlanData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const NO_PLANS: PlanData[] = [];
+
+export function PlanManagement({ recordId }: { recordId?: string }) {
+  const plansQuery = useQuery(queryKeys.plans, api.plans.list);
+  const plans = plansQuery.data ?? NO_PLANS;
+  const isLoading = plansQuery.isLoading;
+  // A failed background refresh keeps showing the cached rows
+  const error = !plansQuery.data && plansQuery.error ? getErrorMessage(plansQuery.error) : null;
 
   // Form state
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -156,6 +163,7 @@ export function PlanManagement() {
   const [formRatePerRoom, setFormRatePerRoom] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [formFieldErrors, setFormFieldErrors] = useState<FieldErrors>({});
 
   // Bulk selection
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
@@ -179,33 +187,17 @@ export function PlanManagement() {
   const [shareStatus, setShareStatus] = useState<string | null>(null);
   const [shareError, setShareError] = useState<string | null>(null);
 
+  // -- RBAC: action flags for Subscriptions -> Plans --
+  const canAdd = useCan(PERMISSION.menu, PERMISSION.sub, "add");
+  const canChange = useCan(PERMISSION.menu, PERMISSION.sub, "change");
+  const canDelete = useCan(PERMISSION.menu, PERMISSION.sub, "delete");
+  const canSave = editingPlan ? canChange : canAdd;
+
   const selectedPosterPlan = useMemo(
     () => plans.find((plan) => plan.id === imagePlanId) ?? null,
     [plans, imagePlanId],
   );
 
-  // -- Fetch plans --
-  const fetchPlans = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const res = await fetch(`${API_BASE}/api/plans`, {
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Failed to fetch plans");
-      const json = await res.json();
-      setPlans(json.data);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchPlans();
-  }, [fetchPlans]);
-
   useEffect(() => {
     if (plans.length === 0) {
       setImagePlanId("");
@@ -227,21 +219,50 @@ export function PlanManagement() {
     setFormToRooms("");
     setFormRatePerRoom("");
     setFormError(null);
+    setFormFieldErrors({});
     setIsFormOpen(true);
   };
 
-  // -- Open edit form --
-  const openEdit = (plan: PlanData) => {
+  // -- Fill the edit form for a plan --
+  const fillEditForm = (plan: PlanData) => {
     setEditingPlan(plan);
     setFormFromRooms(String(plan.fromRooms));
     setFormToRooms(String(plan.toRooms));
     setFormRatePerRoom(String(plan.ratePerRoom));
     setFormError(null);
+    setFormFieldErrors({});
+    setActiveTab("plans");
     setIsFormOpen(true);
   };
 
+  // -- Open edit form (via its deep-linkable record route) --
+  const openEdit = (plan: PlanData) => {
+    navigate(recordPath(ROUTE_KEY, plan.id));
+  };
+
+  // -- Close form (leaves the record route when editing) --
+  const closeForm = () => {
+    setIsFormOpen(false);
+    if (recordId) navigate(routePath(ROUTE_KEY));
+  };
+
+  // -- Sync the edit form with the :id in the URL --
+  const recordPlan = recordId ? plans.find((p) => p.id === recordId) ?? null : null;
+  useRecordCrumb(recordPlan && `${recordPlan.fromRooms}-${recordPlan.toRooms} rooms`);
+  const [routedPlanId, setRoutedPlanId] = useState<string | null>(null);
+  if (!isLoading && (recordPlan?.id ?? null) !== routedPlanId) {
+    setRoutedPlanId(recordPlan?.id ?? null);
+    if (recordPlan) {
+      fillEditForm(recordPlan);
+    } else if (editingPlan) {
+      setIsFormOpen(false);
+    }
+  }
+
   // -- Save (create or update) --
   const handleSave = async () => {
+    if (!canSave) return;
+
     const fromRooms = parseInt(formFromRooms, 10);
     const toRooms = parseInt(formToRooms, 10);
     const ratePerRoom = parseFloat(formRatePerRoom);
@@ -261,30 +282,22 @@ export function PlanManagement() {
 
     setIsSaving(true);
     setFormError(null);
+    setFormFieldErrors({});
 
     try {
       const body = { fromRooms, toRooms, ratePerRoom };
 
-      const url = editingPlan
-        ? `${API_BASE}/api/plans/${editingPlan.id}`
-        : `${API_BASE}/api/plans`;
-
-      const res = await fetch(url, {
-        method: editingPlan ? "PUT" : "POST",
-        credentials: "include",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body),
-      });
-
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.message || "Failed to save plan");
+      if (editingPlan) {
+        await api.plans.update(editingPlan.id, body);
+      } else {
+        await api.plans.create(body);
       }
 
-      setIsFormOpen(false);
-      fetchPlans();
+      closeForm();
+      invalidateQueries(queryKeys.plans);
     } catch (err) {
-      setFormError(err instanceof Error ? err.message : "Unknown error");
+      setFormError(getErrorMessage(err, "Failed to save plan"));
+      if (err instanceof ApiError) setFormFieldErrors(err.fieldErrors);
     } finally {
       setIsSaving(false);
     }
@@ -292,39 +305,41 @@ export function PlanManagement() {
 
   // -- Delete single plan --
   const handleDelete = async (plan: PlanData) => {
+    if (!canDelete) return;
     if (!confirm(`Delete plan "${plan.fromRooms} to ${plan.toRooms} rooms"?`))
       return;
 
+    // Remove the row immediately; put it back if the request fails
+    const rollback = optimisticUpdate<PlanData[]>(queryKeys.plans, (prev) =>
+      prev.filter((p) => p.id !== plan.id),
+    );
+
     try {
-      const res = await fetch(`${API_BASE}/api/plans/${plan.id}`, {
-        method: "DELETE",
-        credentials: "include",
-      });
-      if (!res.ok) throw new Error("Failed to delete plan");
-      fetchPlans();
+      await api.plans.remove(plan.id);
+      invalidateQueries(queryKeys.plans);
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to delete plan");
+      rollback();
+      alert(getErrorMessage(err, "Failed to delete plan"));
     }
   };
 
   // -- Bulk delete --
   const handleBulkDelete = async () => {
-    if (selectedIds.size === 0) return;
+    if (!canDelete || selectedIds.size === 0) return;
     if (!confirm(`Delete ${selectedIds.size} selected plan(s)?`)) return;
 
+    const ids = new Set(selectedIds);
     setIsDeleting(true);
+    const rollback = optimisticUpdate<PlanData[]>(queryKeys.plans, (prev) =>
+      prev.filter((p) => !ids.has(p.id)),
+    );
     try {
-      const res = await fetch(`${API_BASE}/api/plans/bulk-delete`, {
-        method: "POST",
-        credentials: "include",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ids: Array.from(selectedIds) }),
-      });
-      if (!res.ok) throw new Error("Failed to delete plans");
+      await api.plans.bulkDelete(Array.from(ids));
       setSelectedIds(new Set());
-      fetchPlans();
+      invalidateQueries(queryKeys.plans);
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to delete plans");
+      rollback();
+      alert(getErrorMessage(err, "Failed to delete plans"));
     } finally {
       setIsDeleting(false);
     }
@@ -738,7 +753,7 @@ export function PlanManagement() {
           variant="outline"
           size="sm"
           className="mt-2"
-          onClick={fetchPlans}
+          onClick={() => plansQuery.refetch()}
         >
           Retry
         </Button>
@@ -746,6 +761,11 @@ export function PlanManagement() {
     );
   }
 
+  // -- Unknown :id in the URL --
+  if (recordId && !recordPlan) {
+    return <NotFoundPage homeHref={routePath(ROUTE_KEY)} />;
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -760,20 +780,28 @@ export function PlanManagement() {
           {activeTab === "plans" && (
             <>
               {selectedIds.size > 0 && (
-                <Button
-                  variant="destructive"
-                  onClick={handleBulkDelete}
-                  disabled={isDeleting}
-                >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  {isDeleting ? "Deleting..." : `Delete (${selectedIds.size})`}
-                </Button>
+                <Can {...PERMISSION} action="delete">
+                  {(allowed) => (
+                    <Button
+                      variant="destructive"
+                      onClick={handleBulkDelete}
+                      disabled={isDeleting || !allowed}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      {isDeleting ? "Deleting..." : `Delete (${selectedIds.size})`}
+                    </Button>
+                  )}
+                </Can>
               )}
               {!isFormOpen && (
-                <Button onClick={openCreate}>
-                  <PlusIcon className="mr-2 h-4 w-4" />
-                  New Plan
-                </Button>
+                <Can {...PERMISSION} action="add">
+                  {(allowed) => (
+                    <Button onClick={openCreate} disabled={!allowed}>
+                      <PlusIcon className="mr-2 h-4 w-4" />
+                      New Plan
+                    </Button>
+                  )}
+                </Can>
               )}
             </>
           )}
@@ -821,7 +849,11 @@ export function PlanManagement() {
                   placeholder="e.g. 1"
                   value={formFromRooms}
                   onChange={(e) => setFormFromRooms(e.target.value)}
+                  aria-invalid={!!formFieldErrors.fromRooms}
                 />
+                {formFieldErrors.fromRooms && (
+                  <p className="text-xs text-destructive">{formFieldErrors.fromRooms}</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="to-rooms">To Rooms *</Label>
@@ -832,7 +864,11 @@ export function PlanManagement() {
                   placeholder="e.g. 50"
                   value={formToRooms}
                   onChange={(e) => setFormToRooms(e.target.value)}
+                  aria-invalid={!!formFieldErrors.toRooms}
                 />
+                {formFieldErrors.toRooms && (
+                  <p className="text-xs text-destructive">{formFieldErrors.toRooms}</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="rate-room">Rate / Room *</Label>
@@ -844,7 +880,11 @@ export function PlanManagement() {
                   placeholder="e.g. 59.99"
                   value={formRatePerRoom}
                   onChange={(e) => setFormRatePerRoom(e.target.value)}
+                  aria-invalid={!!formFieldErrors.ratePerRoom}
                 />
+                {formFieldErrors.ratePerRoom && (
+                  <p className="text-xs text-destructive">{formFieldErrors.ratePerRoom}</p>
+                )}
               </div>
             </div>
 
@@ -853,17 +893,21 @@ export function PlanManagement() {
             )}
 
             <div className="flex gap-2 pt-2">
-              <Button onClick={handleSave} disabled={isSaving}>
-                <Save className="mr-2 h-4 w-4" />
-                {isSaving
-                  ? "Saving..."
-                  : editingPlan
-                    ? "Update Plan"
-                    : "Create Plan"}
-              </Button>
+              <Can {...PERMISSION} action={editingPlan ? "change" : "add"}>
+                {(allowed) => (
+                  <Button onClick={handleSave} disabled={isSaving || !allowed}>
+                    <Save className="mr-2 h-4 w-4" />
+                    {isSaving
+                      ? "Saving..."
+                      : editingPlan
+                        ? "Update Plan"
+                        : "Create Plan"}
+                  </Button>
+                )}
+              </Can>
               <Button
                 variant="outline"
-                onClick={() => setIsFormOpen(false)}
+                onClick={closeForm}
                 disabled={isSaving}
               >
                 <X className="mr-2 h-4 w-4" />
@@ -1008,14 +1052,19 @@ export function PlanManagement() {
                   Download PNG
                 </Button>
 
-                <Button
-                  variant="secondary"
-                  onClick={sharePosterToWhatsApp}
-                  disabled={!generatedImageUrl || isSharingImage}
-                >
-                  <Send className="mr-2 h-4 w-4" />
-                  {isSharingImage ? "Sharing..." : "Share to WhatsApp"}
-                </Button>
+                {/* Sharing publishes plan pricing, so it needs change rights */}
+                <Can {...PERMISSION} action="change">
+                  {(allowed) => (
+                    <Button
+                      variant="secondary"
+                      onClick={sharePosterToWhatsApp}
+                      disabled={!generatedImageUrl || isSharingImage || !allowed}
+                    >
+                      <Send className="mr-2 h-4 w-4" />
+                      {isSharingImage ? "Sharing..." : "Share to WhatsApp"}
+                    </Button>
+                  )}
+                </Can>
               </div>
 
               {shareStatus && (
@@ -1070,10 +1119,14 @@ export function PlanManagement() {
             <p className="mb-4 mt-1 text-sm text-muted-foreground">
               Create your first subscription plan
             </p>
-            <Button onClick={openCreate}>
-              <PlusIcon className="mr-2 h-4 w-4" />
-              Create First Plan
-            </Button>
+            <Can {...PERMISSION} action="add">
+              {(allowed) => (
+                <Button onClick={openCreate} disabled={!allowed}>
+                  <PlusIcon className="mr-2 h-4 w-4" />
+                  Create First Plan
+                </Button>
+              )}
+            </Can>
           </CardContent>
         </Card>
       ) : (
@@ -1126,22 +1179,32 @@ export function PlanManagement() {
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-1">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="h-8 w-8 p-0"
-                        onClick={() => openEdit(plan)}
-                      >
-                        <Pencil className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                        onClick={() => handleDelete(plan)}
-                      >
-                        <Trash2 className="h-3.5 w-3.5" />
-                      </Button>
+                      <Can {...PERMISSION} action="change">
+                        {(allowed) => (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => openEdit(plan)}
+                            disabled={!allowed}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </Can>
+                      <Can {...PERMISSION} action="delete">
+                        {(allowed) => (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(plan)}
+                            disabled={!allowed}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </Can>
                     </div>
                   </TableCell>
                 </TableRow>
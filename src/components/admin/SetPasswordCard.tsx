@@ -0,0 +1,90 @@
+// ============================================================
+// Set Password Card
+// ============================================================
+// Shown on a user's record page in Team → Users (admins only),
+// for people who cannot use the emailed reset link. The new
+// password must meet the policy from Settings → General, like
+// every other new password; the backend checks it again.
+// ============================================================
+
+import { useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PasswordStrengthMeter } from "@/components/password-strength"
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy"
+import { authClient } from "@/lib/auth-client"
+import { isPasswordValid } from "@/lib/password-policy"
+import { KeyRound, Loader2 } from "lucide-react"
+
+export function SetPasswordCard({ userId }: { userId: string }) {
+  const policy = usePasswordPolicy()
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaved, setIsSaved] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsSaved(false)
+    if (!isPasswordValid(password, policy)) {
+      setError("The password does not meet the password policy")
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await authClient.admin.setUserPassword({ userId, newPassword: password })
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to set password")
+      }
+      setPassword("")
+      setIsSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to set password")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-4 w-4" />
+          Set password
+        </CardTitle>
+        <CardDescription>
+          Replaces the user's password. Tell them the new one in person; it is not emailed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="max-w-sm space-y-3" onSubmit={onSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="set-password">New password</Label>
+            <Input
+              id="set-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => {
+                setPassword(e.target.value)
+                setIsSaved(false)
+              }}
+              aria-invalid={!!error}
+            />
+            <PasswordStrengthMeter password={password} policy={policy} />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {isSaved && <p className="text-sm text-primary">Password updated</p>}
+          <Button type="submit" size="sm" disabled={isSubmitting || !password}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set password
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+// ============================================================
+// Suspend User Dialog
+// ============================================================
+// Opened from a row of Team → Users (admins only). Suspending
+// keeps the account and its history, unlike deleting:
+//   - A reason is required; the user sees it when signing in
+//   - Optional last day; without one it lasts until an admin
+//     reactivates the account
+//   - The user is signed out on every device right away
+// ============================================================
+
+import { useState, type FormEvent } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { UserData } from "@/lib/api"
+import { invalidateQueries, queryKeys, sessionsKey } from "@/lib/query-cache"
+import { suspendUser } from "@/lib/suspension"
+import { Ban, Loader2 } from "lucide-react"
+
+/** "YYYY-MM-DD" of a local date, as <input type="date"> uses */
+function toDateInput(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+type SuspendUserDialogProps = {
+  user: UserData
+  onClose: () => void
+}
+
+export function SuspendUserDialog({ user, onClose }: SuspendUserDialogProps) {
+  const [reason, setReason] = useState("")
+  const [lastDay, setLastDay] = useState("")
+  const [today] = useState(() => toDateInput(new Date()))
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!reason.trim()) {
+      setError("A reason is required")
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      // Suspended through the end of the chosen day (local time)
+      const until = lastDay ? new Date(`${lastDay}T23:59:59`) : null
+      await suspendUser(user.id, reason.trim(), until)
+      invalidateQueries(queryKeys.users)
+      invalidateQueries(sessionsKey(user.id))
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to suspend user")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open
+      onOpenChange={(open) => {
+        if (!open && !isSubmitting) onClose()
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-4 w-4" />
+            Suspend {user.name}
+          </DialogTitle>
+          <DialogDescription>
+            {user.email} is signed out everywhere and cannot sign in until the suspension ends.
+            Their account and history are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="suspend-user-form" className="space-y-4" onSubmit={onSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="suspend-reason">Reason *</Label>
+            <Textarea
+              id="suspend-reason"
+              placeholder="Shown to the user when they try to sign in"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              aria-invalid={!!error && !reason.trim()}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="suspend-until">Last day (optional)</Label>
+            <Input
+              id="suspend-until"
+              type="date"
+              min={today}
+              value={lastDay}
+              onChange={(e) => setLastDay(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              {lastDay
+                ? "They can sign in again the day after."
+                : "Leave empty to suspend until you reactivate the account."}
+            </p>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" form="suspend-user-form" variant="destructive" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Suspend
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,171 +4,226 @@
 // Accessible via Team → Users in the sidebar.
 // Features:
 //   - List all users with their roles and assigned groups
-//   - Create new user (email, password, name, assign to group)
+//   - Invite a user (name, email, role, group): the backend emails
+//     a one-time link and the invitee chooses their own password
+//     on the accept-invite screen
+//   - Pending invitations with resend / revoke and expiry dates
 //   - Edit user (change name, group, role)
 //   - Delete user with confirmation
+//   - Suspend a user (admins): reason and optional last day; they
+//     are signed out and see the reason when signing in. Reactivate
+//     lifts it early. Unlike delete, the account and history stay.
+//   - Status badge per user and a status filter
+//     (active / suspended / invited)
+//   - Verified / unverified email badge per user
+//   - Deep link: /dashboard/team/users/:id opens that user's edit form
+//   - Admins can set a user's password there (checked against the
+//     password policy) and see / revoke their signed-in sessions
+//   - Admins can "view as" a non-admin user (impersonation); each
+//     record page lists who viewed as that user and when
+//   - Users and groups come from the shared query cache, so
+//     revisiting the page shows cached rows while refreshing
+//   - Actions follow the Team → Users add/change/delete permissions
 //
-// Admin creates users here — they don't self-register.
+// Admins invite users here — they don't self-register.
 // Each user is assigned to a Group which controls their
 // sidebar permissions.
 // ============================================================
 
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { PlusIcon, Pencil, Trash2, X, Save, UserPlus, ShieldCheck, User } from "lucide-react"
+import { Can } from "@/components/can"
+import { InvitationsPanel } from "@/components/admin/InvitationsPanel"
+import { SetPasswordCard } from "@/components/admin/SetPasswordCard"
+import { SuspendUserDialog } from "@/components/admin/SuspendUserDialog"
+import { NotFoundPage } from "@/components/status-page"
+import { SessionsPanel } from "@/components/settings/SessionsPanel"
+import { useCan } from "@/hooks/useCan"
+import { usePermissions } from "@/hooks/usePermissions"
+import { useQuery } from "@/hooks/useQuery"
+import { useRecordCrumb } from "@/hooks/useRecordCrumb"
+import {
+  api,
+  ApiError,
+  getErrorMessage,
+  type FieldErrors,
+  type GroupData,
+  type UserData,
+} from "@/lib/api"
+import { authClient } from "@/lib/auth-client"
+import { startImpersonating } from "@/lib/impersonation"
+import { invalidateQueries, optimisticUpdate, queryKeys } from "@/lib/query-cache"
+import { navigate } from "@/lib/router"
+import { recordPath, routePath } from "@/lib/routes"
+import { reactivateUser } from "@/lib/suspension"
+import { PlusIcon, Pencil, Trash2, X, Save, UserPlus, ShieldCheck, User, MailCheck, MailWarning, Eye, History, Send, Ban, UserCheck } from "lucide-react"
 
-const API_BASE = import.meta.env.VITE_API_URL || ""
+// -- Main Component --
 
-// -- Types --
+const ROUTE_KEY = "team-users"
+const PERMISSION = { menu: "Team", sub: "Users" } as const
+const NO_USERS: UserData[] = []
+const NO_GROUPS: GroupData[] = []
 
-type GroupInfo = {
-  id: string
-  name: string
-}
+type StatusFilter = "all" | "active" | "suspended" | "invited"
 
-type UserData = {
-  id: string
-  name: string
-  email: string
-  role: string
-  groupId: string | null
-  group: GroupInfo | null
-  createdAt: string
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { dateStyle: "medium" })
 }
 
-// -- Main Component --
-
-export function UserManagement() {
-  const [users, setUsers] = useState<UserData[]>([])
-  const [groups, setGroups] = useState<GroupInfo[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+export function UserManagement({ recordId }: { recordId?: string }) {
+  // -- Users and groups (groups are shared with GroupManagement) --
+  const usersQuery = useQuery(queryKeys.users, api.users.list)
+  const groupsQuery = useQuery(queryKeys.groups, api.groups.list)
+  const users = usersQuery.data ?? NO_USERS
+  const groups = groupsQuery.data ?? NO_GROUPS
+  const isLoading = usersQuery.isLoading || groupsQuery.isLoading
+  // A failed background refresh keeps showing the cached rows
+  const loadError =
+    (usersQuery.data ? null : usersQuery.error) ?? (groupsQuery.data ? null : groupsQuery.error)
+  const error = loadError ? getErrorMessage(loadError) : null
+  // Pending invitations, for the "Invited" filter count (shared with InvitationsPanel)
+  const invitationsQuery = useQuery(queryKeys.invitations, api.invitations.list)
+  const invitationCount = invitationsQuery.data?.length ?? 0
+  const { data: currentSession } = authClient.useSession()
+  const currentUserId = currentSession?.user.id
+
+  // -- Status filter --
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all")
+  const suspendedCount = users.filter((u) => u.banned).length
+  const filteredUsers =
+    statusFilter === "active"
+      ? users.filter((u) => !u.banned)
+      : statusFilter === "suspended"
+        ? users.filter((u) => u.banned)
+        : users
+  const [suspendingUser, setSuspendingUser] = useState<UserData | null>(null)
 
   // Form state
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<UserData | null>(null)
   const [formName, setFormName] = useState("")
   const [formEmail, setFormEmail] = useState("")
-  const [formPassword, setFormPassword] = useState("")
   const [formRole, setFormRole] = useState<"admin" | "user">("user")
   const [formGroupId, setFormGroupId] = useState("")
   const [isSaving, setIsSaving] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
-
-  // -- Fetch users and groups --
-  const fetchData = useCallback(async () => {
-    setIsLoading(true)
-    try {
-      const [usersRes, groupsRes] = await Promise.all([
-        fetch(`${API_BASE}/api/users`, { credentials: "include" }),
-        fetch(`${API_BASE}/api/groups`, { credentials: "include" }),
-      ])
-
-      if (!usersRes.ok) throw new Error("Failed to fetch users")
-      if (!groupsRes.ok) throw new Error("Failed to fetch groups")
-
-      const usersJson = await usersRes.json()
-      const groupsJson = await groupsRes.json()
-
-      setUsers(usersJson.data)
-      setGroups(groupsJson.data.map((g: { id: string; name: string }) => ({ id: g.id, name: g.name })))
-      setError(null)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error")
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
-  useEffect(() => { fetchData() }, [fetchData])
+  const [formFieldErrors, setFormFieldErrors] = useState<FieldErrors>({})
+
+  // -- RBAC: action flags for Team → Users --
+  const { isAdmin } = usePermissions()
+  const canAdd = useCan(PERMISSION.menu, PERMISSION.sub, "add")
+  const canChange = useCan(PERMISSION.menu, PERMISSION.sub, "change")
+  const canDelete = useCan(PERMISSION.menu, PERMISSION.sub, "delete")
+  const canSave = editingUser ? canChange : canAdd
+
+  // -- Retry both lists after a failed load --
+  const refetchAll = () => {
+    usersQuery.refetch()
+    groupsQuery.refetch()
+  }
 
   // -- Open create form --
   const openCreate = () => {
     setEditingUser(null)
     setFormName("")
     setFormEmail("")
-    setFormPassword("")
     setFormRole("user")
     setFormGroupId("")
     setFormError(null)
+    setFormFieldErrors({})
     setIsFormOpen(true)
   }
 
-  // -- Open edit form --
-  const openEdit = (user: UserData) => {
+  // -- Fill the edit form for a user --
+  const fillEditForm = (user: UserData) => {
     setEditingUser(user)
     setFormName(user.name)
     setFormEmail(user.email)
-    setFormPassword("")  // Don't show existing password
     setFormRole(user.role as "admin" | "user")
     setFormGroupId(user.groupId ?? "")
     setFormError(null)
+    setFormFieldErrors({})
     setIsFormOpen(true)
   }
 
-  // -- Save (create or update) --
+  // -- Open edit form (via its deep-linkable record route) --
+  const openEdit = (user: UserData) => {
+    navigate(recordPath(ROUTE_KEY, user.id))
+  }
+
+  // -- Close form (leaves the record route when editing) --
+  const closeForm = () => {
+    setIsFormOpen(false)
+    if (recordId) navigate(routePath(ROUTE_KEY))
+  }
+
+  // -- Sync the edit form with the :id in the URL --
+  const recordUser = recordId ? users.find((u) => u.id === recordId) ?? null : null
+  useRecordCrumb(recordUser?.name)
+  const [routedUserId, setRoutedUserId] = useState<string | null>(null)
+  if (!isLoading && (recordUser?.id ?? null) !== routedUserId) {
+    setRoutedUserId(recordUser?.id ?? null)
+    if (recordUser) {
+      fillEditForm(recordUser)
+    } else if (editingUser) {
+      setIsFormOpen(false)
+    }
+  }
+
+  // -- Save (invite or update) --
   const handleSave = async () => {
+    if (!canSave) return
+
     // Validation
     if (!formName.trim()) { setFormError("Name is required"); return }
     if (!editingUser && !formEmail.trim()) { setFormError("Email is required"); return }
-    if (!editingUser && !formPassword) { setFormError("Password is required"); return }
-    if (!editingUser && formPassword.length < 6) { setFormError("Password must be at least 6 characters"); return }
 
     setIsSaving(true)
     setFormError(null)
+    setFormFieldErrors({})
 
     try {
       if (editingUser) {
         // Update user
-        const body: Record<string, unknown> = {
+        const input = {
           name: formName.trim(),
           role: formRole,
           groupId: formGroupId || null,
         }
-
-        const res = await fetch(`${API_BASE}/api/users/${editingUser.id}`, {
-          method: "PUT",
-          credentials: "include",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
-        })
-
-        if (!res.ok) {
-          const err = await res.json()
-          throw new Error(err.message || "Failed to update user")
-        }
+        await api.users.update(editingUser.id, input)
+
+        // Show the change right away; the refetch below confirms it
+        const group = groups.find((g) => g.id === input.groupId)
+        optimisticUpdate<UserData[]>(queryKeys.users, (prev) =>
+          prev.map((u) =>
+            u.id === editingUser.id
+              ? { ...u, ...input, group: group ? { id: group.id, name: group.name } : null }
+              : u
+          )
+        )
       } else {
-        // Create new user
-        const body = {
+        // Invite; the account is created when they accept
+        await api.invitations.create({
           name: formName.trim(),
           email: formEmail.trim(),
-          password: formPassword,
           role: formRole,
           groupId: formGroupId || undefined,
-        }
-
-        const res = await fetch(`${API_BASE}/api/users`, {
-          method: "POST",
-          credentials: "include",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
         })
-
-        if (!res.ok) {
-          const err = await res.json()
-          throw new Error(err.message || "Failed to create user")
-        }
+        invalidateQueries(queryKeys.invitations)
       }
 
-      setIsFormOpen(false)
-      fetchData()
+      closeForm()
+      invalidateQueries(queryKeys.users)
+      invalidateQueries(queryKeys.groups) // Member counts changed
     } catch (err) {
-      setFormError(err instanceof Error ? err.message : "Unknown error")
+      setFormError(getErrorMessage(err))
+      if (err instanceof ApiError) setFormFieldErrors(err.fieldErrors)
     } finally {
       setIsSaving(false)
     }
@@ -176,20 +231,51 @@ export function UserManagement() {
 
   // -- Delete user --
   const handleDelete = async (user: UserData) => {
+    if (!canDelete) return
     if (!confirm(`Delete user "${user.name}" (${user.email})? This cannot be undone.`)) return
 
+    // Remove the row immediately; put it back if the request fails
+    const rollback = optimisticUpdate<UserData[]>(queryKeys.users, (prev) =>
+      prev.filter((u) => u.id !== user.id)
+    )
+
     try {
-      const res = await fetch(`${API_BASE}/api/users/${user.id}`, {
-        method: "DELETE",
-        credentials: "include",
-      })
-      if (!res.ok) {
-        const err = await res.json()
-        throw new Error(err.message || "Failed to delete user")
-      }
-      fetchData()
+      await api.users.remove(user.id)
+      invalidateQueries(queryKeys.users)
+      invalidateQueries(queryKeys.groups) // Member counts changed
     } catch (err) {
-      alert(err instanceof Error ? err.message : "Failed to delete user")
+      rollback()
+      alert(getErrorMessage(err, "Failed to delete user"))
+    }
+  }
+
+  // -- Lift a suspension early (admins only) --
+  const handleReactivate = async (user: UserData) => {
+    if (!isAdmin) return
+    if (!confirm(`Reactivate "${user.name}"? They can sign in again right away.`)) return
+
+    const rollback = optimisticUpdate<UserData[]>(queryKeys.users, (prev) =>
+      prev.map((u) => (u.id === user.id ? { ...u, banned: false, banReason: null, banExpires: null } : u))
+    )
+
+    try {
+      await reactivateUser(user.id)
+      invalidateQueries(queryKeys.users)
+    } catch (err) {
+      rollback()
+      alert(getErrorMessage(err, "Failed to reactivate user"))
+    }
+  }
+
+  // -- View the dashboard as this user (admins only) --
+  const handleImpersonate = async (user: UserData) => {
+    if (!isAdmin || user.role === "admin") return
+    if (!confirm(`View the dashboard as "${user.name}"? You will see exactly what they see until you stop.`)) return
+
+    try {
+      await startImpersonating(user.id)
+    } catch (err) {
+      alert(getErrorMessage(err, "Failed to view as this user"))
     }
   }
 
@@ -211,13 +297,18 @@ export function UserManagement() {
       <div className="rounded-lg border border-destructive/50 p-4 text-destructive">
         <p className="font-medium">Error loading users</p>
         <p className="text-sm mt-1">{error}</p>
-        <Button variant="outline" size="sm" className="mt-2" onClick={fetchData}>
+        <Button variant="outline" size="sm" className="mt-2" onClick={refetchAll}>
           Retry
         </Button>
       </div>
     )
   }
 
+  // -- Unknown :id in the URL --
+  if (recordId && !recordUser) {
+    return <NotFoundPage homeHref={routePath(ROUTE_KEY)} />
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -225,14 +316,18 @@ export function UserManagement() {
         <div>
           <h2 className="text-2xl font-bold tracking-tight">Users</h2>
           <p className="text-muted-foreground text-sm">
-            Create and manage user accounts
+            Invite and manage user accounts
           </p>
         </div>
         {!isFormOpen && (
-          <Button onClick={openCreate}>
-            <PlusIcon className="h-4 w-4 mr-2" />
-            New User
-          </Button>
+          <Can {...PERMISSION} action="add">
+            {(allowed) => (
+              <Button onClick={openCreate} disabled={!allowed}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Invite User
+              </Button>
+            )}
+          </Can>
         )}
       </div>
 
@@ -241,12 +336,12 @@ export function UserManagement() {
         <Card className="border-primary/30">
           <CardHeader className="pb-3">
             <CardTitle className="text-lg">
-              {editingUser ? `Edit: ${editingUser.name}` : "Create New User"}
+              {editingUser ? `Edit: ${editingUser.name}` : "Invite User"}
             </CardTitle>
             <CardDescription>
               {editingUser
                 ? "Update user details and group assignment"
-                : "Create a new user account with login credentials"}
+                : "We email them a one-time link to choose their own password. The link works for 7 days."}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -259,7 +354,11 @@ export function UserManagement() {
                   placeholder="e.g. John Doe"
                   value={formName}
                   onChange={(e) => setFormName(e.target.value)}
+                  aria-invalid={!!formFieldErrors.name}
                 />
+                {formFieldErrors.name && (
+                  <p className="text-xs text-destructive">{formFieldErrors.name}</p>
+                )}
               </div>
 
               {/* Email (only on create) */}
@@ -272,21 +371,11 @@ export function UserManagement() {
                     placeholder="e.g. john@company.com"
                     value={formEmail}
                     onChange={(e) => setFormEmail(e.target.value)}
+                    aria-invalid={!!formFieldErrors.email}
                   />
-                </div>
-              )}
-
-              {/* Password (only on create) */}
-              {!editingUser && (
-                <div className="space-y-2">
-                  <Label htmlFor="user-password">Password *</Label>
-                  <Input
-                    id="user-password"
-                    type="password"
-                    placeholder="Min 6 characters"
-                    value={formPassword}
-                    onChange={(e) => setFormPassword(e.target.value)}
-                  />
+                  {formFieldErrors.email && (
+                    <p className="text-xs text-destructive">{formFieldErrors.email}</p>
+                  )}
                 </div>
               )}
 
@@ -335,13 +424,19 @@ export function UserManagement() {
 
             {/* Actions */}
             <div className="flex gap-2 pt-2">
-              <Button onClick={handleSave} disabled={isSaving}>
-                <Save className="h-4 w-4 mr-2" />
-                {isSaving ? "Saving..." : editingUser ? "Update User" : "Create User"}
-              </Button>
+              <Can {...PERMISSION} action={editingUser ? "change" : "add"}>
+                {(allowed) => (
+                  <Button onClick={handleSave} disabled={isSaving || !allowed}>
+                    {editingUser ? <Save className="h-4 w-4 mr-2" /> : <Send className="h-4 w-4 mr-2" />}
+                    {isSaving
+                      ? editingUser ? "Saving..." : "Sending..."
+                      : editingUser ? "Update User" : "Send Invite"}
+                  </Button>
+                )}
+              </Can>
               <Button
                 variant="outline"
-                onClick={() => setIsFormOpen(false)}
+                onClick={closeForm}
                 disabled={isSaving}
               >
                 <X className="h-4 w-4 mr-2" />
@@ -352,24 +447,60 @@ export function UserManagement() {
         </Card>
       )}
 
+      {/* Sessions of the user being edited (admins only) */}
+      {isFormOpen && editingUser && isAdmin && <SetPasswordCard userId={editingUser.id} />}
+      {isFormOpen && editingUser && isAdmin && <SessionsPanel userId={editingUser.id} />}
+      {isFormOpen && editingUser && isAdmin && <ImpersonationHistory userId={editingUser.id} />}
+
+      {/* Status filter */}
+      {!recordId && users.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="user-status-filter" className="text-sm text-muted-foreground">
+            Status
+          </Label>
+          <select
+            id="user-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="flex h-8 rounded-md border border-input bg-transparent px-2 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            <option value="all">All ({users.length + invitationCount})</option>
+            <option value="active">Active ({users.length - suspendedCount})</option>
+            <option value="suspended">Suspended ({suspendedCount})</option>
+            <option value="invited">Invited ({invitationCount})</option>
+          </select>
+        </div>
+      )}
+
       {/* Users List */}
-      {users.length === 0 && !isFormOpen ? (
+      {statusFilter === "invited" ? (
+        invitationCount === 0 && (
+          <p className="text-sm text-muted-foreground">No pending invitations.</p>
+        )
+      ) : users.length === 0 && !isFormOpen ? (
         <Card className="border-dashed">
           <CardContent className="flex flex-col items-center justify-center py-12 text-center">
             <UserPlus className="h-12 w-12 text-muted-foreground/50 mb-4" />
             <h3 className="font-semibold text-lg">No users yet</h3>
             <p className="text-muted-foreground text-sm mt-1 mb-4">
-              Create your first user to get started
+              Invite your first user to get started
             </p>
-            <Button onClick={openCreate}>
-              <PlusIcon className="h-4 w-4 mr-2" />
-              Create First User
-            </Button>
+            <Can {...PERMISSION} action="add">
+              {(allowed) => (
+                <Button onClick={openCreate} disabled={!allowed}>
+                  <PlusIcon className="h-4 w-4 mr-2" />
+                  Invite First User
+                </Button>
+              )}
+            </Can>
           </CardContent>
         </Card>
       ) : (
         <div className="space-y-2">
-          {users.map((user) => (
+          {filteredUsers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No {statusFilter} users.</p>
+          )}
+          {filteredUsers.map((user) => (
             <Card key={user.id} className="group/card hover:border-primary/30 transition-colors">
               <CardContent className="flex items-center justify-between py-3 px-4">
                 {/* User info */}
@@ -393,12 +524,41 @@ export function UserManagement() {
                         {user.role}
                       </Badge>
                     </div>
-                    <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                    <div className="flex items-center gap-1.5 min-w-0">
+                      <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                      {user.emailVerified ? (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0 gap-1 shrink-0">
+                          <MailCheck className="h-3 w-3 text-primary" />
+                          Verified
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0 gap-1 shrink-0 text-muted-foreground">
+                          <MailWarning className="h-3 w-3" />
+                          Unverified
+                        </Badge>
+                      )}
+                    </div>
+                    {user.banned && (
+                      <p className="text-xs text-destructive truncate">
+                        Suspended {user.banExpires ? `until ${formatDate(user.banExpires)}` : "until reactivated"}
+                        {user.banReason && `: ${user.banReason}`}
+                      </p>
+                    )}
                   </div>
                 </div>
 
-                {/* Group & actions */}
+                {/* Status, group & actions */}
                 <div className="flex items-center gap-3">
+                  {user.banned ? (
+                    <Badge variant="destructive" className="text-xs">
+                      <Ban className="h-3 w-3" />
+                      Suspended
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">
+                      Active
+                    </Badge>
+                  )}
                   {user.group ? (
                     <Badge variant="outline" className="text-xs">
                       {user.group.name}
@@ -408,22 +568,67 @@ export function UserManagement() {
                   )}
 
                   <div className="flex gap-1 opacity-0 group-hover/card:opacity-100 transition-opacity">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                      onClick={() => openEdit(user)}
-                    >
-                      <Pencil className="h-3.5 w-3.5" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
-                      onClick={() => handleDelete(user)}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </Button>
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title={user.role === "admin" ? "Admins cannot be viewed as" : "View as this user"}
+                        onClick={() => handleImpersonate(user)}
+                        disabled={user.role === "admin"}
+                      >
+                        <Eye className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                    {isAdmin &&
+                      (user.banned ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="Reactivate"
+                          onClick={() => handleReactivate(user)}
+                        >
+                          <UserCheck className="h-3.5 w-3.5" />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          title={user.id === currentUserId ? "You cannot suspend yourself" : "Suspend"}
+                          onClick={() => setSuspendingUser(user)}
+                          disabled={user.id === currentUserId}
+                        >
+                          <Ban className="h-3.5 w-3.5" />
+                        </Button>
+                      ))}
+                    <Can {...PERMISSION} action="change">
+                      {(allowed) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEdit(user)}
+                          disabled={!allowed}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </Can>
+                    <Can {...PERMISSION} action="delete">
+                      {(allowed) => (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(user)}
+                          disabled={!allowed}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </Can>
                   </div>
                 </div>
               </CardContent>
@@ -431,6 +636,64 @@ export function UserManagement() {
           ))}
         </div>
       )}
+
+      {/* Invitations not accepted yet */}
+      {!recordId && (statusFilter === "all" || statusFilter === "invited") && <InvitationsPanel />}
+
+      {suspendingUser && (
+        <SuspendUserDialog
+          key={suspendingUser.id}
+          user={suspendingUser}
+          onClose={() => setSuspendingUser(null)}
+        />
+      )}
     </div>
   )
 }
+
+// -- Impersonation history of one user (from the audit log) --
+
+function ImpersonationHistory({ userId }: { userId: string }) {
+  const fetchHistory = useCallback(
+    (signal: AbortSignal) => api.audit.list({ targetId: userId }, signal),
+    [userId]
+  )
+  const historyQuery = useQuery([...queryKeys.auditLog, userId], fetchHistory)
+  const entries = historyQuery.data ?? []
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-4 w-4" />
+          Impersonation history
+        </CardTitle>
+        <CardDescription>Admins who viewed the dashboard as this user</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {historyQuery.isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : !historyQuery.data ? (
+          <p className="text-sm text-destructive">{getErrorMessage(historyQuery.error)}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nobody has viewed as this user yet.</p>
+        ) : (
+          <ul className="space-y-1.5 text-sm">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between gap-3">
+                <span className="truncate">
+                  <span className="font-medium">{entry.actor.name}</span>{" "}
+                  {entry.action === "impersonation.start" ? "started viewing as" : "stopped viewing as"}{" "}
+                  {entry.target.name}
+                </span>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {new Date(entry.createdAt).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
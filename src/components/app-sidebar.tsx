@@ -5,6 +5,8 @@
 // - Reads menu items from the master menu config
 // - Filters based on permissions from PermissionContext
 // - Admin sees ALL menus; regular users see only permitted ones
+// - Highlights the entry of the current route (or of activePath,
+//   in the group preview of Team → Groups)
 // ============================================================
 
 import * as React from "react"
@@ -25,6 +27,8 @@ import { LayoutBottomIcon, AudioWave01Icon, CommandIcon } from "@hugeicons/core-
 // -- RBAC imports --
 import { usePermissions } from "@/hooks/usePermissions"
 import { ALL_MENU_ITEMS } from "@/lib/menu-config"
+import { useLocation } from "@/lib/router"
+import { matchDashboardRoute } from "@/lib/routes"
 
 // Team switcher data (unchanged)
 const data = {
@@ -61,16 +65,20 @@ type AppSidebarProps = React.ComponentProps<typeof Sidebar> & {
   }
   onSignOut?: () => void
   isSigningOut?: boolean
+  /** Path to highlight instead of the current location */
+  activePath?: string
 }
 
-export function AppSidebar({ user, onSignOut, isSigningOut, ...props }: AppSidebarProps) {
+export function AppSidebar({ user, onSignOut, isSigningOut, activePath, ...props }: AppSidebarProps) {
   // -- RBAC: get permissions to filter menu items --
-  const { isAdmin, hasMenuAccess, isLoading } = usePermissions()
+  const { data: permissionsData, isAdmin, hasMenuAccess, isLoading } = usePermissions()
+  const { pathname } = useLocation()
+  const activeRoute = matchDashboardRoute(activePath ?? pathname)?.route ?? null
 
   // Filter the master menu list based on user's permissions
   // Admin sees everything; regular users see only accessible menus
   const filteredMenuItems = React.useMemo(() => {
-    if (isLoading) return [] // Don't render anything while loading
+    if (isLoading && !permissionsData) return [] // Don't render anything while loading
 
     if (isAdmin) {
       // Admin gets all menus
@@ -78,31 +86,35 @@ export function AppSidebar({ user, onSignOut, isSigningOut, ...props }: AppSideb
         title: item.title,
         url: "#",
         icon: item.icon,
-        isActive: item.title === "Dashboard", // Dashboard open by default
+        isActive: item.title === (activeRoute?.mainMenu ?? "Dashboard"), // Open the current menu
         items: item.items.map((sub) => ({
           title: sub.title,
-          url: `#${sub.url}`,
+          url: sub.path,
+          isActive: sub.url === activeRoute?.key,
         })),
       }))
     }
 
-    // Regular user: filter by permissions
+    // Regular user: filter by permissions.
+    // RouteGuard uses the same hasMenuAccess() check, so every
+    // visible link opens and every hidden route shows a 403.
     return ALL_MENU_ITEMS
       .filter((item) => hasMenuAccess(item.title))  // only show accessible main menus
       .map((item) => ({
         title: item.title,
         url: "#",
         icon: item.icon,
-        isActive: item.title === "Dashboard",
+        isActive: item.title === (activeRoute?.mainMenu ?? "Dashboard"),
         items: item.items
           .filter((sub) => hasMenuAccess(item.title, sub.title))  // filter sub-items too
           .map((sub) => ({
             title: sub.title,
-            url: `#${sub.url}`,
+            url: sub.path,
+            isActive: sub.url === activeRoute?.key,
           })),
       }))
       .filter((item) => item.items.length > 0)  // remove empty main menus
-  }, [isAdmin, hasMenuAccess, isLoading])
+  }, [permissionsData, isAdmin, hasMenuAccess, isLoading, activeRoute])
 
   return (
     <Sidebar collapsible="icon" {...props}>
@@ -0,0 +1,162 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthPage } from "@/components/auth-page";
+import { authClient } from "@/lib/auth-client";
+import { enableTwoFactor } from "@/test/mock-api";
+
+const onAuthenticated = vi.fn();
+
+async function renderAuthPage(props: Parameters<typeof AuthPage>[0] = {}) {
+  const user = userEvent.setup();
+  render(<AuthPage onAuthenticated={onAuthenticated} {...props} />);
+  return user;
+}
+
+/** From the language step to the sign-in form */
+async function openSignIn(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(await screen.findByRole("button", { name: "Continue" }));
+  await screen.findByRole("heading", { name: "Sign In or Join Now!" });
+}
+
+async function submitSignIn(user: ReturnType<typeof userEvent.setup>, email: string, password: string) {
+  await user.type(screen.getByPlaceholderText("your.email@example.com"), email);
+  await user.type(screen.getByPlaceholderText("Password"), password);
+  await user.click(screen.getByRole("button", { name: "Continue With Email" }));
+}
+
+describe("AuthPage steps", () => {
+  beforeEach(async () => {
+    onAuthenticated.mockReset();
+    // Drop the session better-auth keeps in memory from the previous test. Its own
+    // refetch after sign-out fires on a timer and would swap the language step out
+    // from under the first click, so refetch here instead and wait for it
+    await authClient.signOut({ fetchOptions: { disableSignal: true } });
+    await authClient.$store.atoms.session.get().refetch();
+  });
+
+  it("starts with the language step and goes back to it from the form", async () => {
+    const user = await renderAuthPage();
+
+    expect(await screen.findByRole("heading", { name: "Choose Your Language" })).toBeTruthy();
+    await openSignIn(user);
+
+    await user.click(screen.getByRole("button", { name: "Home" }));
+    expect(await screen.findByRole("heading", { name: "Choose Your Language" })).toBeTruthy();
+  });
+
+  it("stays on the form with the backend's error for a wrong password", async () => {
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await submitSignIn(user, "manager@bookito.test", "wrong-password");
+
+    expect(await screen.findByText("Invalid email or password")).toBeTruthy();
+    expect(screen.getByRole("heading", { name: "Sign In or Join Now!" })).toBeTruthy();
+    expect(onAuthenticated).not.toHaveBeenCalled();
+  });
+
+  it("signs in with email and password", async () => {
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await submitSignIn(user, "manager@bookito.test", "manager123");
+
+    await waitFor(() => expect(onAuthenticated).toHaveBeenCalledTimes(1));
+  });
+
+  it("asks for the second factor before signing in", async () => {
+    enableTwoFactor("viewer@bookito.test", "abcde-12345");
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await submitSignIn(user, "viewer@bookito.test", "viewer123");
+    expect(await screen.findByRole("heading", { name: "Two-factor authentication" })).toBeTruthy();
+    expect(onAuthenticated).not.toHaveBeenCalled();
+
+    await user.type(screen.getByPlaceholderText("6-digit code"), "000000");
+    await user.click(screen.getByRole("button", { name: "Verify" }));
+    expect(await screen.findByText("Invalid code")).toBeTruthy();
+    expect(onAuthenticated).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Use a backup code instead" }));
+    await user.type(screen.getByPlaceholderText("Backup code (xxxxx-xxxxx)"), "abcde-12345");
+    await user.click(screen.getByRole("button", { name: "Verify" }));
+
+    await waitFor(() => expect(onAuthenticated).toHaveBeenCalledTimes(1));
+  });
+
+  it("goes back to the form from the second-factor step", async () => {
+    enableTwoFactor("viewer@bookito.test", "fghij-67890");
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await submitSignIn(user, "viewer@bookito.test", "viewer123");
+    await screen.findByRole("heading", { name: "Two-factor authentication" });
+    await user.click(screen.getByRole("button", { name: "Back to sign in" }));
+
+    expect(await screen.findByRole("heading", { name: "Sign In or Join Now!" })).toBeTruthy();
+    // The password is not kept around
+    expect((screen.getByPlaceholderText("Password") as HTMLInputElement).value).toBe("");
+  });
+
+  it("follows the app to the verify step for an unverified account", async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<AuthPage onAuthenticated={onAuthenticated} />);
+    await openSignIn(user);
+
+    await submitSignIn(user, "new@bookito.test", "newuser123");
+    await waitFor(() => expect(onAuthenticated).toHaveBeenCalledTimes(1));
+
+    // App routes unverified sessions to /verify-email
+    rerender(<AuthPage onAuthenticated={onAuthenticated} initialStep="verify" />);
+    expect(await screen.findByRole("heading", { name: "Check your inbox" })).toBeTruthy();
+    expect(screen.getByText(/new@bookito\.test/)).toBeTruthy();
+  });
+
+  it("explains a suspension instead of signing in", async () => {
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await submitSignIn(user, "sunil@bookito.test", "sunil123");
+
+    expect(await screen.findByText("Your account is suspended")).toBeTruthy();
+    expect(screen.getByText("Reason: Shared his login with the night shift")).toBeTruthy();
+    expect(onAuthenticated).not.toHaveBeenCalled();
+  });
+
+  it("checks the name before registering", async () => {
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await user.click(screen.getByRole("button", { name: "Register" }));
+    await user.type(screen.getByPlaceholderText("Full name"), "A");
+    await user.type(screen.getByPlaceholderText("your.email@example.com"), "someone@bookito.test");
+    await user.type(screen.getByPlaceholderText("Password"), "A-long-passphrase-42");
+    await user.click(screen.getByRole("button", { name: "Create Account" }));
+
+    expect(await screen.findByText("Name must be at least 2 characters")).toBeTruthy();
+  });
+
+  it("requests a reset link from the forgot-password step", async () => {
+    const user = await renderAuthPage();
+    await openSignIn(user);
+
+    await user.click(screen.getByRole("button", { name: "Forgot password?" }));
+    expect(await screen.findByRole("heading", { name: "Reset your password" })).toBeTruthy();
+    await user.type(screen.getByPlaceholderText("your.email@example.com"), "manager@bookito.test");
+    await user.click(screen.getByRole("button", { name: "Send reset link" }));
+
+    expect(await screen.findByRole("heading", { name: "Check your email" })).toBeTruthy();
+    await user.click(screen.getByRole("button", { name: "Back to sign in" }));
+    expect(await screen.findByRole("heading", { name: "Sign In or Join Now!" })).toBeTruthy();
+  });
+
+  it("opens a reset link without a token on its error", async () => {
+    await renderAuthPage({ initialStep: "reset", resetToken: null });
+
+    expect(
+      await screen.findByText("This reset link is invalid or has expired. Request a new one to continue.")
+    ).toBeTruthy();
+  });
+});
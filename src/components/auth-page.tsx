@@ -2,20 +2,55 @@
 
 import { Logo } from "@/components/logo";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   InputGroup,
   InputGroupAddon,
   InputGroupInput,
 } from "@/components/ui/input-group";
-import { authClient } from "@/lib/auth-client";
-import { AtSignIcon, ChevronLeftIcon, Loader2Icon, LockIcon, UserIcon, GlobeIcon, CheckIcon } from "lucide-react";
+import { api, getErrorMessage, isAbortError, type InvitationPreview, type SsoProvider } from "@/lib/api";
+import { authClient, needsSecondFactor } from "@/lib/auth-client";
+import { navigate } from "@/lib/router";
+import { getReturnTo, withReturnTo } from "@/lib/return-to";
+import { getSuspensionNotice, type SuspensionNotice } from "@/lib/suspension";
+import { AUTH_PATH, RESET_PASSWORD_PATH, VERIFY_EMAIL_PATH } from "@/lib/routes";
+import { startSsoSignIn, type SsoErrorReason } from "@/lib/sso";
+import { queryKeys } from "@/lib/query-cache";
+import { AtSignIcon, BanIcon, ChevronLeftIcon, Loader2Icon, LockIcon, UserIcon, GlobeIcon, CheckIcon, KeyRoundIcon, MailCheckIcon, MailIcon, MailXIcon, ShieldCheckIcon } from "lucide-react";
 import { useEffect, useState, type FormEvent } from "react";
-import type React from "react";
 import { FloatingPaths } from "@/components/floating-paths";
+import { GoogleIcon } from "@/components/google-icon";
+import { PasswordStrengthMeter } from "@/components/password-strength";
+import { usePasswordPolicy } from "@/hooks/usePasswordPolicy";
+import { useQuery } from "@/hooks/useQuery";
+import { isPasswordValid } from "@/lib/password-policy";
 import { useTranslation } from "react-i18next";
 
-type AuthStep = "language" | "auth";
+type AuthStep = "language" | "auth" | "forgot" | "reset" | "verify" | "two-factor" | "accept-invite";
 type AuthMode = "login" | "register";
+type VerifyStatus = "idle" | "verifying" | "verified" | "failed";
+type InviteStatus = "checking" | "ready" | "invalid";
+
+// Seconds before another verification email can be requested
+const RESEND_COOLDOWN = 60;
+
+// Verification tokens are single-use; share one request per token so a
+// re-mount (StrictMode, route change) does not report a used token as invalid
+const verificationRequests = new Map<string, Promise<string | null>>();
+
+function consumeVerificationToken(token: string): Promise<string | null> {
+  let request = verificationRequests.get(token);
+  if (!request) {
+    request = authClient.verifyEmail({ query: { token } }).then(
+      (result) => (result.error ? (result.error.message ?? "") : null),
+      () => ""
+    );
+    verificationRequests.set(token, request);
+  }
+  return request;
+}
+
+const NO_SSO_PROVIDERS: SsoProvider[] = [];
 
 const LANGUAGES = [
   { code: "en", label: "English", nativeLabel: "English", flag: "🇺🇸" },
@@ -24,21 +59,104 @@ const LANGUAGES = [
 
 type AuthPageProps = {
   onAuthenticated?: () => void;
+  /** "reset" / "verify" / "accept-invite" when opened on those routes (App keeps one instance across routes) */
+  initialStep?: AuthStep;
+  /** Token from the reset link (null when missing or rejected) */
+  resetToken?: string | null;
+  /** Token from an email verification link, consumed on arrival */
+  verifyToken?: string | null;
+  /** Error code when the backend rejected the verification link */
+  verifyError?: string | null;
+  /** Token from an invitation link (accept-invite) */
+  inviteToken?: string | null;
+  /** Why an SSO sign-in failed, when App shows the form on its landing page */
+  ssoError?: SsoErrorReason | null;
 };
 
-export function AuthPage({ onAuthenticated }: AuthPageProps) {
+export function AuthPage({
+  onAuthenticated,
+  initialStep,
+  resetToken = null,
+  verifyToken = null,
+  verifyError = null,
+  inviteToken = null,
+  ssoError = null,
+}: AuthPageProps) {
   const { t, i18n } = useTranslation();
-  const [step, setStep] = useState<AuthStep>("language");
+  const [step, setStep] = useState<AuthStep>(initialStep ?? "language");
   const [selectedLanguage, setSelectedLanguage] = useState(i18n.language.startsWith("hi") ? "hi" : "en");
   const [mode, setMode] = useState<AuthMode>("login");
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() => (ssoError ? t(`auth.sso_error_${ssoError}`) : null));
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Single sign-on providers configured on the backend
+  const { data: ssoProviders = NO_SSO_PROVIDERS } = useQuery(queryKeys.ssoProviders, api.settings.ssoProviders);
+  const [ssoStartingId, setSsoStartingId] = useState<string | null>(null);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  // Sign-in rejected because an admin suspended the account
+  const [suspension, setSuspension] = useState<SuspensionNotice | null>(null);
+  // Forgot / reset password
+  const [resetLinkSentTo, setResetLinkSentTo] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isPasswordReset, setIsPasswordReset] = useState(false);
+  // Email verification
+  const [verifyStatus, setVerifyStatus] = useState<VerifyStatus>(verifyToken ? "verifying" : "idle");
+  const [verifyMessage, setVerifyMessage] = useState<string | null>(null);
+  const [resendCooldown, setResendCooldown] = useState(0);
+  // Accept invitation
+  const [invitePreview, setInvitePreview] = useState<InvitationPreview | null>(null);
+  const [inviteStatus, setInviteStatus] = useState<InviteStatus>("checking");
+  const inviteState: InviteStatus = inviteToken ? inviteStatus : "invalid";
+  // Two-factor sign-in
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
   const { data: session, isPending: isCheckingSession } = authClient.useSession();
   const user = session?.user ?? null;
+  // Rules for new passwords (sign-up, reset, accept-invite)
+  const passwordPolicy = usePasswordPolicy();
+
+  // Follow route changes (e.g. "/" -> /verify-email after sign-up)
+  const [routeStep, setRouteStep] = useState(initialStep);
+  if (initialStep !== routeStep) {
+    setRouteStep(initialStep);
+    if (initialStep) setStep(initialStep);
+  }
+
+  // Consume the token of a verification link
+  useEffect(() => {
+    if (!verifyToken) return;
+    consumeVerificationToken(verifyToken).then((errorMessage) => {
+      setVerifyStatus(errorMessage === null ? "verified" : "failed");
+      setVerifyMessage(errorMessage || null);
+    });
+  }, [verifyToken]);
+
+  // Look up who the invitation link is for
+  useEffect(() => {
+    if (!inviteToken) return;
+    const controller = new AbortController();
+    api.invitations.preview(inviteToken, controller.signal).then(
+      (preview) => {
+        setInvitePreview(preview);
+        setInviteStatus("ready");
+      },
+      (err) => {
+        if (!isAbortError(err)) setInviteStatus("invalid");
+      }
+    );
+    return () => controller.abort();
+  }, [inviteToken]);
+
+  // Count down the resend cooldown
+  useEffect(() => {
+    if (resendCooldown <= 0) return;
+    const timer = setTimeout(() => setResendCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCooldown]);
 
   // Auto-advance to auth step when user is already logged in
   useEffect(() => {
@@ -56,14 +174,33 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
     setStep("auth");
   };
 
+  // Leaves for the provider; only comes back here when it could not start
+  const onSsoSignIn = async (providerId: string) => {
+    setError(null);
+    setSuspension(null);
+    setSsoStartingId(providerId);
+
+    try {
+      await startSsoSignIn(providerId, getReturnTo(window.location.search));
+    } catch (err) {
+      setError(getErrorMessage(err, t("auth.sso_error_failed")));
+      setSsoStartingId(null);
+    }
+  };
+
   const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
+    setSuspension(null);
 
     if (mode === "register" && name.trim().length < 2) {
       setError(t("auth.name_min_error"));
       return;
     }
+    if (mode === "register" && !isPasswordValid(password, passwordPolicy)) {
+      setError(t("password.invalid"));
+      return;
+    }
 
     setIsSubmitting(true);
 
@@ -83,11 +220,30 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
             });
 
       if (authResult.error) {
+        // Accounts that must verify first get no session; send them to the inbox step
+        if (authResult.error.code === "EMAIL_NOT_VERIFIED") {
+          setPassword("");
+          setStep("verify");
+          navigate(withReturnTo(VERIFY_EMAIL_PATH, getReturnTo(window.location.search)));
+          return;
+        }
+        const notice = getSuspensionNotice(authResult.error);
+        if (notice) {
+          setPassword("");
+          setSuspension(notice);
+          return;
+        }
         setError(authResult.error.message ?? t("auth.auth_failed"));
         return;
       }
 
       setPassword("");
+      if (needsSecondFactor(authResult.data)) {
+        setTwoFactorCode("");
+        setUseBackupCode(false);
+        setStep("two-factor");
+        return;
+      }
       if (mode === "register") {
         setName("");
       }
@@ -99,6 +255,176 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
     }
   };
 
+  const onTwoFactorSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const code = twoFactorCode.trim();
+      const result = useBackupCode
+        ? await authClient.twoFactor.verifyBackupCode({ code, trustDevice })
+        : await authClient.twoFactor.verifyTotp({ code, trustDevice });
+      if (result.error) {
+        setError(result.error.message ?? t("auth.two_factor_invalid"));
+        return;
+      }
+
+      setTwoFactorCode("");
+      onAuthenticated?.();
+    } catch {
+      setError(t("auth.server_error"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleBackupCode = () => {
+    setError(null);
+    setTwoFactorCode("");
+    setUseBackupCode((value) => !value);
+  };
+
+  const openForgotPassword = () => {
+    setError(null);
+    setResetLinkSentTo(null);
+    setStep("forgot");
+  };
+
+  const backToSignIn = () => {
+    setError(null);
+    setMode("login");
+    setStep("auth");
+    // Leave /reset-password so the used token is not kept in the URL
+    navigate(AUTH_PATH, { replace: true });
+  };
+
+  const onForgotSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await authClient.requestPasswordReset({
+        email: email.trim(),
+        redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
+      });
+      if (result.error) {
+        setError(result.error.message ?? t("auth.reset_request_failed"));
+        return;
+      }
+      // Same message whether or not the account exists
+      setResetLinkSentTo(email.trim());
+    } catch {
+      setError(t("auth.server_error"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onResetSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (!isPasswordValid(newPassword, passwordPolicy)) {
+      setError(t("password.invalid"));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t("auth.password_mismatch"));
+      return;
+    }
+    if (!resetToken) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await authClient.resetPassword({ newPassword, token: resetToken });
+      if (result.error) {
+        setError(result.error.message ?? t("auth.reset_failed"));
+        return;
+      }
+      setNewPassword("");
+      setConfirmPassword("");
+      setIsPasswordReset(true);
+    } catch {
+      setError(t("auth.server_error"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onAcceptInviteSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    if (!isPasswordValid(newPassword, passwordPolicy)) {
+      setError(t("password.invalid"));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t("auth.password_mismatch"));
+      return;
+    }
+    if (!inviteToken || !invitePreview) return;
+
+    setIsSubmitting(true);
+    try {
+      await api.invitations.accept({ token: inviteToken, password: newPassword });
+    } catch (err) {
+      setError(getErrorMessage(err, t("auth.invite_failed")));
+      setIsSubmitting(false);
+      return;
+    }
+
+    // The account exists now: sign straight in with the chosen password
+    try {
+      const result = await authClient.signIn.email({ email: invitePreview.email, password: newPassword });
+      if (!result.error) {
+        onAuthenticated?.();
+        return;
+      }
+    } catch {
+      // Fall through to the sign-in form
+    } finally {
+      setNewPassword("");
+      setConfirmPassword("");
+      setIsSubmitting(false);
+    }
+    setEmail(invitePreview.email);
+    backToSignIn();
+  };
+
+  const onResendVerification = async () => {
+    const address = user?.email ?? email.trim();
+    if (!address || resendCooldown > 0) return;
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const returnTo = getReturnTo(window.location.search);
+      const result = await authClient.sendVerificationEmail({
+        email: address,
+        callbackURL: `${window.location.origin}${withReturnTo(VERIFY_EMAIL_PATH, returnTo)}`,
+      });
+      if (result.error) {
+        setError(result.error.message ?? t("auth.verification_send_failed"));
+        return;
+      }
+      setVerifyStatus("idle");
+      setVerifyMessage(t("auth.verification_sent"));
+      setResendCooldown(RESEND_COOLDOWN);
+    } catch {
+      setError(t("auth.server_error"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onUseDifferentAccount = async () => {
+    if (user) await onLogout();
+    backToSignIn();
+  };
+
   const onLogout = async () => {
     setError(null);
     setIsSigningOut(true);
@@ -241,18 +567,37 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
                     </Button>
                   </div>
 
-                  <div className="space-y-2">
-                    <Button className="w-full" size="lg" type="button" disabled>
-                      <GoogleIcon />
-                      {t("auth.google_soon")}
-                    </Button>
-                  </div>
+                  {ssoProviders.length > 0 && (
+                    <>
+                      <div className="space-y-2">
+                        {ssoProviders.map((provider) => (
+                          <Button
+                            key={provider.id}
+                            className="w-full"
+                            size="lg"
+                            type="button"
+                            disabled={ssoStartingId !== null || isSubmitting}
+                            onClick={() => onSsoSignIn(provider.id)}
+                          >
+                            {ssoStartingId === provider.id ? (
+                              <Loader2Icon className="animate-spin" />
+                            ) : provider.type === "google" ? (
+                              <GoogleIcon />
+                            ) : (
+                              <KeyRoundIcon />
+                            )}
+                            {t("auth.continue_with", { provider: provider.name })}
+                          </Button>
+                        ))}
+                      </div>
 
-                  <div className="flex w-full items-center justify-center">
-                    <div className="h-px w-full bg-border" />
-                    <span className="px-2 text-muted-foreground text-xs">{t("auth.or")}</span>
-                    <div className="h-px w-full bg-border" />
-                  </div>
+                      <div className="flex w-full items-center justify-center">
+                        <div className="h-px w-full bg-border" />
+                        <span className="px-2 text-muted-foreground text-xs">{t("auth.or")}</span>
+                        <div className="h-px w-full bg-border" />
+                      </div>
+                    </>
+                  )}
 
                   <form className="space-y-2" onSubmit={onSubmit}>
                     <p className="text-start text-muted-foreground text-xs">
@@ -297,7 +642,43 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
                         <LockIcon />
                       </InputGroupAddon>
                     </InputGroup>
+                    {mode === "register" && (
+                      <PasswordStrengthMeter password={password} policy={passwordPolicy} />
+                    )}
+
+                    {mode === "login" && (
+                      <div className="flex justify-end">
+                        <button
+                          type="button"
+                          className="text-muted-foreground text-xs underline-offset-4 hover:text-primary hover:underline"
+                          onClick={openForgotPassword}
+                        >
+                          {t("auth.forgot_password")}
+                        </button>
+                      </div>
+                    )}
 
+                    {suspension && (
+                      <div className="flex gap-3 rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+                        <BanIcon className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                        <div className="space-y-1">
+                          <p className="font-medium text-destructive">{t("auth.suspended_title")}</p>
+                          {suspension.reason && (
+                            <p>{t("auth.suspended_reason", { reason: suspension.reason })}</p>
+                          )}
+                          <p className="text-muted-foreground">
+                            {suspension.until
+                              ? t("auth.suspended_until", {
+                                  date: new Date(suspension.until).toLocaleString(i18n.language, {
+                                    dateStyle: "medium",
+                                    timeStyle: "short",
+                                  }),
+                                })
+                              : t("auth.suspended_indefinite")}
+                          </p>
+                        </div>
+                      </div>
+                    )}
                     {error && <p className="text-destructive text-sm">{error}</p>}
 
                     <Button className="w-full" type="submit" disabled={isSubmitting}>
@@ -367,6 +748,392 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
           </>
         )}
 
+        {/* Forgot Password Step */}
+        {step === "forgot" && (
+          <>
+            <Button
+              className="absolute top-7 start-5"
+              variant="ghost"
+              type="button"
+              onClick={backToSignIn}
+            >
+              <ChevronLeftIcon />
+              {t("auth.back_to_sign_in")}
+            </Button>
+            <div className="mx-auto space-y-4 sm:w-sm">
+              <Logo className="h-5 lg:hidden" />
+              <div className="flex flex-col space-y-1">
+                <h1 className="font-bold text-2xl tracking-wide">
+                  {resetLinkSentTo ? t("auth.reset_link_sent_title") : t("auth.forgot_title")}
+                </h1>
+                <p className="text-base text-muted-foreground">
+                  {resetLinkSentTo
+                    ? t("auth.reset_link_sent", { email: resetLinkSentTo })
+                    : t("auth.forgot_desc")}
+                </p>
+              </div>
+
+              {resetLinkSentTo ? (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-3 rounded-lg border bg-card p-4 text-card-foreground text-sm">
+                    <MailCheckIcon className="h-5 w-5 shrink-0 text-primary" />
+                    {t("auth.reset_link_expiry")}
+                  </div>
+                  <Button className="w-full" type="button" variant="outline" onClick={openForgotPassword}>
+                    {t("auth.resend_reset_link")}
+                  </Button>
+                </div>
+              ) : (
+                <form className="space-y-2" onSubmit={onForgotSubmit}>
+                  <InputGroup>
+                    <InputGroupInput
+                      placeholder={t("auth.email_placeholder")}
+                      type="email"
+                      required
+                      value={email}
+                      onChange={(event) => setEmail(event.target.value)}
+                    />
+                    <InputGroupAddon>
+                      <AtSignIcon />
+                    </InputGroupAddon>
+                  </InputGroup>
+
+                  {error && <p className="text-destructive text-sm">{error}</p>}
+
+                  <Button className="w-full" type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? (
+                      <>
+                        <Loader2Icon className="animate-spin" />
+                        {t("auth.processing")}
+                      </>
+                    ) : (
+                      t("auth.send_reset_link")
+                    )}
+                  </Button>
+                </form>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Reset Password Step (from the emailed link) */}
+        {step === "reset" && (
+          <div className="mx-auto space-y-4 sm:w-sm">
+            <Logo className="h-5 lg:hidden" />
+            <div className="flex flex-col space-y-1">
+              <h1 className="font-bold text-2xl tracking-wide">
+                {isPasswordReset ? t("auth.reset_success_title") : t("auth.reset_title")}
+              </h1>
+              <p className="text-base text-muted-foreground">
+                {isPasswordReset
+                  ? t("auth.reset_success")
+                  : resetToken
+                    ? t("auth.reset_desc")
+                    : t("auth.reset_invalid_token")}
+              </p>
+            </div>
+
+            {isPasswordReset ? (
+              <Button className="w-full" type="button" onClick={backToSignIn}>
+                {t("auth.back_to_sign_in")}
+              </Button>
+            ) : !resetToken ? (
+              <Button className="w-full" type="button" onClick={openForgotPassword}>
+                {t("auth.request_new_link")}
+              </Button>
+            ) : (
+              <form className="space-y-2" onSubmit={onResetSubmit}>
+                <InputGroup>
+                  <InputGroupInput
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t("auth.new_password")}
+                    value={newPassword}
+                    onChange={(event) => setNewPassword(event.target.value)}
+                  />
+                  <InputGroupAddon>
+                    <LockIcon />
+                  </InputGroupAddon>
+                </InputGroup>
+                <PasswordStrengthMeter password={newPassword} policy={passwordPolicy} />
+                <InputGroup>
+                  <InputGroupInput
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t("auth.confirm_password")}
+                    value={confirmPassword}
+                    onChange={(event) => setConfirmPassword(event.target.value)}
+                  />
+                  <InputGroupAddon>
+                    <LockIcon />
+                  </InputGroupAddon>
+                </InputGroup>
+
+                {error && <p className="text-destructive text-sm">{error}</p>}
+
+                <Button className="w-full" type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2Icon className="animate-spin" />
+                      {t("auth.processing")}
+                    </>
+                  ) : (
+                    t("auth.reset_submit")
+                  )}
+                </Button>
+                <Button className="w-full" type="button" variant="ghost" onClick={backToSignIn}>
+                  {t("auth.back_to_sign_in")}
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Accept Invitation Step (from the emailed invite link) */}
+        {step === "accept-invite" && (
+          <div className="mx-auto space-y-4 sm:w-sm">
+            <Logo className="h-5 lg:hidden" />
+            <div className="flex flex-col space-y-1">
+              <h1 className="font-bold text-2xl tracking-wide">
+                {inviteState === "invalid" ? t("auth.invite_invalid_title") : t("auth.invite_title")}
+              </h1>
+              <p className="text-base text-muted-foreground">
+                {inviteState === "checking"
+                  ? t("auth.invite_checking")
+                  : inviteState === "invalid"
+                    ? t("auth.invite_invalid")
+                    : t("auth.invite_desc", { name: invitePreview?.name, email: invitePreview?.email })}
+              </p>
+            </div>
+
+            {inviteState === "checking" ? (
+              <div className="flex justify-center py-4 text-muted-foreground">
+                <Loader2Icon className="h-5 w-5 animate-spin" />
+              </div>
+            ) : inviteState === "invalid" ? (
+              <Button className="w-full" type="button" onClick={backToSignIn}>
+                {t("auth.back_to_sign_in")}
+              </Button>
+            ) : (
+              <form className="space-y-2" onSubmit={onAcceptInviteSubmit}>
+                <InputGroup>
+                  <InputGroupInput
+                    type="email"
+                    autoComplete="username"
+                    value={invitePreview?.email ?? ""}
+                    readOnly
+                    disabled
+                  />
+                  <InputGroupAddon>
+                    <AtSignIcon />
+                  </InputGroupAddon>
+                </InputGroup>
+                <InputGroup>
+                  <InputGroupInput
+                    type="password"
+                    autoComplete="new-password"
+                    autoFocus
+                    placeholder={t("auth.invite_password")}
+                    value={newPassword}
+                    onChange={(event) => setNewPassword(event.target.value)}
+                  />
+                  <InputGroupAddon>
+                    <LockIcon />
+                  </InputGroupAddon>
+                </InputGroup>
+                <PasswordStrengthMeter password={newPassword} policy={passwordPolicy} />
+                <InputGroup>
+                  <InputGroupInput
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder={t("auth.invite_confirm_password")}
+                    value={confirmPassword}
+                    onChange={(event) => setConfirmPassword(event.target.value)}
+                  />
+                  <InputGroupAddon>
+                    <LockIcon />
+                  </InputGroupAddon>
+                </InputGroup>
+
+                {error && <p className="text-destructive text-sm">{error}</p>}
+
+                <Button className="w-full" type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2Icon className="animate-spin" />
+                      {t("auth.processing")}
+                    </>
+                  ) : (
+                    t("auth.invite_submit")
+                  )}
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {/* Verify Email Step */}
+        {step === "verify" && (
+          <div className="mx-auto space-y-4 sm:w-sm">
+            <Logo className="h-5 lg:hidden" />
+            {verifyStatus === "verifying" ? (
+              <div className="flex items-center justify-center gap-2 rounded-md border p-6 text-muted-foreground text-sm">
+                <Loader2Icon className="h-4 w-4 animate-spin" />
+                {t("auth.verifying")}
+              </div>
+            ) : verifyStatus === "verified" || user?.emailVerified ? (
+              <>
+                <div className="flex flex-col space-y-1">
+                  <div className="flex items-center gap-2">
+                    <MailCheckIcon className="h-6 w-6 text-primary" />
+                    <h1 className="font-bold text-2xl tracking-wide">{t("auth.verified_title")}</h1>
+                  </div>
+                  <p className="text-base text-muted-foreground">
+                    {user ? t("auth.verified_desc") : t("auth.verified_sign_in")}
+                  </p>
+                </div>
+                <Button
+                  className="w-full"
+                  type="button"
+                  onClick={() => (user ? onAuthenticated?.() : backToSignIn())}
+                >
+                  {user ? t("auth.continue") : t("auth.back_to_sign_in")}
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="flex flex-col space-y-1">
+                  <div className="flex items-center gap-2">
+                    {verifyStatus === "failed" || verifyError ? (
+                      <MailXIcon className="h-6 w-6 text-destructive" />
+                    ) : (
+                      <MailIcon className="h-6 w-6 text-primary" />
+                    )}
+                    <h1 className="font-bold text-2xl tracking-wide">
+                      {verifyStatus === "failed" || verifyError
+                        ? t("auth.verify_failed_title")
+                        : t("auth.verify_title")}
+                    </h1>
+                  </div>
+                  <p className="text-base text-muted-foreground">
+                    {verifyStatus === "failed" || verifyError
+                      ? t("auth.verify_failed")
+                      : (user?.email ?? email.trim())
+                        ? t("auth.verify_desc", { email: user?.email ?? email.trim() })
+                        : t("auth.verify_desc_no_email")}
+                  </p>
+                </div>
+
+                {verifyMessage && (
+                  <div className="flex items-center gap-3 rounded-lg border bg-card p-4 text-card-foreground text-sm">
+                    <MailCheckIcon className="h-5 w-5 shrink-0 text-primary" />
+                    {verifyMessage}
+                  </div>
+                )}
+                {error && <p className="text-destructive text-sm">{error}</p>}
+
+                {(user?.email || email.trim()) && (
+                  <Button
+                    className="w-full"
+                    type="button"
+                    onClick={onResendVerification}
+                    disabled={isSubmitting || resendCooldown > 0}
+                  >
+                    {isSubmitting ? (
+                      <>
+                        <Loader2Icon className="animate-spin" />
+                        {t("auth.processing")}
+                      </>
+                    ) : resendCooldown > 0 ? (
+                      t("auth.resend_in", { seconds: resendCooldown })
+                    ) : (
+                      t("auth.resend_verification")
+                    )}
+                  </Button>
+                )}
+                <Button
+                  className="w-full"
+                  type="button"
+                  variant="ghost"
+                  onClick={onUseDifferentAccount}
+                  disabled={isSigningOut}
+                >
+                  {t("auth.use_different_account")}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Two-Factor Step (after the password was accepted) */}
+        {step === "two-factor" && (
+          <>
+            <Button
+              className="absolute top-7 start-5"
+              variant="ghost"
+              type="button"
+              onClick={backToSignIn}
+            >
+              <ChevronLeftIcon />
+              {t("auth.back_to_sign_in")}
+            </Button>
+            <div className="mx-auto space-y-4 sm:w-sm">
+              <Logo className="h-5 lg:hidden" />
+              <div className="flex flex-col space-y-1">
+                <div className="flex items-center gap-2">
+                  <ShieldCheckIcon className="h-6 w-6 text-primary" />
+                  <h1 className="font-bold text-2xl tracking-wide">{t("auth.two_factor_title")}</h1>
+                </div>
+                <p className="text-base text-muted-foreground">
+                  {useBackupCode ? t("auth.two_factor_backup_desc") : t("auth.two_factor_desc")}
+                </p>
+              </div>
+
+              <form className="space-y-3" onSubmit={onTwoFactorSubmit}>
+                <InputGroup>
+                  <InputGroupInput
+                    autoFocus
+                    autoComplete="one-time-code"
+                    inputMode={useBackupCode ? "text" : "numeric"}
+                    maxLength={useBackupCode ? 11 : 6}
+                    placeholder={useBackupCode ? t("auth.backup_code_placeholder") : t("auth.two_factor_code_placeholder")}
+                    value={twoFactorCode}
+                    onChange={(event) => setTwoFactorCode(event.target.value)}
+                    aria-invalid={!!error}
+                  />
+                  <InputGroupAddon>
+                    {useBackupCode ? <KeyRoundIcon /> : <LockIcon />}
+                  </InputGroupAddon>
+                </InputGroup>
+
+                <label className="flex items-center gap-2 text-muted-foreground text-sm">
+                  <Checkbox
+                    checked={trustDevice}
+                    onCheckedChange={(checked) => setTrustDevice(checked === true)}
+                  />
+                  {t("auth.trust_device")}
+                </label>
+
+                {error && <p className="text-destructive text-sm">{error}</p>}
+
+                <Button className="w-full" type="submit" disabled={isSubmitting || !twoFactorCode.trim()}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2Icon className="animate-spin" />
+                      {t("auth.processing")}
+                    </>
+                  ) : (
+                    t("auth.verify_code")
+                  )}
+                </Button>
+                <Button className="w-full" type="button" variant="ghost" onClick={toggleBackupCode}>
+                  {useBackupCode ? t("auth.use_authenticator") : t("auth.use_backup_code")}
+                </Button>
+              </form>
+            </div>
+          </>
+        )}
+
         {/* Show checking session on language step too */}
         {step === "language" && isCheckingSession && (
           <div className="mx-auto sm:w-sm">
@@ -382,16 +1149,3 @@ export function AuthPage({ onAuthenticated }: AuthPageProps) {
     </main>
   );
 }
-
-const GoogleIcon = (props: React.ComponentProps<"svg">) => (
-  <svg
-    fill="currentColor"
-    viewBox="0 0 24 24"
-    xmlns="http://www.w3.org/2000/svg"
-    {...props}
-  >
-    <g>
-      <path d="M12.479,14.265v-3.279h11.049c0.108,0.571,0.164,1.247,0.164,1.979c0,2.46-0.672,5.502-2.84,7.669   C18.744,22.829,16.051,24,12.483,24C5.869,24,0.308,18.613,0.308,12S5.869,0,12.483,0c3.659,0,6.265,1.436,8.223,3.307L18.392,5.62   c-1.404-1.317-3.307-2.341-5.913-2.341C7.65,3.279,3.873,7.171,3.873,12s3.777,8.721,8.606,8.721c3.132,0,4.916-1.258,6.059-2.401   c0.927-0.927,1.537-2.251,1.777-4.059L12.479,14.265z" />
-    </g>
-  </svg>
-);
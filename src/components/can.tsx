@@ -0,0 +1,60 @@
+// ============================================================
+// <Can> — declarative permission check
+// ============================================================
+// Hide an action:
+//   <Can menu="Subscriptions" sub="Plans" action="add">
+//     <Button>New Plan</Button>
+//   </Can>
+//
+// Disable an action and explain why (render-prop form):
+//   <Can menu="Subscriptions" sub="Plans" action="delete">
+//     {(allowed) => <Button disabled={!allowed}>Delete</Button>}
+//   </Can>
+// ============================================================
+
+import type { ReactNode } from "react"
+import { useTranslation } from "react-i18next"
+
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
+import type { PermissionAction } from "@/context/PermissionContext"
+import { useCan } from "@/hooks/useCan"
+
+type CanProps = {
+  menu: string
+  sub: string
+  action: PermissionAction
+  /** Rendered only when allowed, or called with `allowed` to render a disabled state */
+  children: ReactNode | ((allowed: boolean) => ReactNode)
+  /** Rendered instead of hidden children when not allowed */
+  fallback?: ReactNode
+}
+
+export function Can({ menu, sub, action, children, fallback = null }: CanProps) {
+  const { t } = useTranslation()
+  const allowed = useCan(menu, sub, action)
+
+  if (typeof children !== "function") {
+    return <>{allowed ? children : fallback}</>
+  }
+
+  const content = children(allowed)
+  if (allowed) {
+    return <>{content}</>
+  }
+
+  // Disabled buttons swallow pointer events, so the tooltip sits on a wrapper
+  return (
+    <Tooltip>
+      <TooltipTrigger render={<span className="inline-flex" tabIndex={0} />}>
+        {content}
+      </TooltipTrigger>
+      <TooltipContent>
+        {t("permissions.action_denied", {
+          action: t(`permissions.actions.${action}`),
+          menu,
+          sub,
+        })}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
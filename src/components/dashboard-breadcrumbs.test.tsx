@@ -0,0 +1,62 @@
+import { render, screen } from "@testing-library/react";
+import i18n from "i18next";
+import { afterEach, describe, expect, it } from "vitest";
+import en from "../../public/locales/en/translation.json";
+import hi from "../../public/locales/hi/translation.json";
+import { DashboardBreadcrumbs } from "@/components/dashboard-breadcrumbs";
+import { PermissionProvider } from "@/context/PermissionContext";
+import { ALL_MENU_ITEMS, menuTitleKey } from "@/lib/menu-config";
+import { matchDashboardRoute } from "@/lib/routes";
+import { signInAs } from "@/test/mock-api";
+
+function lookup(resources: unknown, key: string) {
+  return key.split(".").reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], resources);
+}
+
+async function renderCrumbs(pathname: string) {
+  await signInAs("admin@bookito.test", "admin123");
+  render(
+    <PermissionProvider>
+      <DashboardBreadcrumbs match={matchDashboardRoute(pathname)} pathname={pathname} />
+    </PermissionProvider>
+  );
+}
+
+describe("DashboardBreadcrumbs", () => {
+  afterEach(async () => {
+    await i18n.changeLanguage("en");
+  });
+
+  it("has a translated label for every menu and submenu", () => {
+    const keys = ALL_MENU_ITEMS.flatMap((menu) => [
+      menuTitleKey(menu.title),
+      ...menu.items.map((sub) => menuTitleKey(menu.title, sub.title)),
+    ]);
+
+    for (const key of keys) {
+      expect(lookup(en, key), key).toBeTypeOf("string");
+      expect(lookup(hi, key), key).toBeTypeOf("string");
+    }
+    expect(lookup(en, menuTitleKey("Subscriptions", "Active Subscriptions"))).toBe("Active Subscriptions");
+  });
+
+  it("labels the menu crumbs in the current language", async () => {
+    i18n.addResourceBundle("hi", "translation", hi);
+    await i18n.changeLanguage("hi");
+    await renderCrumbs("/dashboard");
+
+    expect(await screen.findByText("डैशबोर्ड")).toBeTruthy();
+    expect(screen.getByText("अवलोकन")).toBeTruthy();
+    expect(screen.queryByText("Overview")).toBeNull();
+  });
+
+  it("links the menu crumbs back from a record page", async () => {
+    await renderCrumbs("/dashboard/subscriptions/plans/pln_2");
+
+    expect((await screen.findByRole("link", { name: "Plans" })).getAttribute("href")).toBe(
+      "/dashboard/subscriptions/plans"
+    );
+    expect(screen.getByRole("link", { name: "Subscriptions" })).toBeTruthy();
+    expect(screen.getByText("pln_2")).toBeTruthy();
+  });
+});
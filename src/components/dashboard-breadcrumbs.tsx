@@ -0,0 +1,65 @@
+import { Fragment, useSyncExternalStore } from "react"
+import { useTranslation } from "react-i18next"
+
+import { Link } from "@/components/link"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { usePermissions } from "@/hooks/usePermissions"
+import {
+  buildBreadcrumbs,
+  getRecordCrumb,
+  subscribeRecordCrumb,
+  type Crumb,
+} from "@/lib/breadcrumbs"
+import { menuTitleKey } from "@/lib/menu-config"
+import { DASHBOARD_PATH, type RouteMatch } from "@/lib/routes"
+
+type DashboardBreadcrumbsProps = {
+  match: RouteMatch | null
+  pathname: string
+}
+
+// Header breadcrumbs (Main menu › Sub menu › record) for the current route
+export function DashboardBreadcrumbs({ match, pathname }: DashboardBreadcrumbsProps) {
+  const { t } = useTranslation()
+  const { hasMenuAccess } = usePermissions()
+  const recordCrumb = useSyncExternalStore(subscribeRecordCrumb, getRecordCrumb)
+
+  // Menus missing from the translations keep their menu-config title
+  const menuLabel = (mainMenu: string, subMenu?: string) =>
+    t(menuTitleKey(mainMenu, subMenu), { defaultValue: subMenu ?? mainMenu })
+
+  const crumbs: Crumb[] = match
+    ? buildBreadcrumbs(match, pathname, hasMenuAccess, recordCrumb, menuLabel)
+    : [
+        { label: t("dashboard.title"), href: DASHBOARD_PATH },
+        { label: t("status.not_found_title") },
+      ]
+
+  return (
+    <Breadcrumb>
+      <BreadcrumbList>
+        {crumbs.map((crumb, index) => (
+          <Fragment key={`${index}-${crumb.label}`}>
+            {index > 0 && <BreadcrumbSeparator />}
+            <BreadcrumbItem>
+              {crumb.href ? (
+                <BreadcrumbLink render={<Link href={crumb.href} />}>
+                  {crumb.label}
+                </BreadcrumbLink>
+              ) : (
+                <BreadcrumbPage>{crumb.label}</BreadcrumbPage>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
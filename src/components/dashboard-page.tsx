@@ -1,11 +1,5 @@
 import { AppSidebar } from "@/components/app-sidebar"
-import {
-  Breadcrumb,
-  BreadcrumbItem,
-  BreadcrumbList,
-  BreadcrumbPage,
-  BreadcrumbSeparator,
-} from "@/components/ui/breadcrumb"
+import { DashboardBreadcrumbs } from "@/components/dashboard-breadcrumbs"
 import { Separator } from "@/components/ui/separator"
 import {
   SidebarInset,
@@ -13,37 +7,138 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar"
 import { useTranslation } from "react-i18next"
-import { useCallback, useEffect, useState } from "react"
+import { useEffect } from "react"
 
 // -- RBAC: wrap dashboard with permission provider --
 import { PermissionProvider } from "@/context/PermissionContext"
+import { RouteGuard } from "@/components/route-guard"
+import { ACCOUNT_SETTINGS_KEY, matchDashboardRoute, type RouteMatch } from "@/lib/routes"
+import { useTwoFactorRequired } from "@/hooks/useTwoFactorRequired"
 
 // -- Admin pages --
 import { GroupManagement } from "@/components/admin/GroupManagement"
 import { UserManagement } from "@/components/admin/UserManagement"
 import { PlanManagement } from "@/components/admin/PlanManagement";
 import { GeminiChat } from "@/components/GeminiChat";
+import { IdleTimeoutDialog } from "@/components/idle-timeout-dialog"
+import { ImpersonationBanner } from "@/components/impersonation-banner"
+import { ComingSoonPage, NotFoundPage, TwoFactorRequiredPage } from "@/components/status-page"
+
+// -- Settings pages --
+import { AccountSettings } from "@/components/settings/AccountSettings"
+import { GeneralSettings } from "@/components/settings/GeneralSettings"
 
 
 type DashboardUser = {
+  id?: string
   name?: string | null
   email?: string | null
   image?: string | null
+  role?: string | null
   language?: string | null
+  twoFactorEnabled?: boolean | null
 }
 
 type DashboardPageProps = {
   user: DashboardUser
+  pathname: string
   onSignOut: () => void
   isSigningOut: boolean
 }
 
+// -- Overview page (landing page of the dashboard) --
+
+function DashboardOverview({ user }: { user: DashboardUser }) {
+  const { t } = useTranslation()
+
+  return (
+    <>
+      <div className="grid auto-rows-min gap-4 md:grid-cols-3">
+        <div className="bg-muted/50 aspect-video rounded-xl p-4">
+          <p className="text-muted-foreground text-sm">{t("dashboard.welcome")}</p>
+          <p className="mt-2 font-semibold text-lg">
+            {user.name ?? "Authenticated User"}
+          </p>
+        </div>
+        <div className="bg-muted/50 aspect-video rounded-xl p-4">
+          <p className="text-muted-foreground text-sm">{t("dashboard.email")}</p>
+          <p className="mt-2 break-all font-medium">
+            {user.email ?? t("dashboard.no_email")}
+          </p>
+        </div>
+        <div className="bg-muted/50 aspect-video rounded-xl p-4">
+          <p className="text-muted-foreground text-sm">{t("dashboard.session")}</p>
+          <p className="mt-2 font-medium">{t("dashboard.active")}</p>
+        </div>
+      </div>
+      <div className="bg-muted/50 min-h-[50vh] rounded-xl p-6">
+        <h2 className="font-semibold text-xl">{t("dashboard.workspace_title")}</h2>
+        <p className="mt-2 text-muted-foreground text-sm">
+          {t("dashboard.workspace_desc")}
+        </p>
+      </div>
+    </>
+  )
+}
+
+// -- Route pages: the page component for each menu-config route --
+
+function renderRoutePage({ route, params }: RouteMatch, user: DashboardUser) {
+  const recordId = params.id
+
+  switch (route.key) {
+    case "dashboard":
+      return <DashboardOverview user={user} />
+    case "team-users":
+      return <UserManagement recordId={recordId} />
+    case "team-groups":
+      return <GroupManagement recordId={recordId} />
+    case "subscription-plans":
+      return <PlanManagement recordId={recordId} />
+    case "settings-general":
+      return <GeneralSettings />
+    case ACCOUNT_SETTINGS_KEY:
+      return <AccountSettings user={user} />
+
+    default:
+      return <ComingSoonPage title={route.subMenu} />
+  }
+}
+
+// -- Route content: guards and renders the matched route --
+
+function DashboardRouteContent({
+  match,
+  user,
+}: {
+  match: RouteMatch | null
+  user: DashboardUser
+}) {
+  const mustEnrollTwoFactor = useTwoFactorRequired(user.twoFactorEnabled)
+
+  if (!match) {
+    return <NotFoundPage />
+  }
+
+  // Admin 2FA policy: only the enrollment page is usable until they enroll
+  if (mustEnrollTwoFactor && match.route.key !== ACCOUNT_SETTINGS_KEY) {
+    return <TwoFactorRequiredPage />
+  }
+
+  return (
+    <RouteGuard route={match.route}>
+      {renderRoutePage(match, user)}
+    </RouteGuard>
+  )
+}
+
 export function DashboardPage({
   user,
+  pathname,
   onSignOut,
   isSigningOut,
 }: DashboardPageProps) {
-  const { t, i18n } = useTranslation()
+  const { i18n } = useTranslation()
 
   // Sync i18n language with user's saved language on mount
   useEffect(() => {
@@ -52,73 +147,11 @@ export function DashboardPage({
     }
   }, [user.language, i18n])
 
-  // -- Hash-based page routing --
-  const [currentPage, setCurrentPage] = useState(window.location.hash.slice(1) || "dashboard")
-
-  const handleHashChange = useCallback(() => {
-    setCurrentPage(window.location.hash.slice(1) || "dashboard")
-  }, [])
-
-  useEffect(() => {
-    window.addEventListener("hashchange", handleHashChange)
-    return () => window.removeEventListener("hashchange", handleHashChange)
-  }, [handleHashChange])
-
-  // Determine page title for breadcrumb
-  const getPageTitle = () => {
-    switch (currentPage) {
-      case "team-users": return "Users"
-      case "team-groups": return "Groups"
-      case "subscription-plans": return "Plans"
-
-      default: return t("dashboard.overview")
-    }
-  }
-
-  // Render the correct page content based on hash
-  const renderContent = () => {
-    switch (currentPage) {
-      case "team-users":
-        return <UserManagement />
-      case "team-groups":
-        return <GroupManagement />
-            case "subscription-plans":
-        return <PlanManagement />
-
-      default:
-        return (
-          <>
-            <div className="grid auto-rows-min gap-4 md:grid-cols-3">
-              <div className="bg-muted/50 aspect-video rounded-xl p-4">
-                <p className="text-muted-foreground text-sm">{t("dashboard.welcome")}</p>
-                <p className="mt-2 font-semibold text-lg">
-                  {user.name ?? "Authenticated User"}
-                </p>
-              </div>
-              <div className="bg-muted/50 aspect-video rounded-xl p-4">
-                <p className="text-muted-foreground text-sm">{t("dashboard.email")}</p>
-                <p className="mt-2 break-all font-medium">
-                  {user.email ?? t("dashboard.no_email")}
-                </p>
-              </div>
-              <div className="bg-muted/50 aspect-video rounded-xl p-4">
-                <p className="text-muted-foreground text-sm">{t("dashboard.session")}</p>
-                <p className="mt-2 font-medium">{t("dashboard.active")}</p>
-              </div>
-            </div>
-            <div className="bg-muted/50 min-h-[50vh] rounded-xl p-6">
-              <h2 className="font-semibold text-xl">{t("dashboard.workspace_title")}</h2>
-              <p className="mt-2 text-muted-foreground text-sm">
-                {t("dashboard.workspace_desc")}
-              </p>
-            </div>
-          </>
-        )
-    }
-  }
+  // -- Path-based page routing (route tree from menu-config) --
+  const match = matchDashboardRoute(pathname)
 
   return (
-    <PermissionProvider>
+    <PermissionProvider userId={user.id}>
     <SidebarProvider>
       <AppSidebar
         user={{
@@ -130,27 +163,19 @@ export function DashboardPage({
         isSigningOut={isSigningOut}
       />
       <SidebarInset>
+        <ImpersonationBanner />
         <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
           <SidebarTrigger className="-ms-1" />
           <Separator orientation="vertical" className="me-2 h-4" />
-          <Breadcrumb>
-            <BreadcrumbList>
-              <BreadcrumbItem>
-                <BreadcrumbPage>{t("dashboard.title")}</BreadcrumbPage>
-              </BreadcrumbItem>
-              <BreadcrumbSeparator />
-              <BreadcrumbItem>
-                <BreadcrumbPage>{getPageTitle()}</BreadcrumbPage>
-              </BreadcrumbItem>
-            </BreadcrumbList>
-          </Breadcrumb>
+          <DashboardBreadcrumbs match={match} pathname={pathname} />
          
         </header>
         <div className="flex flex-1 flex-col gap-4 p-4">
-          {renderContent()}
+          <DashboardRouteContent match={match} user={user} />
         </div>
         <GeminiChat />
       </SidebarInset>
+      <IdleTimeoutDialog role={user.role} onSignOut={onSignOut} />
     </SidebarProvider>
     </PermissionProvider>
   )
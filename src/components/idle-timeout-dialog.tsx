@@ -0,0 +1,57 @@
+import { TimerIcon } from "lucide-react"
+import { useTranslation } from "react-i18next"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useIdleTimeout } from "@/hooks/useIdleTimeout"
+import { useQuery } from "@/hooks/useQuery"
+import { api } from "@/lib/api"
+import { queryKeys } from "@/lib/query-cache"
+
+type IdleTimeoutDialogProps = {
+  /** Role of the signed-in user; picks the timeout from Settings › General */
+  role?: string | null
+  onSignOut: () => void
+}
+
+/**
+ * Countdown shown before an idle user is signed out, so a shared
+ * front-desk PC does not stay signed in. Any tab's activity counts;
+ * "Stay signed in" closes the warning in every tab.
+ */
+export function IdleTimeoutDialog({ role, onSignOut }: IdleTimeoutDialogProps) {
+  const { t } = useTranslation()
+  const { data: settings } = useQuery(queryKeys.securitySettings, api.settings.security)
+  const timeoutMinutes = settings?.idleTimeoutMinutes[role === "admin" ? "admin" : "user"] ?? 0
+  const { secondsLeft, stayActive } = useIdleTimeout(timeoutMinutes, onSignOut)
+
+  return (
+    <AlertDialog open={secondsLeft !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <TimerIcon className="h-4 w-4" />
+            {t("idle.title")}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {t("idle.description", { seconds: secondsLeft ?? 0 })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onSignOut}>{t("idle.sign_out")}</AlertDialogCancel>
+          <AlertDialogAction autoFocus onClick={stayActive}>
+            {t("idle.stay")}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,56 @@
+import { EyeIcon, Loader2Icon, XIcon } from "lucide-react"
+import { useState } from "react"
+import { useTranslation } from "react-i18next"
+
+import { Button } from "@/components/ui/button"
+import { authClient } from "@/lib/auth-client"
+import { stopImpersonating } from "@/lib/impersonation"
+
+/**
+ * Shown on every dashboard page while an admin views the app as another
+ * user. It cannot be dismissed; the only way out is "Stop".
+ */
+export function ImpersonationBanner() {
+  const { t } = useTranslation()
+  const { data: session } = authClient.useSession()
+  const [isStopping, setIsStopping] = useState(false)
+
+  if (!session?.session.impersonatedBy) {
+    return null
+  }
+
+  const user = session.user
+
+  const stop = async () => {
+    setIsStopping(true)
+    try {
+      await stopImpersonating(user.id)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : t("impersonation.stop_failed"))
+    } finally {
+      setIsStopping(false)
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-20 flex items-center justify-center gap-3 bg-amber-400 px-4 py-2 text-amber-950 text-sm"
+    >
+      <EyeIcon className="h-4 w-4 shrink-0" />
+      <p className="truncate">
+        {t("impersonation.viewing_as", { name: user.name, email: user.email })}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 shrink-0 border-amber-950/30 bg-transparent hover:bg-amber-300"
+        onClick={stop}
+        disabled={isStopping}
+      >
+        {isStopping ? <Loader2Icon className="animate-spin" /> : <XIcon />}
+        {t("impersonation.stop")}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import type React from "react"
+
+import { navigate } from "@/lib/router"
+
+type LinkProps = React.ComponentProps<"a"> & {
+  href: string
+  replace?: boolean
+}
+
+// In-app anchor: plain clicks go through the client router,
+// modified clicks (new tab, download, ...) keep browser behavior.
+export function Link({ href, replace, onClick, target, ...props }: LinkProps) {
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event)
+
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.altKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      (target && target !== "_self")
+    ) {
+      return
+    }
+
+    event.preventDefault()
+    navigate(href, { replace })
+  }
+
+  return <a href={href} target={target} onClick={handleClick} {...props} />
+}
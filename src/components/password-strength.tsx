@@ -0,0 +1,58 @@
+import { CheckIcon, XIcon } from "lucide-react"
+import { useTranslation } from "react-i18next"
+
+import type { PasswordPolicy } from "@/lib/api"
+import { checkPassword, passwordStrength } from "@/lib/password-policy"
+import { cn } from "@/lib/utils"
+
+const METER_COLORS = ["bg-destructive", "bg-destructive", "bg-amber-500", "bg-lime-500", "bg-green-600"]
+
+type PasswordStrengthMeterProps = {
+  password: string
+  policy: PasswordPolicy
+  className?: string
+}
+
+/**
+ * Live strength meter and rule checklist shown under a new-password
+ * field. The checklist follows the admin's password policy; the
+ * meter is a rough guide on top of it.
+ */
+export function PasswordStrengthMeter({ password, policy, className }: PasswordStrengthMeterProps) {
+  const { t } = useTranslation()
+  const score = passwordStrength(password)
+  const rules = checkPassword(password, policy)
+
+  return (
+    <div className={cn("space-y-2", className)} aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1" aria-hidden>
+          {[1, 2, 3, 4].map((segment) => (
+            <div
+              key={segment}
+              className={cn(
+                "h-1 flex-1 rounded-full bg-muted transition-colors",
+                password && segment <= Math.max(score, 1) && METER_COLORS[score]
+              )}
+            />
+          ))}
+        </div>
+        {password && (
+          <span className="w-14 text-end text-muted-foreground text-xs">{t(`password.strength_${score}`)}</span>
+        )}
+      </div>
+
+      <ul className="space-y-0.5 text-xs">
+        {rules.map(({ rule, passed }) => (
+          <li
+            key={rule}
+            className={cn("flex items-center gap-1.5", passed ? "text-green-600" : "text-muted-foreground")}
+          >
+            {passed ? <CheckIcon className="h-3 w-3" /> : <XIcon className="h-3 w-3" />}
+            {t(`password.rule_${rule}`, { count: policy.minLength })}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
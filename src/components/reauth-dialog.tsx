@@ -0,0 +1,289 @@
+import { KeyRoundIcon, Loader2Icon, LockIcon, ShieldCheckIcon } from "lucide-react"
+import { useEffect, useRef, useState, useSyncExternalStore, type FormEvent } from "react"
+import { useTranslation } from "react-i18next"
+
+import { GoogleIcon } from "@/components/google-icon"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useQuery } from "@/hooks/useQuery"
+import { api, getErrorMessage, type SsoProvider } from "@/lib/api"
+import {
+  getReauthState,
+  registerReauthDialog,
+  resolveReauth,
+  subscribeReauth,
+} from "@/lib/api/reauth"
+import { authClient, needsSecondFactor } from "@/lib/auth-client"
+import { queryKeys } from "@/lib/query-cache"
+import { signInWithSsoPopup } from "@/lib/sso"
+
+const NO_SSO_PROVIDERS: SsoProvider[] = []
+
+type ReauthDialogProps = {
+  /** Account whose session expired; signing in as someone else is not offered */
+  email: string
+}
+
+type ReauthStep = "password" | "two-factor"
+
+/**
+ * Sign-in dialog shown over the dashboard when the session expires.
+ * The page underneath stays mounted, so unsaved form input is kept and
+ * the request that hit the 401 is replayed after signing in.
+ * Accounts with two-factor enter their code next; SSO accounts sign
+ * in through their provider in a popup.
+ */
+export function ReauthDialog({ email }: ReauthDialogProps) {
+  const { t } = useTranslation()
+  const { isPending } = useSyncExternalStore(subscribeReauth, getReauthState)
+  const { data: ssoProviders = NO_SSO_PROVIDERS } = useQuery(queryKeys.ssoProviders, api.settings.ssoProviders, {
+    enabled: isPending,
+  })
+  const [step, setStep] = useState<ReauthStep>("password")
+  const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [ssoWaitingId, setSsoWaitingId] = useState<string | null>(null)
+  const ssoAbortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => registerReauthDialog(), [])
+  useEffect(() => () => ssoAbortRef.current?.abort(), [])
+
+  const reset = () => {
+    ssoAbortRef.current?.abort()
+    setStep("password")
+    setPassword("")
+    setCode("")
+    setUseBackupCode(false)
+    setError(null)
+    setSsoWaitingId(null)
+  }
+
+  const cancel = () => {
+    reset()
+    resolveReauth(false)
+  }
+
+  const finish = () => {
+    reset()
+    resolveReauth(true)
+  }
+
+  const onPasswordSubmit = async () => {
+    const result = await authClient.signIn.email({ email, password })
+    if (result.error) {
+      setError(result.error.message ?? t("auth.auth_failed"))
+      return
+    }
+
+    // Password accepted, but no session until the second factor is checked
+    if (needsSecondFactor(result.data)) {
+      setPassword("")
+      setStep("two-factor")
+      return
+    }
+    finish()
+  }
+
+  const onCodeSubmit = async () => {
+    const trimmed = code.trim()
+    const result = useBackupCode
+      ? await authClient.twoFactor.verifyBackupCode({ code: trimmed })
+      : await authClient.twoFactor.verifyTotp({ code: trimmed })
+    if (result.error) {
+      setError(result.error.message ?? t("auth.two_factor_invalid"))
+      return
+    }
+    finish()
+  }
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await (step === "password" ? onPasswordSubmit() : onCodeSubmit())
+    } catch {
+      setError(t("auth.server_error"))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const toggleBackupCode = () => {
+    setError(null)
+    setCode("")
+    setUseBackupCode((value) => !value)
+  }
+
+  const onSsoSignIn = async (providerId: string) => {
+    // Trying again (e.g. the popup was closed) stops waiting for the last one
+    ssoAbortRef.current?.abort()
+    const controller = new AbortController()
+    ssoAbortRef.current = controller
+    setError(null)
+    setSsoWaitingId(providerId)
+
+    try {
+      const ssoError = await signInWithSsoPopup(providerId, controller.signal)
+      if (controller.signal.aborted) return
+      if (ssoError) {
+        setError(t(`auth.sso_error_${ssoError}`))
+        return
+      }
+
+      // The popup may have signed in to another account at the provider
+      const { data } = await authClient.getSession()
+      const signedInAs = data?.user.email ?? null
+      if (signedInAs?.toLowerCase() !== email.toLowerCase()) {
+        if (signedInAs) await authClient.signOut()
+        setError(t("reauth.other_account", { email }))
+        return
+      }
+
+      // The session was created in the popup; let useSession() read it
+      authClient.$store.notify("$sessionSignal")
+      finish()
+    } catch (err) {
+      setError(getErrorMessage(err, t("auth.sso_error_failed")))
+    } finally {
+      if (ssoAbortRef.current === controller) {
+        ssoAbortRef.current = null
+        setSsoWaitingId(null)
+      }
+    }
+  }
+
+  return (
+    <Dialog
+      open={isPending}
+      onOpenChange={(open) => {
+        if (!open && !isSubmitting) cancel()
+      }}
+    >
+      <DialogContent showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {step === "password" ? <LockIcon className="h-4 w-4" /> : <ShieldCheckIcon className="h-4 w-4" />}
+            {step === "password" ? t("reauth.title") : t("auth.two_factor_title")}
+          </DialogTitle>
+          <DialogDescription>
+            {step === "password"
+              ? t("reauth.description")
+              : useBackupCode
+                ? t("auth.two_factor_backup_desc")
+                : t("auth.two_factor_desc")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "password" && ssoProviders.length > 0 && (
+          <>
+            <div className="space-y-2">
+              {ssoProviders.map((provider) => (
+                <Button
+                  key={provider.id}
+                  className="w-full"
+                  variant="outline"
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => onSsoSignIn(provider.id)}
+                >
+                  {ssoWaitingId === provider.id ? (
+                    <Loader2Icon className="animate-spin" />
+                  ) : provider.type === "google" ? (
+                    <GoogleIcon />
+                  ) : (
+                    <KeyRoundIcon />
+                  )}
+                  {t("auth.continue_with", { provider: provider.name })}
+                </Button>
+              ))}
+              {ssoWaitingId && <p className="text-muted-foreground text-xs">{t("reauth.sso_waiting")}</p>}
+            </div>
+
+            <div className="flex w-full items-center justify-center">
+              <div className="h-px w-full bg-border" />
+              <span className="px-2 text-muted-foreground text-xs">{t("auth.or")}</span>
+              <div className="h-px w-full bg-border" />
+            </div>
+          </>
+        )}
+
+        <form id="reauth-form" className="space-y-4" onSubmit={onSubmit}>
+          {step === "password" ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="reauth-email">{t("reauth.email")}</Label>
+                <Input id="reauth-email" type="email" value={email} readOnly disabled />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reauth-password">{t("auth.password")}</Label>
+                <Input
+                  id="reauth-password"
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  aria-invalid={!!error}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Input
+                id="reauth-code"
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useBackupCode ? "text" : "numeric"}
+                maxLength={useBackupCode ? 11 : 6}
+                placeholder={useBackupCode ? t("auth.backup_code_placeholder") : t("auth.two_factor_code_placeholder")}
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                aria-invalid={!!error}
+              />
+              <Button className="px-0" type="button" variant="link" size="sm" onClick={toggleBackupCode}>
+                {useBackupCode ? t("auth.use_authenticator") : t("auth.use_backup_code")}
+              </Button>
+            </div>
+          )}
+          {error && <p className="text-destructive text-sm">{error}</p>}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={cancel} disabled={isSubmitting}>
+            {t("reauth.cancel")}
+          </Button>
+          <Button
+            type="submit"
+            form="reauth-form"
+            disabled={isSubmitting || !(step === "password" ? password : code.trim())}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2Icon className="animate-spin" />
+                {t("auth.processing")}
+              </>
+            ) : step === "password" ? (
+              t("reauth.sign_in")
+            ) : (
+              t("auth.verify_code")
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,74 @@
+// ============================================================
+// Route Guard
+// ============================================================
+// Wraps every dashboard page. Waits for PermissionProvider to
+// load, then either mounts the page or shows the 403 screen.
+// The page itself (and its API calls) never mounts when the
+// user lacks access to the route's main/sub menu. When access to
+// the open page is taken away (permissions refresh live), the user
+// is moved to the first page they can still open.
+// The group preview (Team → Groups) passes onRedirect to keep the
+// landing redirect inside the preview.
+// ============================================================
+
+import { useEffect, useState, type ReactNode } from "react"
+
+import { ForbiddenPage } from "@/components/status-page"
+import { Skeleton } from "@/components/ui/skeleton"
+import { usePermissions } from "@/hooks/usePermissions"
+import { useRouteAccess } from "@/hooks/useRouteAccess"
+import { navigate } from "@/lib/router"
+import { DASHBOARD_PATH, firstAccessiblePath, type DashboardRoute } from "@/lib/routes"
+
+function redirectTo(path: string) {
+  navigate(path, { replace: true })
+}
+
+export function RouteGuard({
+  route,
+  children,
+  onRedirect = redirectTo,
+}: {
+  route: DashboardRoute
+  children: ReactNode
+  /** Where the landing redirect goes; the app's router by default */
+  onRedirect?: (path: string) => void
+}) {
+  const access = useRouteAccess(route)
+  const { hasMenuAccess } = usePermissions()
+
+  // Remember the route last shown, to tell "just lost access" from "never had it"
+  const [allowedKey, setAllowedKey] = useState<string | null>(null)
+  if (access === "allowed" && allowedKey !== route.key) {
+    setAllowedKey(route.key)
+  }
+  const lostAccess = access === "forbidden" && allowedKey === route.key
+
+  // Users without the overview (or who just lost the open page) land on
+  // their first permitted page instead of a 403
+  const landingPath =
+    access === "forbidden" && (route.path === DASHBOARD_PATH || lostAccess)
+      ? firstAccessiblePath(hasMenuAccess)
+      : null
+
+  useEffect(() => {
+    if (landingPath) {
+      onRedirect(landingPath)
+    }
+  }, [landingPath, onRedirect])
+
+  if (access === "loading" || landingPath) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  if (access === "forbidden") {
+    return <ForbiddenPage />
+  }
+
+  return <>{children}</>
+}
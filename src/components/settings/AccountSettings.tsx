@@ -0,0 +1,335 @@
+// ============================================================
+// Account Settings Page
+// ============================================================
+// Accessible via Settings → Account in the sidebar.
+// Features:
+//   - Two-factor authentication (TOTP) for the signed-in user:
+//       1. Confirm the password (better-auth twoFactor.enable)
+//       2. Scan the QR code (or type the secret) in an
+//          authenticator app and confirm the first code
+//       3. Save the one-time backup codes
+//   - Regenerate backup codes / disable two-factor (password again)
+//   - Sessions: devices the user is signed in on, with revoke
+//   - Notice when the "require two-factor for admins" policy
+//     (Settings → General) applies and the user has not enrolled;
+//     the rest of the dashboard stays locked until they do
+// ============================================================
+
+import { useState, type FormEvent } from "react"
+import { QRCodeSVG } from "qrcode.react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { SessionsPanel } from "@/components/settings/SessionsPanel"
+import { useTwoFactorRequired } from "@/hooks/useTwoFactorRequired"
+import { authClient } from "@/lib/auth-client"
+import { Copy, Download, KeyRound, Loader2, ShieldAlert, ShieldCheck, ShieldOff } from "lucide-react"
+
+type AccountUser = {
+  name?: string | null
+  email?: string | null
+  twoFactorEnabled?: boolean | null
+}
+
+/** Actions that need the password confirmed first */
+type PasswordAction = "enable" | "disable" | "backup-codes"
+
+type TwoFactorFlow =
+  | { step: "idle" }
+  | { step: "password"; action: PasswordAction }
+  | { step: "scan"; totpURI: string; backupCodes: string[] }
+  | { step: "backup-codes"; backupCodes: string[] }
+
+const PASSWORD_PROMPTS: Record<PasswordAction, { title: string; submit: string }> = {
+  enable: { title: "Confirm your password to set up two-factor", submit: "Continue" },
+  disable: { title: "Confirm your password to turn off two-factor", submit: "Turn off" },
+  "backup-codes": { title: "Confirm your password to generate new backup codes", submit: "Generate" },
+}
+
+/** The base32 secret inside an otpauth:// URI, for manual entry */
+function totpSecret(totpURI: string) {
+  try {
+    return new URL(totpURI).searchParams.get("secret") ?? ""
+  } catch {
+    return ""
+  }
+}
+
+function downloadBackupCodes(codes: string[], email: string) {
+  const text = [`Bookito backup codes for ${email}`, "Each code can be used once.", "", ...codes].join("\n")
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = "bookito-backup-codes.txt"
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function AccountSettings({ user }: { user: AccountUser }) {
+  const mustEnroll = useTwoFactorRequired(user.twoFactorEnabled)
+  const [flow, setFlow] = useState<TwoFactorFlow>({ step: "idle" })
+  const [password, setPassword] = useState("")
+  const [code, setCode] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isCopied, setIsCopied] = useState(false)
+
+  const goTo = (next: TwoFactorFlow) => {
+    setPassword("")
+    setCode("")
+    setError(null)
+    setIsCopied(false)
+    setFlow(next)
+  }
+
+  // -- Step 1: password confirmed, run the action --
+  const onPasswordSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (flow.step !== "password") return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      if (flow.action === "enable") {
+        const result = await authClient.twoFactor.enable({ password })
+        if (result.error) {
+          setError(result.error.message ?? "Failed to start two-factor setup")
+          return
+        }
+        goTo({ step: "scan", ...result.data })
+      } else if (flow.action === "disable") {
+        const result = await authClient.twoFactor.disable({ password })
+        if (result.error) {
+          setError(result.error.message ?? "Failed to turn off two-factor")
+          return
+        }
+        goTo({ step: "idle" })
+      } else {
+        const result = await authClient.twoFactor.generateBackupCodes({ password })
+        if (result.error) {
+          setError(result.error.message ?? "Failed to generate backup codes")
+          return
+        }
+        goTo({ step: "backup-codes", backupCodes: result.data.backupCodes })
+      }
+    } catch {
+      setError("Could not reach the server. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // -- Step 2: first code from the app turns two-factor on --
+  const onVerifySubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (flow.step !== "scan") return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const result = await authClient.twoFactor.verifyTotp({ code: code.trim() })
+      if (result.error) {
+        setError(result.error.message ?? "That code is not valid")
+        return
+      }
+      goTo({ step: "backup-codes", backupCodes: flow.backupCodes })
+    } catch {
+      setError("Could not reach the server. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const copyBackupCodes = async (codes: string[]) => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"))
+      setIsCopied(true)
+    } catch {
+      setError("Copy failed; select the codes and copy them manually")
+    }
+  }
+
+  const isEnabled = !!user.twoFactorEnabled
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">Account</h2>
+        <p className="text-muted-foreground text-sm">
+          Sign-in security for {user.email ?? "your account"}
+        </p>
+      </div>
+
+      {/* Policy notice */}
+      {mustEnroll && flow.step === "idle" && (
+        <div className="flex items-start gap-3 rounded-lg border border-amber-500/50 bg-amber-500/10 p-4 text-sm">
+          <ShieldAlert className="h-5 w-5 shrink-0 text-amber-600" />
+          <div>
+            <p className="font-medium">Two-factor authentication is required</p>
+            <p className="text-muted-foreground">
+              Your organization requires admins to use two-factor authentication.
+              Set it up below to continue using the dashboard.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            Two-factor authentication
+            {isEnabled ? (
+              <Badge variant="secondary">
+                <ShieldCheck />
+                On
+              </Badge>
+            ) : (
+              <Badge variant="outline">
+                <ShieldOff />
+                Off
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Ask for a code from an authenticator app (Google Authenticator, 1Password, Authy…)
+            after your password when you sign in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Idle: offer the next action */}
+          {flow.step === "idle" &&
+            (isEnabled ? (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => goTo({ step: "password", action: "backup-codes" })}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  New backup codes
+                </Button>
+                <Button
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => goTo({ step: "password", action: "disable" })}
+                >
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Turn off
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={() => goTo({ step: "password", action: "enable" })}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Set up two-factor
+              </Button>
+            ))}
+
+          {/* Password confirmation */}
+          {flow.step === "password" && (
+            <form className="max-w-sm space-y-3" onSubmit={onPasswordSubmit}>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">{PASSWORD_PROMPTS[flow.action].title}</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  aria-invalid={!!error}
+                />
+              </div>
+              {flow.action === "disable" && user.twoFactorEnabled && (
+                <p className="text-xs text-muted-foreground">
+                  Admins may be asked to set it up again if your organization requires two-factor.
+                </p>
+              )}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting || !password}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {PASSWORD_PROMPTS[flow.action].submit}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => goTo({ step: "idle" })} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {/* Scan the QR code and confirm the first code */}
+          {flow.step === "scan" && (
+            <form className="space-y-4" onSubmit={onVerifySubmit}>
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+                <div className="w-fit rounded-lg border bg-white p-3">
+                  <QRCodeSVG value={flow.totpURI} size={168} />
+                </div>
+                <div className="space-y-2 text-sm">
+                  <p>Scan the QR code with your authenticator app.</p>
+                  <p className="text-muted-foreground">Can't scan it? Enter this key instead:</p>
+                  <code className="block break-all rounded bg-muted px-2 py-1 font-mono text-xs">
+                    {totpSecret(flow.totpURI)}
+                  </code>
+                </div>
+              </div>
+              <div className="max-w-sm space-y-2">
+                <Label htmlFor="two-factor-code">6-digit code from the app</Label>
+                <Input
+                  id="two-factor-code"
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  maxLength={6}
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  aria-invalid={!!error}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting || code.trim().length !== 6}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Verify and turn on
+                </Button>
+                <Button type="button" variant="outline" onClick={() => goTo({ step: "idle" })} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {/* Backup codes (after enrolling or regenerating) */}
+          {flow.step === "backup-codes" && (
+            <div className="space-y-4">
+              <div className="text-sm">
+                <p className="font-medium">Save your backup codes</p>
+                <p className="text-muted-foreground">
+                  Each code signs you in once if you lose your phone. They will not be shown again;
+                  any older codes no longer work.
+                </p>
+              </div>
+              <ul className="grid max-w-sm grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm">
+                {flow.backupCodes.map((backupCode) => (
+                  <li key={backupCode}>{backupCode}</li>
+                ))}
+              </ul>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => copyBackupCodes(flow.backupCodes)}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  {isCopied ? "Copied" : "Copy"}
+                </Button>
+                <Button variant="outline" onClick={() => downloadBackupCodes(flow.backupCodes, user.email ?? "")}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </Button>
+                <Button onClick={() => goTo({ step: "idle" })}>Done</Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SessionsPanel />
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+// ============================================================
+// General Settings Page
+// ============================================================
+// Accessible via Settings → General in the sidebar.
+// Features:
+//   - Security policy: require two-factor authentication for
+//     every account whose role is "admin". Admins who have not
+//     enrolled are sent to Settings → Account until they do.
+//   - Idle timeout per role: sign out after that many minutes
+//     without pointer or keyboard activity (in any tab), after a
+//     60-second countdown. "Never" turns it off.
+//   - Password policy: minimum length, required character classes
+//     and the common-password check, applied to every new password
+//     (sign-up, reset, invitations, admin-set)
+//   - Single sign-on: which email domains may sign in through the
+//     SSO providers, and the group new SSO accounts join. The
+//     providers themselves are configured on the backend.
+//   - Only admins may change security policies (whatever their
+//     group allows); others see the current value read-only
+// ============================================================
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Button } from "@/components/ui/button"
+import { usePermissions } from "@/hooks/usePermissions"
+import { useQuery } from "@/hooks/useQuery"
+import {
+  api,
+  getErrorMessage,
+  type GroupData,
+  type PasswordPolicy,
+  type SecuritySettings,
+  type SsoProvider,
+  type SsoSettings,
+  type UserRole,
+} from "@/lib/api"
+import { MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH } from "@/lib/password-policy"
+import { optimisticUpdate, queryKeys, setQueryData } from "@/lib/query-cache"
+
+const IDLE_TIMEOUT_ROLES: { role: UserRole; label: string }[] = [
+  { role: "admin", label: "Admins" },
+  { role: "user", label: "Users" },
+]
+
+/** Minutes; 0 = never sign out */
+const IDLE_TIMEOUT_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 240, 480]
+
+const PASSWORD_LENGTH_OPTIONS = [8, 10, 12, 14, 16, 20, 24].filter(
+  (length) => length >= MIN_PASSWORD_LENGTH && length <= MAX_PASSWORD_LENGTH
+)
+
+type PasswordPolicyFlag = Exclude<keyof PasswordPolicy, "minLength">
+
+const PASSWORD_POLICY_FLAGS: { flag: PasswordPolicyFlag; label: string; hint?: string }[] = [
+  { flag: "requireUppercase", label: "Require an uppercase letter" },
+  { flag: "requireLowercase", label: "Require a lowercase letter" },
+  { flag: "requireNumber", label: "Require a number" },
+  { flag: "requireSymbol", label: "Require a symbol" },
+  {
+    flag: "blockCommonPasswords",
+    label: "Block common passwords",
+    hint: "Rejects passwords such as \"password123\" from a bundled list of the most used ones",
+  },
+]
+
+const NO_GROUPS: GroupData[] = []
+const NO_SSO_PROVIDERS: SsoProvider[] = []
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+
+/** "bookito.test, @Example.com" -> ["bookito.test", "example.com"] */
+function parseDomains(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((domain) => domain.replace(/^@/, "").toLowerCase())
+    .filter(Boolean)
+}
+
+function formatMinutes(minutes: number) {
+  if (minutes === 0) return "Never"
+  if (minutes < 60) return `${minutes} minutes`
+  return minutes === 60 ? "1 hour" : `${minutes / 60} hours`
+}
+
+export function GeneralSettings() {
+  const { isAdmin } = usePermissions()
+  const securityQuery = useQuery(queryKeys.securitySettings, api.settings.security)
+  const settings = securityQuery.data
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  // -- Toggle a policy; the checkbox flips immediately --
+  const updateSecurity = async (patch: Partial<SecuritySettings>) => {
+    if (!settings) return
+    setIsSaving(true)
+    setSaveError(null)
+    const rollback = optimisticUpdate<SecuritySettings>(queryKeys.securitySettings, (prev) => ({
+      ...prev,
+      ...patch,
+    }))
+
+    try {
+      const saved = await api.settings.updateSecurity({ ...settings, ...patch })
+      setQueryData(queryKeys.securitySettings, saved)
+      setQueryData(queryKeys.passwordPolicy, saved.passwordPolicy)
+    } catch (err) {
+      rollback()
+      setSaveError(getErrorMessage(err, "Failed to save settings"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold tracking-tight">General</h2>
+        <p className="text-muted-foreground text-sm">
+          Organization-wide settings
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Security</CardTitle>
+          <CardDescription>
+            Policies that apply to everyone who signs in to the admin panel
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {securityQuery.isLoading ? (
+            <Skeleton className="h-12 w-full" />
+          ) : !settings ? (
+            <div className="rounded-lg border border-destructive/50 p-4 text-destructive">
+              <p className="text-sm">{getErrorMessage(securityQuery.error)}</p>
+              <Button variant="outline" size="sm" className="mt-2" onClick={securityQuery.refetch}>
+                Retry
+              </Button>
+            </div>
+          ) : (
+            <>
+              <label className="flex items-start gap-3">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={settings.requireAdminTwoFactor}
+                  disabled={!isAdmin || isSaving}
+                  onCheckedChange={(checked) => updateSecurity({ requireAdminTwoFactor: checked === true })}
+                />
+                <span className="space-y-0.5">
+                  <span className="block text-sm font-medium">
+                    Require two-factor authentication for admins
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    Admins without an authenticator app set up can only open Settings → Account until they
+                    enroll.
+                    {!isAdmin && " Only admins can change this."}
+                  </span>
+                </span>
+              </label>
+
+              <div className="space-y-3 border-t pt-4">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">Sign out after inactivity</p>
+                  <p className="text-xs text-muted-foreground">
+                    Shared front-desk PCs should not stay signed in. A 60-second warning is shown first;
+                    activity in any open tab counts.
+                  </p>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {IDLE_TIMEOUT_ROLES.map(({ role, label }) => {
+                    const current = settings.idleTimeoutMinutes[role]
+                    // Keep a value set elsewhere (e.g. through the API) selectable
+                    const options = IDLE_TIMEOUT_OPTIONS.includes(current)
+                      ? IDLE_TIMEOUT_OPTIONS
+                      : [...IDLE_TIMEOUT_OPTIONS, current].sort((a, b) => a - b)
+
+                    return (
+                      <div key={role} className="space-y-1.5">
+                        <Label htmlFor={`idle-timeout-${role}`}>{label}</Label>
+                        <select
+                          id={`idle-timeout-${role}`}
+                          value={current}
+                          disabled={!isAdmin || isSaving}
+                          onChange={(e) =>
+                            updateSecurity({
+                              idleTimeoutMinutes: { ...settings.idleTimeoutMinutes, [role]: Number(e.target.value) },
+                            })
+                          }
+                          className={SELECT_CLASS_NAME}
+                        >
+                          {options.map((minutes) => (
+                            <option key={minutes} value={minutes}>
+                              {formatMinutes(minutes)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {settings && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Passwords</CardTitle>
+            <CardDescription>
+              Rules for new passwords: sign-up, password reset, accepted invitations and passwords set by
+              admins. Existing passwords keep working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-xs space-y-1.5">
+              <Label htmlFor="password-min-length">Minimum length</Label>
+              <select
+                id="password-min-length"
+                value={settings.passwordPolicy.minLength}
+                disabled={!isAdmin || isSaving}
+                onChange={(e) =>
+                  updateSecurity({
+                    passwordPolicy: { ...settings.passwordPolicy, minLength: Number(e.target.value) },
+                  })
+                }
+                className={SELECT_CLASS_NAME}
+              >
+                {(PASSWORD_LENGTH_OPTIONS.includes(settings.passwordPolicy.minLength)
+                  ? PASSWORD_LENGTH_OPTIONS
+                  : [...PASSWORD_LENGTH_OPTIONS, settings.passwordPolicy.minLength].sort((a, b) => a - b)
+                ).map((length) => (
+                  <option key={length} value={length}>
+                    {length} characters
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-3">
+              {PASSWORD_POLICY_FLAGS.map(({ flag, label, hint }) => (
+                <label key={flag} className="flex items-start gap-3">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={settings.passwordPolicy[flag]}
+                    disabled={!isAdmin || isSaving}
+                    onCheckedChange={(checked) =>
+                      updateSecurity({
+                        passwordPolicy: { ...settings.passwordPolicy, [flag]: checked === true },
+                      })
+                    }
+                  />
+                  <span className="space-y-0.5">
+                    <span className="block text-sm font-medium">{label}</span>
+                    {hint && <span className="block text-xs text-muted-foreground">{hint}</span>}
+                  </span>
+                </label>
+              ))}
+            </div>
+            {!isAdmin && <p className="text-xs text-muted-foreground">Only admins can change this.</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      {settings && (
+        <SsoSettingsCard
+          sso={settings.sso}
+          disabled={!isAdmin || isSaving}
+          isAdmin={isAdmin}
+          onChange={(sso) => updateSecurity({ sso })}
+        />
+      )}
+
+      {saveError && <p className="text-sm text-destructive">{saveError}</p>}
+    </div>
+  )
+}
+
+// -- Single sign-on --
+
+type SsoSettingsCardProps = {
+  sso: SsoSettings
+  disabled: boolean
+  isAdmin: boolean
+  onChange: (sso: SsoSettings) => void
+}
+
+function SsoSettingsCard({ sso, disabled, isAdmin, onChange }: SsoSettingsCardProps) {
+  const { data: providers = NO_SSO_PROVIDERS } = useQuery(queryKeys.ssoProviders, api.settings.ssoProviders)
+  const { data: groups = NO_GROUPS } = useQuery(queryKeys.groups, api.groups.list)
+  const savedDomains = sso.allowedDomains.join(", ")
+  const [domainsDraft, setDomainsDraft] = useState(savedDomains)
+  // Show the saved (normalized) list once it changes
+  const [shownDomains, setShownDomains] = useState(savedDomains)
+  if (savedDomains !== shownDomains) {
+    setShownDomains(savedDomains)
+    setDomainsDraft(savedDomains)
+  }
+  const isDomainsChanged = parseDomains(domainsDraft).join(", ") !== savedDomains
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Single sign-on</CardTitle>
+        <CardDescription>
+          Sign-in through your identity provider. The first SSO sign-in creates the account; existing
+          accounts with the same email are signed in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">Providers</p>
+          {providers.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {providers.map((provider) => (
+                <Badge key={provider.id} variant="secondary">
+                  {provider.name}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">None configured; SSO buttons are hidden.</p>
+          )}
+          <p className="text-xs text-muted-foreground">Providers are configured on the server.</p>
+        </div>
+
+        <form
+          className="space-y-1.5 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            onChange({ ...sso, allowedDomains: parseDomains(domainsDraft) })
+          }}
+        >
+          <Label htmlFor="sso-allowed-domains">Allowed email domains</Label>
+          <div className="flex gap-2">
+            <Input
+              id="sso-allowed-domains"
+              placeholder="Any domain"
+              value={domainsDraft}
+              disabled={disabled}
+              onChange={(e) => setDomainsDraft(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={disabled || !isDomainsChanged}>
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Comma-separated, e.g. bookito.test. Leave empty to let any email sign in with SSO.
+          </p>
+        </form>
+
+        <div className="max-w-xs space-y-1.5">
+          <Label htmlFor="sso-default-group">Group for new SSO accounts</Label>
+          <select
+            id="sso-default-group"
+            value={sso.defaultGroupId ?? ""}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...sso, defaultGroupId: e.target.value || null })}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">No group</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!isAdmin && <p className="text-xs text-muted-foreground">Only admins can change this.</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,181 @@
+// ============================================================
+// Sessions Panel
+// ============================================================
+// Lists where an account is signed in: device, browser, IP,
+// sign-in and last-active times, with the current session marked.
+//   - <SessionsPanel />: the signed-in user's own sessions
+//     (Settings → Account), with "Sign out all other devices"
+//   - <SessionsPanel userId={id} />: another user's sessions for
+//     admins (Team → Users record page), with "Revoke all"
+// The current session is never revoked from here; use Sign out.
+// ============================================================
+
+import { useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useQuery } from "@/hooks/useQuery"
+import { api, getErrorMessage } from "@/lib/api"
+import { authClient } from "@/lib/auth-client"
+import { invalidateQueries, optimisticUpdate, sessionsKey } from "@/lib/query-cache"
+import {
+  describeDevice,
+  fetchMySessions,
+  revokeMyOtherSessions,
+  revokeMySession,
+  type SessionRow,
+} from "@/lib/sessions"
+import { LogOut, Monitor, Smartphone } from "lucide-react"
+
+const NO_SESSIONS: SessionRow[] = []
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+}
+
+export function SessionsPanel({ userId }: { userId?: string }) {
+  const { data: currentSession } = authClient.useSession()
+  const currentSessionId = currentSession?.session.id
+  const key = sessionsKey(userId)
+
+  const fetchSessions = useCallback(
+    (signal: AbortSignal): Promise<SessionRow[]> =>
+      userId ? api.users.sessions(userId, signal) : fetchMySessions(signal),
+    [userId]
+  )
+  const sessionsQuery = useQuery(key, fetchSessions)
+  const sessions = sessionsQuery.data ?? NO_SESSIONS
+  // Most recently active first, the current device on top
+  const rows = [...sessions].sort(
+    (a, b) =>
+      Number(b.id === currentSessionId) - Number(a.id === currentSessionId) ||
+      b.updatedAt.localeCompare(a.updatedAt)
+  )
+  const hasOtherSessions = sessions.some((s) => s.id !== currentSessionId)
+
+  // -- Revoke one session --
+  const handleRevoke = async (session: SessionRow) => {
+    const rollback = optimisticUpdate<SessionRow[]>(key, (prev) =>
+      prev.filter((s) => s.id !== session.id)
+    )
+
+    try {
+      if (userId) {
+        await api.users.revokeSession(userId, session.id)
+      } else if (session.token) {
+        await revokeMySession(session.token)
+      }
+      invalidateQueries(key)
+    } catch (err) {
+      rollback()
+      alert(getErrorMessage(err, "Failed to revoke session"))
+    }
+  }
+
+  // -- Revoke every session but the current one --
+  const handleRevokeOthers = async () => {
+    const message = userId
+      ? "Sign this user out on every device?"
+      : "Sign out on all other devices? You stay signed in here."
+    if (!confirm(message)) return
+
+    const rollback = optimisticUpdate<SessionRow[]>(key, (prev) =>
+      prev.filter((s) => s.id === currentSessionId)
+    )
+
+    try {
+      if (userId) {
+        await api.users.revokeAllSessions(userId)
+      } else {
+        await revokeMyOtherSessions()
+      }
+      invalidateQueries(key)
+    } catch (err) {
+      rollback()
+      alert(getErrorMessage(err, "Failed to revoke sessions"))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg">Sessions</CardTitle>
+            <CardDescription>
+              {userId
+                ? "Devices this user is signed in on. Revoking a session signs that device out."
+                : "Devices you are signed in on. Revoke any session you don't recognize."}
+            </CardDescription>
+          </div>
+          {hasOtherSessions && (
+            <Button variant="outline" size="sm" className="shrink-0" onClick={handleRevokeOthers}>
+              <LogOut className="h-4 w-4 mr-2" />
+              {userId ? "Revoke all" : "Sign out all other devices"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sessionsQuery.isLoading ? (
+          <>
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </>
+        ) : !sessionsQuery.data ? (
+          <div className="rounded-lg border border-destructive/50 p-4 text-destructive">
+            <p className="text-sm">{getErrorMessage(sessionsQuery.error)}</p>
+            <Button variant="outline" size="sm" className="mt-2" onClick={sessionsQuery.refetch}>
+              Retry
+            </Button>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Not signed in anywhere.</p>
+        ) : (
+          rows.map((session) => {
+            const device = describeDevice(session.userAgent)
+            const isCurrent = session.id === currentSessionId
+            const DeviceIcon = device.isMobile ? Smartphone : Monitor
+
+            return (
+              <div key={session.id} className="flex items-center justify-between gap-3 rounded-lg border px-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-muted">
+                    <DeviceIcon className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm truncate">
+                        {device.browser} on {device.os}
+                      </p>
+                      {isCurrent && (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                          This device
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {session.ipAddress ?? "Unknown IP"} · Signed in {formatDateTime(session.createdAt)}
+                      {" · "}Last active {formatDateTime(session.updatedAt)}
+                    </p>
+                  </div>
+                </div>
+                {!isCurrent && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="shrink-0 text-destructive hover:text-destructive"
+                    onClick={() => handleRevoke(session)}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
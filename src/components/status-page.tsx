@@ -0,0 +1,99 @@
+import type React from "react"
+import { ConstructionIcon, FileQuestionIcon, ShieldAlertIcon, ShieldXIcon } from "lucide-react"
+import { useTranslation } from "react-i18next"
+
+import { Link } from "@/components/link"
+import { Button } from "@/components/ui/button"
+import { ACCOUNT_SETTINGS_KEY, DASHBOARD_PATH, routePath } from "@/lib/routes"
+
+type StatusPageProps = {
+  icon: React.ReactNode
+  code?: string
+  title: string
+  description: string
+  homeHref?: string
+  /** Label of the homeHref button (defaults to "Go back") */
+  homeLabel?: string
+}
+
+function StatusPage({ icon, code, title, description, homeHref, homeLabel }: StatusPageProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex flex-1 flex-col items-center justify-center gap-3 py-16 text-center">
+      <div className="flex h-14 w-14 items-center justify-center rounded-full bg-muted text-muted-foreground">
+        {icon}
+      </div>
+      {code && (
+        <p className="font-mono text-muted-foreground text-sm">{code}</p>
+      )}
+      <h2 className="font-semibold text-xl">{title}</h2>
+      <p className="max-w-md text-muted-foreground text-sm">{description}</p>
+      {homeHref && (
+        <Button
+          variant="outline"
+          className="mt-2"
+          nativeButton={false}
+          render={<Link href={homeHref} />}
+        >
+          {homeLabel ?? t("status.go_back")}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function NotFoundPage({ homeHref = DASHBOARD_PATH }: { homeHref?: string }) {
+  const { t } = useTranslation()
+
+  return (
+    <StatusPage
+      icon={<FileQuestionIcon className="h-6 w-6" />}
+      code="404"
+      title={t("status.not_found_title")}
+      description={t("status.not_found_desc")}
+      homeHref={homeHref}
+    />
+  )
+}
+
+export function ForbiddenPage() {
+  const { t } = useTranslation()
+
+  return (
+    <StatusPage
+      icon={<ShieldXIcon className="h-6 w-6" />}
+      code="403"
+      title={t("status.forbidden_title")}
+      description={t("status.forbidden_desc")}
+      homeHref={DASHBOARD_PATH}
+    />
+  )
+}
+
+export function ComingSoonPage({ title }: { title: string }) {
+  const { t } = useTranslation()
+
+  return (
+    <StatusPage
+      icon={<ConstructionIcon className="h-6 w-6" />}
+      title={title}
+      description={t("status.coming_soon_desc")}
+    />
+  )
+}
+
+/** Shown instead of every page but Settings › Account while an admin must enroll in 2FA */
+export function TwoFactorRequiredPage() {
+  const { t } = useTranslation()
+
+  return (
+    <StatusPage
+      icon={<ShieldAlertIcon className="h-6 w-6" />}
+      title={t("status.two_factor_required_title")}
+      description={t("status.two_factor_required_desc")}
+      homeHref={routePath(ACCOUNT_SETTINGS_KEY)}
+      homeLabel={t("status.two_factor_set_up")}
+    />
+  )
+}
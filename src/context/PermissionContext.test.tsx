@@ -0,0 +1,184 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import { useEffect } from "react";
+import { describe, expect, it } from "vitest";
+import { PermissionProvider, type PermissionContextValue, type PermissionsData } from "@/context/PermissionContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { GroupData } from "@/lib/api";
+import { mockRequest, signInAs } from "@/test/mock-api";
+
+// Exposes the context to the test once permissions are loaded
+function renderPermissions(props: { userId?: string; data?: PermissionsData } = {}) {
+  const current: { value: PermissionContextValue | null } = { value: null };
+
+  function Probe() {
+    const value = usePermissions();
+    useEffect(() => {
+      current.value = value;
+    });
+    return <p>{value.isLoading ? "loading" : `loaded:${value.data?.groupName ?? "none"}`}</p>;
+  }
+
+  const view = render(
+    <PermissionProvider {...props}>
+      <Probe />
+    </PermissionProvider>
+  );
+  const context = () => {
+    if (!current.value) throw new Error("PermissionProvider did not render");
+    return current.value;
+  };
+  return { ...view, context };
+}
+
+async function loaded(view: ReturnType<typeof renderPermissions>) {
+  await screen.findByText(/^loaded:/);
+  return view.context();
+}
+
+describe("PermissionProvider", () => {
+  it("gives an admin every menu and every verb the submenu declares", async () => {
+    await signInAs("admin@bookito.test", "admin123");
+    const { isAdmin, hasMenuAccess, getPermissions } = await loaded(renderPermissions());
+
+    expect(isAdmin).toBe(true);
+    expect(hasMenuAccess("Settings")).toBe(true);
+    expect(hasMenuAccess("Team", "Groups")).toBe(true);
+    expect(getPermissions("Invoices", "Invoice List")).toEqual({
+      view: true,
+      add: true,
+      change: true,
+      delete: true,
+      export: true,
+      approve: true,
+      void: true,
+    });
+    // Create Invoice declares only view and add
+    expect(getPermissions("Invoices", "Create Invoice")).toMatchObject({ add: true, delete: false, export: false });
+  });
+
+  it("limits a group member to the group's menus and verbs", async () => {
+    await signInAs("manager@bookito.test", "manager123");
+    const { isAdmin, hasMenuAccess, getPermissions } = await loaded(renderPermissions());
+
+    expect(isAdmin).toBe(false);
+    expect(hasMenuAccess("Subscriptions")).toBe(true);
+    expect(hasMenuAccess("Subscriptions", "Plans")).toBe(true);
+    expect(hasMenuAccess("Team", "Groups")).toBe(false);
+    expect(hasMenuAccess("Settings")).toBe(false);
+    expect(hasMenuAccess("No such menu")).toBe(false);
+
+    expect(getPermissions("Subscriptions", "Plans")).toMatchObject({
+      view: true,
+      add: true,
+      change: true,
+      delete: true,
+    });
+    expect(getPermissions("Invoices", "Invoice List")).toMatchObject({
+      view: true,
+      add: true,
+      change: true,
+      delete: false,
+      export: true,
+      approve: true,
+      void: false,
+    });
+    expect(getPermissions("Team", "Groups")).toMatchObject({ view: false, add: false });
+  });
+
+  it("gives a read-only group view and nothing else", async () => {
+    await signInAs("viewer@bookito.test", "viewer123");
+    const { hasMenuAccess, getPermissions } = await loaded(renderPermissions());
+
+    expect(hasMenuAccess("Subscriptions", "Plans")).toBe(true);
+    expect(hasMenuAccess("Subscriptions", "Active Subscriptions")).toBe(false);
+    expect(getPermissions("Subscriptions", "Plans")).toMatchObject({
+      view: true,
+      add: false,
+      change: false,
+      delete: false,
+    });
+  });
+
+  it("grants nothing when signed out", async () => {
+    const { isAdmin, data, hasMenuAccess, getPermissions } = await loaded(renderPermissions());
+
+    expect(data).toBeNull();
+    expect(isAdmin).toBe(false);
+    expect(hasMenuAccess("Dashboard")).toBe(false);
+    expect(getPermissions("Subscriptions", "Plans").view).toBe(false);
+  });
+
+  it("ignores verbs the backend grants but the submenu does not declare", async () => {
+    const { getPermissions } = await loaded(
+      renderPermissions({
+        data: {
+          role: "user",
+          groupName: "Injected",
+          groupId: null,
+          menus: [
+            {
+              main_menu: "Invoices",
+              sub_menu: [
+                {
+                  menu_name: "Create Invoice",
+                  url: "create-invoice",
+                  permissions: { view: true, add: true, delete: true, void: true },
+                },
+              ],
+            },
+          ],
+        },
+      })
+    );
+
+    expect(getPermissions("Invoices", "Create Invoice")).toMatchObject({ view: true, add: true, delete: false, void: false });
+  });
+
+  it("treats a listed submenu without a view flag as visible (older backends)", async () => {
+    const { hasMenuAccess, getPermissions } = await loaded(
+      renderPermissions({
+        data: {
+          role: "user",
+          groupName: "Legacy",
+          groupId: null,
+          menus: [
+            {
+              main_menu: "Subscriptions",
+              sub_menu: [
+                { menu_name: "Plans", url: "subscription-plans", permissions: { change: true } },
+                { menu_name: "Active Subscriptions", url: "active-subscriptions", permissions: { view: false } },
+              ],
+            },
+          ],
+        },
+      })
+    );
+
+    expect(hasMenuAccess("Subscriptions", "Plans")).toBe(true);
+    expect(hasMenuAccess("Subscriptions", "Active Subscriptions")).toBe(false);
+    expect(getPermissions("Subscriptions", "Plans")).toMatchObject({ view: true, add: false, change: true });
+  });
+
+  it("picks up a change to the member's group without a reload", async () => {
+    await signInAs("manager@bookito.test", "manager123");
+    const view = renderPermissions({ userId: "usr_manager" });
+    expect((await loaded(view)).getPermissions("Subscriptions", "Plans").delete).toBe(true);
+
+    // An admin takes "delete" away from Managers
+    await signInAs("admin@bookito.test", "admin123");
+    const { body } = await mockRequest<{ data: GroupData[] }>("GET", "/api/groups");
+    const managers = body.data.find((group) => group.id === "grp_managers")!;
+    const { status } = await mockRequest("PUT", "/api/groups/grp_managers", {
+      name: managers.name,
+      description: managers.description ?? undefined,
+      permissions: managers.permissions.map((row) =>
+        row.subMenu === "Plans" ? { ...row, verbs: row.verbs.filter((verb) => verb !== "delete") } : row
+      ),
+    });
+    expect(status).toBe(200);
+    await signInAs("manager@bookito.test", "manager123");
+
+    await waitFor(() => expect(view.context().getPermissions("Subscriptions", "Plans").delete).toBe(false));
+    expect(view.context().getPermissions("Subscriptions", "Plans").change).toBe(true);
+  });
+});
@@ -4,29 +4,42 @@
 // Provides RBAC data (role, menus, permissions) to the entire
 // app via React Context. Fetches /api/me/permissions after
 // login and makes it available via usePermissions() hook.
+// Reloads when the signed-in identity changes, e.g. when an
+// admin starts or stops impersonating a user, and whenever the
+// backend reports a change (lib/permission-sync); every tab of the
+// user then gets the new permissions.
+// Given `data`, it uses those permissions instead of fetching
+// ("Preview as group" in Team → Groups).
 //
 // Key helpers:
 //   - isAdmin: boolean
 //   - hasMenuAccess(mainMenu, subMenu): can user see this menu?
-//   - getPermissions(mainMenu, subMenu): { add, change, delete }
+//     (needs the "view" verb; a listed submenu without a "view"
+//     key, from an older backend, counts as visible)
+//   - getPermissions(mainMenu, subMenu): { view, add, change,
+//     delete, export, approve, void } — verbs the submenu does not
+//     declare in menu-config are always false (lib/permission-verbs)
 // ============================================================
 
 import { createContext, useCallback, useEffect, useState, type ReactNode } from "react";
+import { api, isAbortError } from "@/lib/api";
+import { openPermissionChannel, watchPermissionChanges } from "@/lib/permission-sync";
+import { findSubmenu, PERMISSION_VERBS, submenuVerbs, type PermissionVerb } from "@/lib/permission-verbs";
 
 // -- Types --
 
-/** Permission flags for a single submenu */
-export type SubMenuPermissions = {
-  add: boolean;
-  change: boolean;
-  delete: boolean;
-};
+/** Permission flags for a single submenu, one per verb */
+export type SubMenuPermissions = Record<PermissionVerb, boolean>;
+
+/** One permission flag, e.g. "delete" (used by useCan / <Can>) */
+export type PermissionAction = PermissionVerb;
 
 /** A submenu item with its permissions */
 export type SubMenuItem = {
   menu_name: string;
   url: string;
-  permissions: SubMenuPermissions;
+  /** The backend lists the submenu's declared verbs; missing ones are false */
+  permissions: Partial<SubMenuPermissions>;
 };
 
 /** A main menu group containing submenus */
@@ -59,8 +72,20 @@ export type PermissionContextValue = {
   refetch: () => void;
 };
 
+function toPermissions(allowed: (verb: PermissionVerb) => boolean): SubMenuPermissions {
+  return Object.fromEntries(PERMISSION_VERBS.map((verb) => [verb, allowed(verb)])) as SubMenuPermissions;
+}
+
+/**
+ * Whether a listed submenu is visible. Backends from before per-verb
+ * permissions send no "view" key and only list visible submenus.
+ */
+function isVisible(entry: SubMenuItem): boolean {
+  return entry.permissions.view ?? true;
+}
+
 // Default "no permission" object
-const NO_PERMISSIONS: SubMenuPermissions = { add: false, change: false, delete: false };
+const NO_PERMISSIONS = toPermissions(() => false);
 
 // -- Context --
 
@@ -75,38 +100,92 @@ export const PermissionContext = createContext<PermissionContextValue>({
 
 // -- Provider Component --
 
-const API_BASE = import.meta.env.VITE_API_URL || "";
-
-export function PermissionProvider({ children }: { children: ReactNode }) {
-  const [data, setData] = useState<PermissionsData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Fetch permissions from backend
-  const fetchPermissions = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const res = await fetch(`${API_BASE}/api/me/permissions`, {
-        credentials: "include",
-      });
-
-      if (res.ok) {
-        const json = await res.json();
-        setData(json);
-      } else {
-        // User might not be authenticated
-        setData(null);
-      }
-    } catch {
-      setData(null);
-    } finally {
-      setIsLoading(false);
-    }
+// Keep the current object when nothing changed, so consumers do not re-render
+function keepIfEqual(next: PermissionsData) {
+  return (prev: PermissionsData | null) => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+}
+
+// Fetch permissions from backend; null when the user is not authenticated
+function fetchPermissions(signal?: AbortSignal): Promise<PermissionsData | null> {
+  return api.permissions.me(signal).catch((err) => {
+    if (isAbortError(err)) throw err;
+    return null;
+  });
+}
+
+export function PermissionProvider({
+  userId,
+  data: injectedData,
+  children,
+}: {
+  /** Signed-in user; permissions are reloaded when it changes */
+  userId?: string;
+  /** Permissions to provide instead of the fetched ones (nothing is fetched) */
+  data?: PermissionsData;
+  children: ReactNode;
+}) {
+  const [fetchedData, setFetchedData] = useState<PermissionsData | null>(null);
+  const [isFetching, setIsFetching] = useState(!injectedData);
+  const isInjected = !!injectedData;
+  const data = injectedData ?? fetchedData;
+  const isLoading = !isInjected && isFetching;
+
+  // Another identity: never show the previous user's menus meanwhile
+  const [loadedUserId, setLoadedUserId] = useState(userId);
+  if (userId !== loadedUserId) {
+    setLoadedUserId(userId);
+    setFetchedData(null);
+    setIsFetching(true);
+  }
+
+  const loadPermissions = useCallback((signal?: AbortSignal) => {
+    fetchPermissions(signal).then(
+      (json) => {
+        setFetchedData(json);
+        setIsFetching(false);
+      },
+      () => {} // Aborted: a newer load (or unmount) took over
+    );
   }, []);
 
-  // Fetch on mount
+  // Fetch on mount and for each new identity
+  useEffect(() => {
+    if (isInjected) return;
+    const controller = new AbortController();
+    loadPermissions(controller.signal);
+    return () => controller.abort();
+  }, [loadPermissions, userId, isInjected]);
+
+  // Live updates: revalidate on pushed changes (or focus) and share the result with other tabs
   useEffect(() => {
-    fetchPermissions();
-  }, [fetchPermissions]);
+    if (isInjected || !userId) return;
+
+    let isActive = true;
+    const channel = openPermissionChannel(userId, (shared) => setFetchedData(keepIfEqual(shared)));
+    const stopWatching = watchPermissionChanges(() => {
+      fetchPermissions().then(
+        (json) => {
+          // Signed out or another identity meanwhile; the session check takes over
+          if (!json || !isActive) return;
+          setFetchedData(keepIfEqual(json));
+          channel.publish(json);
+        },
+        () => {}
+      );
+    });
+
+    return () => {
+      isActive = false;
+      stopWatching();
+      channel.close();
+    };
+  }, [userId, isInjected]);
+
+  const refetch = useCallback(() => {
+    if (isInjected) return;
+    setIsFetching(true);
+    loadPermissions();
+  }, [loadPermissions, isInjected]);
 
   // -- Helper: is admin? --
   const isAdmin = data?.role === "admin";
@@ -121,9 +200,9 @@ export function PermissionProvider({ children }: { children: ReactNode }) {
       if (!mainEntry) return false;
 
       // If no submenu specified, check if any submenu is accessible
-      if (!subMenu) return mainEntry.sub_menu.length > 0;
+      if (!subMenu) return mainEntry.sub_menu.some(isVisible);
 
-      return mainEntry.sub_menu.some((s) => s.menu_name === subMenu);
+      return mainEntry.sub_menu.some((s) => s.menu_name === subMenu && isVisible(s));
     },
     [data, isAdmin]
   );
@@ -132,13 +211,19 @@ export function PermissionProvider({ children }: { children: ReactNode }) {
   const getPermissions = useCallback(
     (mainMenu: string, subMenu: string): SubMenuPermissions => {
       if (!data) return NO_PERMISSIONS;
-      if (isAdmin) return { add: true, change: true, delete: true };
-
-      const mainEntry = data.menus.find((m) => m.main_menu === mainMenu);
-      if (!mainEntry) return NO_PERMISSIONS;
-
-      const subEntry = mainEntry.sub_menu.find((s) => s.menu_name === subMenu);
-      return subEntry?.permissions ?? NO_PERMISSIONS;
+      const sub = findSubmenu(mainMenu, subMenu);
+      if (!sub) return NO_PERMISSIONS;
+      const declared = submenuVerbs(sub);
+      if (isAdmin) return toPermissions((verb) => declared.includes(verb));
+
+      const subEntry = data.menus
+        .find((m) => m.main_menu === mainMenu)
+        ?.sub_menu.find((s) => s.menu_name === subMenu);
+      // Nothing applies to a submenu the user cannot see
+      if (!subEntry || !isVisible(subEntry)) return NO_PERMISSIONS;
+      return toPermissions(
+        (verb) => declared.includes(verb) && (verb === "view" || subEntry.permissions[verb] === true)
+      );
     },
     [data, isAdmin]
   );
@@ -151,7 +236,7 @@ export function PermissionProvider({ children }: { children: ReactNode }) {
         isAdmin,
         hasMenuAccess,
         getPermissions,
-        refetch: fetchPermissions,
+        refetch,
       }}
     >
       {children}
@@ -0,0 +1,17 @@
+// ============================================================
+// useCan Hook
+// ============================================================
+// Checks a single permission verb (see menu-config) for a submenu.
+// Usage:
+//   const canDelete = useCan("Subscriptions", "Plans", "delete");
+//   <Button disabled={!canDelete}>Delete</Button>
+// For declarative checks in JSX, see components/can.tsx.
+// ============================================================
+
+import type { PermissionAction } from "@/context/PermissionContext";
+import { usePermissions } from "@/hooks/usePermissions";
+
+export function useCan(mainMenu: string, subMenu: string, action: PermissionAction): boolean {
+  const { getPermissions } = usePermissions();
+  return getPermissions(mainMenu, subMenu)[action];
+}
@@ -0,0 +1,82 @@
+// ============================================================
+// useIdleTimeout Hook
+// ============================================================
+// Signs the user out after `timeoutMinutes` without pointer or
+// keyboard activity in any tab, with a countdown before it does.
+// Usage:
+//   const { secondsLeft, stayActive } = useIdleTimeout(15, onSignOut);
+//   // secondsLeft: null, or seconds until sign-out while warning
+//
+// A timeout of 0 turns it off. Activity is shared across tabs
+// through lib/idle-activity.ts.
+// ============================================================
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getLastActivity, recordActivity, trackActivity } from "@/lib/idle-activity";
+
+/** How long the warning counts down before signing out */
+const WARNING_MS = 60_000;
+
+export type IdleTimeoutState = {
+  /** Seconds until sign-out while the warning is shown, otherwise null */
+  secondsLeft: number | null;
+  /** "Stay signed in": counts as activity in every tab */
+  stayActive: () => void;
+};
+
+export function useIdleTimeout(timeoutMinutes: number, onTimeout: () => void): IdleTimeoutState {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const isWarningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    if (timeoutMinutes <= 0) return;
+
+    const timeoutMs = timeoutMinutes * 60_000;
+    // Short timeouts still leave most of the time without a warning
+    const warningMs = Math.min(WARNING_MS, timeoutMs / 2);
+    let hasTimedOut = false;
+
+    // Opening the dashboard (signing in, reloading) is activity too
+    recordActivity(true);
+    const stopTracking = trackActivity(() => isWarningRef.current);
+
+    const tick = () => {
+      const remaining = timeoutMs - (Date.now() - getLastActivity());
+
+      if (remaining <= 0) {
+        isWarningRef.current = false;
+        setSecondsLeft(null);
+        if (!hasTimedOut) {
+          hasTimedOut = true;
+          onTimeoutRef.current();
+        }
+        return;
+      }
+
+      // Active again (here or in another tab), e.g. after a failed sign-out
+      hasTimedOut = false;
+      isWarningRef.current = remaining <= warningMs;
+      setSecondsLeft(isWarningRef.current ? Math.ceil(remaining / 1000) : null);
+    };
+
+    const timer = setInterval(tick, 1000);
+    return () => {
+      clearInterval(timer);
+      stopTracking();
+      isWarningRef.current = false;
+    };
+  }, [timeoutMinutes]);
+
+  const stayActive = useCallback(() => {
+    recordActivity(true);
+    isWarningRef.current = false;
+    setSecondsLeft(null);
+  }, []);
+
+  return { secondsLeft: timeoutMinutes > 0 ? secondsLeft : null, stayActive };
+}
@@ -0,0 +1,22 @@
+// ============================================================
+// usePasswordPolicy Hook
+// ============================================================
+// The password policy from Settings › General, for checking new
+// passwords as they are typed. Works without a session (auth page).
+// Usage:
+//   const policy = usePasswordPolicy();
+//   isPasswordValid(password, policy)
+//
+// Falls back to DEFAULT_PASSWORD_POLICY until it has loaded; the
+// backend checks the real policy again on submit.
+// ============================================================
+
+import { useQuery } from "@/hooks/useQuery";
+import { api, type PasswordPolicy } from "@/lib/api";
+import { DEFAULT_PASSWORD_POLICY } from "@/lib/password-policy";
+import { queryKeys } from "@/lib/query-cache";
+
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useQuery(queryKeys.passwordPolicy, api.settings.passwordPolicy);
+  return data ?? DEFAULT_PASSWORD_POLICY;
+}
@@ -6,6 +6,7 @@
 //   const { isAdmin, hasMenuAccess, getPermissions } = usePermissions();
 //   if (hasMenuAccess("Dashboard")) { ... }
 //   const { add, change, delete: canDelete } = getPermissions("Booking", "New Booking");
+//   const { export: canExport, void: canVoid } = getPermissions("Invoices", "Invoice List");
 // ============================================================
 
 import { useContext } from "react";
@@ -0,0 +1,78 @@
+// ============================================================
+// useQuery Hook
+// ============================================================
+// Reads a query-cache entry and keeps it fresh:
+//   - Cached data is returned immediately (even when stale)
+//   - A background refetch starts when the entry is stale
+//   - isLoading is only true while there is nothing to show yet,
+//     so revalidating never swaps a table back to its skeleton
+//
+// Usage:
+//   const { data, error, isLoading, refetch } =
+//     useQuery(queryKeys.groups, api.groups.list);
+// ============================================================
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  isQueryStale,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryKey,
+} from "@/lib/query-cache";
+
+export type UseQueryOptions = {
+  /** How long (ms) cached data counts as fresh */
+  staleTime?: number;
+  /** Set to false to skip fetching, e.g. for data only some roles may read */
+  enabled?: boolean;
+};
+
+export type UseQueryResult<T> = {
+  data: T | undefined;
+  error: unknown;
+  /** No data yet and a request is (about to be) in flight */
+  isLoading: boolean;
+  /** Any request for this key is in flight, including background ones */
+  isFetching: boolean;
+  /** Force a refetch, e.g. from a "Retry" button */
+  refetch: () => Promise<T | undefined>;
+};
+
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME, enabled = true }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  // Keys are small literal arrays; compare by value, not identity
+  const hash = JSON.stringify(key);
+
+  const subscribe = useCallback(
+    (listener: () => void) => subscribeQuery(JSON.parse(hash), listener),
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(JSON.parse(hash)));
+
+  // Revalidate on mount / key change when the cached entry is stale
+  useEffect(() => {
+    const queryKey: QueryKey = JSON.parse(hash);
+    if (enabled && isQueryStale(queryKey, staleTime)) {
+      fetchQuery(queryKey, fetcher).catch(() => {});
+    }
+  }, [hash, fetcher, staleTime, enabled]);
+
+  const refetch = useCallback(
+    () => fetchQuery(JSON.parse(hash), fetcher, { force: true }).catch(() => undefined),
+    [hash, fetcher]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && (state.isFetching || state.error === null),
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
@@ -0,0 +1,23 @@
+// ============================================================
+// useRecordCrumb Hook
+// ============================================================
+// Names the record crumb of the current record route, e.g.
+//   useRecordCrumb(recordUser?.name ?? null);
+// shows "Team › Users › Jane Doe" instead of the raw id.
+// ============================================================
+
+import { useEffect } from "react";
+import { getRecordCrumb, setRecordCrumb } from "@/lib/breadcrumbs";
+import { normalizePath, useLocation } from "@/lib/router";
+
+export function useRecordCrumb(label: string | null | undefined) {
+  const path = normalizePath(useLocation().pathname);
+
+  useEffect(() => {
+    if (!label) return;
+    setRecordCrumb({ path, label });
+    return () => {
+      if (getRecordCrumb()?.path === path) setRecordCrumb(null);
+    };
+  }, [label, path]);
+}
@@ -0,0 +1,30 @@
+// ============================================================
+// useRouteAccess Hook
+// ============================================================
+// Decides whether the current user may open a dashboard route.
+// Uses the same hasMenuAccess(mainMenu, subMenu) check as the
+// sidebar, so a page is reachable exactly when its sidebar entry
+// is visible.
+// Usage:
+//   const access = useRouteAccess(match.route);
+//   if (access === "forbidden") return <ForbiddenPage />;
+// ============================================================
+
+import { usePermissions } from "@/hooks/usePermissions";
+
+export type RouteAccess = "loading" | "allowed" | "forbidden";
+
+type GuardedRoute = {
+  mainMenu: string;
+  subMenu: string;
+};
+
+export function useRouteAccess(route: GuardedRoute | null): RouteAccess {
+  const { data, isLoading, hasMenuAccess } = usePermissions();
+
+  // Only block on the first load; a background refetch keeps the page mounted
+  if (isLoading && !data) return "loading";
+  if (!route) return "forbidden";
+
+  return hasMenuAccess(route.mainMenu, route.subMenu) ? "allowed" : "forbidden";
+}
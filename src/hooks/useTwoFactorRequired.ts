@@ -0,0 +1,22 @@
+// ============================================================
+// useTwoFactorRequired Hook
+// ============================================================
+// True when the "require two-factor for admins" policy applies to
+// the signed-in user and they have not enrolled yet. The dashboard
+// then only lets them open Settings › Account to set it up.
+// Usage:
+//   const mustEnroll = useTwoFactorRequired(user.twoFactorEnabled);
+//
+// Only admins read the policy; the backend enforces it as well.
+// ============================================================
+
+import { usePermissions } from "@/hooks/usePermissions";
+import { useQuery } from "@/hooks/useQuery";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-cache";
+
+export function useTwoFactorRequired(twoFactorEnabled: boolean | null | undefined): boolean {
+  const { isAdmin } = usePermissions();
+  const { data } = useQuery(queryKeys.securitySettings, api.settings.security, { enabled: isAdmin });
+  return isAdmin && !!data?.requireAdminTwoFactor && !twoFactorEnabled;
+}
@@ -0,0 +1,8 @@
+import { apiRequest } from "@/lib/api/client";
+import type { ChatRequest, ChatResponse } from "@/lib/api/types";
+
+export const aiApi = {
+  chat(input: ChatRequest, signal?: AbortSignal) {
+    return apiRequest<ChatResponse>("/api/ai/chat", { method: "POST", body: input, signal });
+  },
+};
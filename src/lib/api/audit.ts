@@ -0,0 +1,15 @@
+import { apiRequest } from "@/lib/api/client";
+import type { AuditLogEntry, AuditLogQuery, ListResponse } from "@/lib/api/types";
+
+export const auditApi = {
+  /** Newest first (admins only) */
+  async list(query: AuditLogQuery = {}, signal?: AbortSignal): Promise<AuditLogEntry[]> {
+    const params = new URLSearchParams();
+    if (query.targetId) params.set("targetId", query.targetId);
+    if (query.action) params.set("action", query.action);
+    const search = params.size > 0 ? `?${params}` : "";
+
+    const res = await apiRequest<ListResponse<AuditLogEntry>>(`/api/audit-log${search}`, { signal });
+    return res.data;
+  },
+};
@@ -0,0 +1,244 @@
+// ============================================================
+// API Client (core)
+// ============================================================
+// One fetch wrapper for every /api call in the app:
+//   - Same base URL everywhere (VITE_API_URL, else same origin)
+//   - Always sends the better-auth session cookie
+//   - JSON in, JSON out
+//   - Every failure becomes an ApiError with the same shape,
+//     including field-level validation errors
+//   - Honors AbortSignal; idempotent GETs are retried on
+//     network errors and 5xx/408/429 responses
+//   - A 401 (expired session) opens the re-login dialog and the
+//     request is replayed once the user signed in (see reauth.ts)
+//
+// Endpoint helpers live next to this file (users.ts, plans.ts...)
+// and are re-exported from "@/lib/api".
+// ============================================================
+
+import { canReauthenticate, requestReauth } from "@/lib/api/reauth";
+
+export const API_BASE = import.meta.env.VITE_API_URL || "";
+
+// -- Types --
+
+/** Validation messages keyed by field name, e.g. { email: "Already taken" } */
+export type FieldErrors = Record<string, string>;
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RequestOptions = {
+  method?: HttpMethod;
+  /** Serialized as JSON */
+  body?: unknown;
+  /** Query string parameters; undefined values are skipped */
+  query?: Record<string, string | number | boolean | undefined>;
+  signal?: AbortSignal;
+  /** Retries for GET requests (default 2); other methods never retry */
+  retries?: number;
+};
+
+// -- Errors --
+
+/** The one error type thrown by the API client */
+export class ApiError extends Error {
+  /** HTTP status, or 0 when the server could not be reached */
+  readonly status: number;
+  /** Machine-readable code from the backend, if any */
+  readonly code: string | null;
+  /** Per-field validation messages (empty when not a validation error) */
+  readonly fieldErrors: FieldErrors;
+
+  constructor(
+    message: string,
+    status: number,
+    code: string | null = null,
+    fieldErrors: FieldErrors = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+
+  /** Message for a single field, if the backend rejected it */
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field];
+  }
+}
+
+/** True for errors caused by AbortController.abort() */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+/** Human-readable message for any error thrown by the client */
+export function getErrorMessage(err: unknown, fallback = "Unknown error"): string {
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+}
+
+// -- Error body parsing --
+// The backend answers errors in a few shapes:
+//   { message }                                   (route handlers)
+//   { message, errors: [{ path, message }] }      (zod issues)
+//   { message, errors: { field: "msg" } }         (manual checks)
+//   { error: { message, code } }                  (better-auth)
+
+type ErrorBody = {
+  message?: unknown;
+  code?: unknown;
+  error?: unknown;
+  errors?: unknown;
+  fieldErrors?: unknown;
+};
+
+function toFieldErrors(raw: unknown): FieldErrors {
+  const result: FieldErrors = {};
+
+  if (Array.isArray(raw)) {
+    for (const issue of raw) {
+      if (!issue || typeof issue !== "object") continue;
+      const { path, field, message } = issue as { path?: unknown; field?: unknown; message?: unknown };
+      const key = Array.isArray(path) ? path.join(".") : (field ?? path);
+      if (typeof key === "string" && typeof message === "string" && !(key in result)) {
+        result[key] = message;
+      }
+    }
+  } else if (raw && typeof raw === "object") {
+    for (const [key, value] of Object.entries(raw)) {
+      const message = Array.isArray(value) ? value[0] : value;
+      if (typeof message === "string") result[key] = message;
+    }
+  }
+
+  return result;
+}
+
+function toApiError(status: number, statusText: string, body: unknown): ApiError {
+  const data: ErrorBody = body && typeof body === "object" ? (body as ErrorBody) : {};
+  const nested: ErrorBody = data.error && typeof data.error === "object" ? (data.error as ErrorBody) : {};
+
+  const message =
+    (typeof data.message === "string" && data.message) ||
+    (typeof nested.message === "string" && nested.message) ||
+    (typeof data.error === "string" && data.error) ||
+    (typeof body === "string" && body.trim()) ||
+    statusText ||
+    `Request failed (${status})`;
+
+  const code =
+    (typeof data.code === "string" && data.code) ||
+    (typeof nested.code === "string" && nested.code) ||
+    null;
+
+  const fieldErrors = toFieldErrors(data.errors ?? data.fieldErrors);
+
+  return new ApiError(message, status, code, fieldErrors);
+}
+
+// -- Helpers --
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+function buildUrl(path: string, query?: RequestOptions["query"]) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const qs = params.toString();
+  return `${API_BASE}${path}${qs ? `?${qs}` : ""}`;
+}
+
+async function readBody(res: Response): Promise<unknown> {
+  if (res.status === 204) return undefined;
+  const text = await res.text();
+  if (!text) return undefined;
+
+  const isJson = res.headers.get("content-type")?.includes("application/json");
+  if (!isJson) return text;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// -- Request --
+
+/**
+ * Call a backend endpoint and return its parsed JSON body.
+ * Throws ApiError on any failure (or the AbortError on cancel).
+ */
+export async function apiRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  try {
+    return await sendRequest<T>(path, options);
+  } catch (err) {
+    if (!(err instanceof ApiError) || err.status !== 401 || !canReauthenticate()) {
+      throw err;
+    }
+
+    // Session expired: let the user sign in again, then replay once
+    const signedIn = await requestReauth(options.signal);
+    if (!signedIn) throw err;
+    return sendRequest<T>(path, options);
+  }
+}
+
+async function sendRequest<T>(path: string, options: RequestOptions): Promise<T> {
+  const { method = "GET", body, query, signal } = options;
+  const retries = method === "GET" ? (options.retries ?? 2) : 0;
+
+  const init: RequestInit = {
+    method,
+    credentials: "include",
+    signal,
+    headers: body !== undefined ? { "Content-Type": "application/json" } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  };
+
+  for (let attempt = 0; ; attempt += 1) {
+    let res: Response;
+    try {
+      res = await fetch(buildUrl(path, query), init);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      if (attempt < retries) {
+        await wait(300 * 2 ** attempt, signal);
+        continue;
+      }
+      throw new ApiError("Unable to reach server", 0, "NETWORK_ERROR");
+    }
+
+    if (!res.ok && attempt < retries && RETRYABLE_STATUS.has(res.status)) {
+      await wait(300 * 2 ** attempt, signal);
+      continue;
+    }
+
+    const data = await readBody(res);
+    if (!res.ok) {
+      throw toApiError(res.status, res.statusText, data);
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { api, type GroupData, type MenuPermissionData } from "@/lib/api";
+import { serveLegacyGroupFormat, signInAs } from "@/test/mock-api";
+
+const PLANS = { mainMenu: "Subscriptions", subMenu: "Plans", url: "subscription-plans" };
+const INVOICE_LIST = { mainMenu: "Invoices", subMenu: "Invoice List", url: "invoices" };
+
+function verbsOf(group: GroupData | undefined, subMenu: string) {
+  return group?.permissions.find((row) => row.subMenu === subMenu)?.verbs;
+}
+
+async function findGroup(name: string) {
+  return (await api.groups.list()).find((group) => group.name === name);
+}
+
+describe("groupsApi", () => {
+  beforeEach(async () => {
+    await signInAs("admin@bookito.test", "admin123");
+  });
+
+  it("round-trips every verb on the current format", async () => {
+    const permissions: MenuPermissionData[] = [{ ...INVOICE_LIST, verbs: ["view", "change", "export", "void"] }];
+    await api.groups.create({ name: "Accounts", permissions });
+
+    expect(verbsOf(await findGroup("Accounts"), "Invoice List")).toEqual(["view", "change", "export", "void"]);
+  });
+
+  describe("on a backend with the old permission format", () => {
+    let restore: () => void;
+    beforeEach(() => {
+      restore = serveLegacyGroupFormat();
+    });
+    afterEach(() => restore());
+
+    it("reads the old rows as view plus the flagged verbs", async () => {
+      const managers = await findGroup("Managers");
+      expect(verbsOf(managers, "Plans")).toEqual(["view", "add", "change", "delete"]);
+      // Verbs the old format has no flag for are gone
+      expect(verbsOf(managers, "Invoice List")).toEqual(["view", "add", "change"]);
+    });
+
+    it("keeps add, change and delete when creating a group", async () => {
+      await api.groups.create({
+        name: "Front desk",
+        permissions: [
+          { ...PLANS, verbs: ["view", "add", "delete"] },
+          { ...INVOICE_LIST, verbs: ["view"] },
+        ],
+      });
+
+      const group = await findGroup("Front desk");
+      expect(verbsOf(group, "Plans")).toEqual(["view", "add", "delete"]);
+      expect(verbsOf(group, "Invoice List")).toEqual(["view"]);
+    });
+
+    it("keeps them when updating a group", async () => {
+      const viewers = (await findGroup("Viewers"))!;
+      await api.groups.update(viewers.id, {
+        name: viewers.name,
+        description: viewers.description ?? undefined,
+        permissions: viewers.permissions.map((row) =>
+          row.subMenu === "Plans" ? { ...row, verbs: ["view", "change"] } : row
+        ),
+      });
+
+      expect(verbsOf(await findGroup("Viewers"), "Plans")).toEqual(["view", "change"]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { apiRequest } from "@/lib/api/client";
+import type { GroupData, GroupInput, ListResponse, MenuPermissionData } from "@/lib/api/types";
+import { PERMISSION_VERBS, type PermissionVerb } from "@/lib/permission-verbs";
+
+/**
+ * A permission row as a backend sends it: verbs[], or the format
+ * before per-verb permissions, where a row means "visible" and
+ * canAdd / canChange / canDelete flag the actions
+ */
+type RawPermissionRow = Omit<MenuPermissionData, "verbs"> & {
+  verbs?: MenuPermissionData["verbs"];
+  canAdd?: boolean;
+  canChange?: boolean;
+  canDelete?: boolean;
+};
+
+type RawGroup = Omit<GroupData, "permissions"> & { permissions: RawPermissionRow[] };
+
+function toPermissionRow({ verbs, canAdd, canChange, canDelete, ...row }: RawPermissionRow): MenuPermissionData {
+  if (Array.isArray(verbs)) return { ...row, verbs };
+  const granted: Partial<Record<PermissionVerb, boolean>> = {
+    view: true,
+    add: canAdd,
+    change: canChange,
+    delete: canDelete,
+  };
+  return { ...row, verbs: PERMISSION_VERBS.filter((verb) => granted[verb] === true) };
+}
+
+function toGroupData(group: RawGroup): GroupData {
+  return { ...group, permissions: group.permissions.map(toPermissionRow) };
+}
+
+/** Sends both formats, so saving on an older backend keeps the grants */
+function toRawPermissionRow(row: MenuPermissionData): RawPermissionRow {
+  return {
+    ...row,
+    canAdd: row.verbs.includes("add"),
+    canChange: row.verbs.includes("change"),
+    canDelete: row.verbs.includes("delete"),
+  };
+}
+
+function toRawGroupInput(input: GroupInput) {
+  return { ...input, permissions: input.permissions.map(toRawPermissionRow) };
+}
+
+export const groupsApi = {
+  async list(signal?: AbortSignal): Promise<GroupData[]> {
+    const res = await apiRequest<ListResponse<RawGroup>>("/api/groups", { signal });
+    return res.data.map(toGroupData);
+  },
+
+  create(input: GroupInput, signal?: AbortSignal) {
+    return apiRequest<unknown>("/api/groups", { method: "POST", body: toRawGroupInput(input), signal });
+  },
+
+  update(id: string, input: GroupInput, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/groups/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: toRawGroupInput(input),
+      signal,
+    });
+  },
+
+  remove(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/groups/${encodeURIComponent(id)}`, { method: "DELETE", signal });
+  },
+};
@@ -0,0 +1,40 @@
+// ============================================================
+// API Client
+// ============================================================
+// Typed endpoints for the backend. Usage:
+//   import { api, ApiError } from "@/lib/api";
+//   const users = await api.users.list(signal);
+//   try { await api.plans.create(input) }
+//   catch (err) { if (err instanceof ApiError) err.fieldErrors }
+// ============================================================
+
+import { aiApi } from "@/lib/api/ai";
+import { auditApi } from "@/lib/api/audit";
+import { groupsApi } from "@/lib/api/groups";
+import { invitationsApi } from "@/lib/api/invitations";
+import { permissionsApi } from "@/lib/api/permissions";
+import { plansApi } from "@/lib/api/plans";
+import { settingsApi } from "@/lib/api/settings";
+import { usersApi } from "@/lib/api/users";
+
+export const api = {
+  users: usersApi,
+  invitations: invitationsApi,
+  groups: groupsApi,
+  plans: plansApi,
+  permissions: permissionsApi,
+  settings: settingsApi,
+  audit: auditApi,
+  ai: aiApi,
+};
+
+export {
+  API_BASE,
+  ApiError,
+  apiRequest,
+  getErrorMessage,
+  isAbortError,
+  type FieldErrors,
+  type RequestOptions,
+} from "@/lib/api/client";
+export type * from "@/lib/api/types";
@@ -0,0 +1,51 @@
+import { apiRequest } from "@/lib/api/client";
+import type {
+  AcceptInvitationInput,
+  InvitationData,
+  InvitationPreview,
+  InviteUserInput,
+  ListResponse,
+} from "@/lib/api/types";
+
+export const invitationsApi = {
+  /** Invitations not accepted or revoked yet, including expired ones */
+  async list(signal?: AbortSignal): Promise<InvitationData[]> {
+    const res = await apiRequest<ListResponse<InvitationData>>("/api/invitations", { signal });
+    return res.data;
+  },
+
+  /** Emails the invitee a one-time link to /accept-invite */
+  create(input: InviteUserInput, signal?: AbortSignal) {
+    return apiRequest<unknown>("/api/invitations", { method: "POST", body: input, signal });
+  },
+
+  /** Emails a new link; the old one stops working and the expiry restarts */
+  resend(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/invitations/${encodeURIComponent(id)}/resend`, {
+      method: "POST",
+      signal,
+    });
+  },
+
+  revoke(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/invitations/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      signal,
+    });
+  },
+
+  // -- Invitee side (no session) --
+
+  /** Who the link is for; fails when it is unknown, used or expired */
+  preview(token: string, signal?: AbortSignal) {
+    return apiRequest<InvitationPreview>(
+      `/api/invitations/accept?token=${encodeURIComponent(token)}`,
+      { signal }
+    );
+  },
+
+  /** Creates the account with the invitee's own password */
+  accept(input: AcceptInvitationInput, signal?: AbortSignal) {
+    return apiRequest<unknown>("/api/invitations/accept", { method: "POST", body: input, signal });
+  },
+};
@@ -0,0 +1,9 @@
+import { apiRequest } from "@/lib/api/client";
+import type { PermissionsData } from "@/context/PermissionContext";
+
+export const permissionsApi = {
+  /** Role, group and permitted menus of the signed-in user */
+  me(signal?: AbortSignal) {
+    return apiRequest<PermissionsData>("/api/me/permissions", { signal });
+  },
+};
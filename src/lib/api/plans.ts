@@ -0,0 +1,33 @@
+import { apiRequest } from "@/lib/api/client";
+import type { ListResponse, PlanData, PlanInput } from "@/lib/api/types";
+
+export const plansApi = {
+  async list(signal?: AbortSignal): Promise<PlanData[]> {
+    const res = await apiRequest<ListResponse<PlanData>>("/api/plans", { signal });
+    return res.data;
+  },
+
+  create(input: PlanInput, signal?: AbortSignal) {
+    return apiRequest<unknown>("/api/plans", { method: "POST", body: input, signal });
+  },
+
+  update(id: string, input: PlanInput, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/plans/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: input,
+      signal,
+    });
+  },
+
+  remove(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/plans/${encodeURIComponent(id)}`, { method: "DELETE", signal });
+  },
+
+  bulkDelete(ids: string[], signal?: AbortSignal) {
+    return apiRequest<unknown>("/api/plans/bulk-delete", {
+      method: "POST",
+      body: { ids },
+      signal,
+    });
+  },
+};
@@ -0,0 +1,104 @@
+// ============================================================
+// Re-authentication (expired sessions)
+// ============================================================
+// When any /api call answers 401, the client asks the user to
+// sign in again instead of failing:
+//   1. apiRequest() calls requestReauth() and waits
+//   2. <ReauthDialog> (mounted with the dashboard) sees the
+//      pending request and opens over the current page
+//   3. The user signs in -> resolveReauth(true) -> the failed
+//      request is replayed; cancel -> the original 401 is thrown
+//
+// Requests failing at the same time share one dialog. Nothing is
+// unmounted, so half-filled forms survive the whole round trip.
+// ============================================================
+
+// -- State --
+
+export type ReauthState = {
+  /** A request is waiting for the user to sign in again */
+  isPending: boolean;
+};
+
+let state: ReauthState = { isPending: false };
+let pending: Promise<boolean> | null = null;
+let settle: ((success: boolean) => void) | null = null;
+let dialogCount = 0;
+
+const listeners = new Set<() => void>();
+
+function setState(next: ReauthState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function getReauthState(): ReauthState {
+  return state;
+}
+
+export function subscribeReauth(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -- Dialog registration --
+
+/**
+ * Called by <ReauthDialog> on mount. 401s are only intercepted
+ * while a dialog is mounted (i.e. inside the signed-in app), so
+ * calls made from the auth page fail normally.
+ */
+export function registerReauthDialog() {
+  dialogCount += 1;
+  return () => {
+    dialogCount -= 1;
+    if (dialogCount === 0) resolveReauth(false);
+  };
+}
+
+export function canReauthenticate() {
+  return dialogCount > 0;
+}
+
+// -- Request / resolve --
+
+/**
+ * Ask the user to sign in again. Resolves true once they did,
+ * false when they gave up. Aborting `signal` only stops waiting;
+ * the dialog stays open for other requests.
+ */
+export function requestReauth(signal?: AbortSignal): Promise<boolean> {
+  if (!pending) {
+    pending = new Promise<boolean>((resolve) => {
+      settle = resolve;
+    });
+    setState({ isPending: true });
+  }
+
+  if (!signal) return pending;
+
+  const shared = pending;
+  return new Promise<boolean>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.then((success) => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(success);
+    });
+  });
+}
+
+/** Finish the pending re-authentication (true = signed in again) */
+export function resolveReauth(success: boolean) {
+  const resolve = settle;
+  pending = null;
+  settle = null;
+  if (state.isPending) setState({ isPending: false });
+  resolve?.(success);
+}
@@ -0,0 +1,28 @@
+import { apiRequest } from "@/lib/api/client";
+import type { PasswordPolicy, SecuritySettings, SsoProvider } from "@/lib/api/types";
+
+export const settingsApi = {
+  /** Organization-wide security policies */
+  security(signal?: AbortSignal) {
+    return apiRequest<SecuritySettings>("/api/settings/security", { signal });
+  },
+
+  /** Public: the auth page checks new passwords before signing in */
+  passwordPolicy(signal?: AbortSignal) {
+    return apiRequest<PasswordPolicy>("/api/settings/password-policy", { signal });
+  },
+
+  /** Public: single sign-on buttons on the auth page */
+  ssoProviders(signal?: AbortSignal) {
+    return apiRequest<SsoProvider[]>("/api/settings/sso-providers", { signal });
+  },
+
+  /** Admins only */
+  updateSecurity(input: SecuritySettings, signal?: AbortSignal) {
+    return apiRequest<SecuritySettings>("/api/settings/security", {
+      method: "PUT",
+      body: input,
+      signal,
+    });
+  },
+};
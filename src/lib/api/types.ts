@@ -0,0 +1,225 @@
+// ============================================================
+// API Types
+// ============================================================
+// Shapes of the records returned by the backend /api routes.
+// Permission types live with PermissionContext.
+// ============================================================
+
+import type { PermissionVerb } from "@/lib/permission-verbs";
+
+// -- Users --
+
+export type GroupInfo = {
+  id: string;
+  name: string;
+};
+
+export type UserRole = "admin" | "user";
+
+export type UserData = {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  groupId: string | null;
+  group: GroupInfo | null;
+  /** Has the user opened the verification link sent at sign-up? */
+  emailVerified: boolean;
+  /** Suspended (better-auth admin plugin "ban"): cannot sign in */
+  banned: boolean;
+  banReason: string | null;
+  /** When the suspension ends; null = until reactivated */
+  banExpires: string | null;
+  createdAt: string;
+};
+
+export type UpdateUserInput = {
+  name: string;
+  role: UserRole;
+  groupId: string | null;
+};
+
+// -- Invitations --
+
+/** A pending invitation; the account is created when the invitee accepts */
+export type InvitationData = {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  groupId: string | null;
+  group: GroupInfo | null;
+  invitedBy: UserRef;
+  /** "expired" once expiresAt has passed; resending makes it pending again */
+  status: "pending" | "expired";
+  createdAt: string;
+  /** The emailed link stops working after this (resending issues a new one) */
+  expiresAt: string;
+};
+
+export type InviteUserInput = {
+  name: string;
+  email: string;
+  role: UserRole;
+  groupId?: string;
+};
+
+/** What the accept-invite screen shows before the invitee picks a password */
+export type InvitationPreview = {
+  name: string;
+  email: string;
+};
+
+export type AcceptInvitationInput = {
+  token: string;
+  password: string;
+};
+
+// -- Sessions --
+
+/** One signed-in device of a user (a better-auth session, without its token) */
+export type SessionData = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  /** Last time the session was used */
+  updatedAt: string;
+  expiresAt: string;
+};
+
+// -- Groups --
+
+/** One submenu row of a group's permission matrix */
+export type MenuPermissionData = {
+  mainMenu: string;
+  subMenu: string;
+  url: string;
+  /** Granted verbs; always includes "view" (no row = not visible) */
+  verbs: PermissionVerb[];
+};
+
+export type GroupData = {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: MenuPermissionData[];
+  _count: { users: number };
+  createdAt: string;
+};
+
+export type GroupInput = {
+  name: string;
+  description?: string;
+  permissions: MenuPermissionData[];
+};
+
+// -- Plans --
+
+export type UserRef = {
+  id: string;
+  name: string;
+  email: string;
+};
+
+export type PlanData = {
+  id: string;
+  fromRooms: number;
+  toRooms: number;
+  ratePerRoom: number;
+  createdBy: UserRef;
+  updatedBy: UserRef;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PlanInput = {
+  fromRooms: number;
+  toRooms: number;
+  ratePerRoom: number;
+};
+
+// -- Settings --
+
+/** Rules for new passwords (sign-up, reset, invitations, admin-set) */
+export type PasswordPolicy = {
+  /** At least 8 (better-auth's minimum) */
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  /** Reject passwords on the bundled common-password list */
+  blockCommonPasswords: boolean;
+};
+
+/** Shown on the auth page; "google" gets the Google logo, others a generic key */
+export type SsoProviderType = "google" | "oidc";
+
+/** A sign-in provider configured on the backend (better-auth generic-oauth) */
+export type SsoProvider = {
+  /** better-auth providerId, e.g. "google" or "keycloak" */
+  id: string;
+  name: string;
+  type: SsoProviderType;
+};
+
+/** Who may sign in with SSO, and where new SSO accounts land */
+export type SsoSettings = {
+  /** Email domains allowed to sign in with SSO, e.g. "bookito.test" (empty = any) */
+  allowedDomains: string[];
+  /** Group given to accounts created by their first SSO sign-in (null = none) */
+  defaultGroupId: string | null;
+};
+
+export type SecuritySettings = {
+  /** Accounts with role "admin" must enroll in TOTP two-factor before using the dashboard */
+  requireAdminTwoFactor: boolean;
+  /** Minutes without pointer or keyboard activity before signing out, per role (0 = never) */
+  idleTimeoutMinutes: Record<UserRole, number>;
+  passwordPolicy: PasswordPolicy;
+  sso: SsoSettings;
+};
+
+// -- Audit log --
+
+/** Recorded by the backend; "impersonation.*" come from the better-auth admin plugin */
+export type AuditAction = "impersonation.start" | "impersonation.stop";
+
+export type AuditLogEntry = {
+  id: string;
+  action: AuditAction;
+  /** Who did it (the admin) */
+  actor: UserRef;
+  /** Who it was done to */
+  target: UserRef;
+  createdAt: string;
+};
+
+export type AuditLogQuery = {
+  targetId?: string;
+  action?: AuditAction;
+};
+
+// -- AI chat --
+
+export type ChatMessage = {
+  role: "user" | "model";
+  parts: [{ text: string }];
+};
+
+export type ChatRequest = {
+  message: string;
+  history: ChatMessage[];
+};
+
+export type ChatResponse = {
+  response: string;
+};
+
+// -- Envelopes --
+
+/** List endpoints wrap their rows in { data } */
+export type ListResponse<T> = {
+  data: T[];
+};
@@ -0,0 +1,50 @@
+import { apiRequest } from "@/lib/api/client";
+import type {
+  ListResponse,
+  SessionData,
+  UpdateUserInput,
+  UserData,
+} from "@/lib/api/types";
+
+export const usersApi = {
+  async list(signal?: AbortSignal): Promise<UserData[]> {
+    const res = await apiRequest<ListResponse<UserData>>("/api/users", { signal });
+    return res.data;
+  },
+
+  update(id: string, input: UpdateUserInput, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/users/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: input,
+      signal,
+    });
+  },
+
+  remove(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/users/${encodeURIComponent(id)}`, { method: "DELETE", signal });
+  },
+
+  /** Active sessions of a user (admins only) */
+  async sessions(id: string, signal?: AbortSignal): Promise<SessionData[]> {
+    const res = await apiRequest<ListResponse<SessionData>>(
+      `/api/users/${encodeURIComponent(id)}/sessions`,
+      { signal }
+    );
+    return res.data;
+  },
+
+  revokeSession(id: string, sessionId: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(
+      `/api/users/${encodeURIComponent(id)}/sessions/${encodeURIComponent(sessionId)}`,
+      { method: "DELETE", signal }
+    );
+  },
+
+  /** Sign the user out everywhere (except the admin's own current session) */
+  revokeAllSessions(id: string, signal?: AbortSignal) {
+    return apiRequest<unknown>(`/api/users/${encodeURIComponent(id)}/sessions`, {
+      method: "DELETE",
+      signal,
+    });
+  },
+};
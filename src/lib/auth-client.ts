@@ -1,8 +1,22 @@
 import { createAuthClient } from "better-auth/react";
+import { adminClient, genericOAuthClient, twoFactorClient } from "better-auth/client/plugins";
 
 export const authClient = createAuthClient({
   baseURL: import.meta.env.VITE_API_URL || (typeof window !== "undefined" ? window.location.origin : ""),
   fetchOptions: {
     credentials: "include",
   },
+  plugins: [
+    // TOTP second factor; sign-in answers { twoFactorRedirect: true } when it is required
+    twoFactorClient(),
+    // Impersonation ("view as user"); sessions carry impersonatedBy
+    adminClient(),
+    // Single sign-on through the OIDC / OAuth providers configured on the backend
+    genericOAuthClient(),
+  ],
 });
+
+/** Password accepted, but the account has two-factor enabled: no session until the code is verified */
+export function needsSecondFactor(data: unknown): boolean {
+  return !!data && typeof data === "object" && "twoFactorRedirect" in data && !!data.twoFactorRedirect;
+}
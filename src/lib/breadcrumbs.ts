@@ -0,0 +1,92 @@
+// ============================================================
+// Breadcrumbs
+// ============================================================
+// Dashboard breadcrumbs are derived from the matched route, i.e.
+// from ALL_MENU_ITEMS: Main menu › Sub menu › record.
+//   - Main menu links to its first submenu the user may open
+//   - Sub menu links to its list page (when on a record route)
+//   - Record pages name their crumb with useRecordCrumb(label),
+//     e.g. the user's name; the record id is shown until then
+//   - Menu crumbs are labelled by the caller (menuLabel), which
+//     translates the menu-config titles
+// ============================================================
+
+import { normalizePath } from "@/lib/router";
+import { DASHBOARD_ROUTES, type RouteMatch } from "@/lib/routes";
+
+// -- Types --
+
+export type Crumb = {
+  label: string;
+  /** Omitted for the current page */
+  href?: string;
+};
+
+// -- Record crumb store --
+// Pages push the label of the record they show; it only applies
+// while the URL is still that record's path.
+
+export type RecordCrumb = { path: string; label: string };
+
+let recordCrumb: RecordCrumb | null = null;
+const listeners = new Set<() => void>();
+
+export function getRecordCrumb(): RecordCrumb | null {
+  return recordCrumb;
+}
+
+export function subscribeRecordCrumb(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setRecordCrumb(next: RecordCrumb | null) {
+  if (next?.path === recordCrumb?.path && next?.label === recordCrumb?.label) return;
+  recordCrumb = next;
+  listeners.forEach((listener) => listener());
+}
+
+// -- Building --
+
+/** First submenu page of a main menu the user may open */
+function mainMenuPath(
+  mainMenu: string,
+  hasMenuAccess: (mainMenu: string, subMenu?: string) => boolean
+) {
+  const routes = DASHBOARD_ROUTES.filter((r) => r.mainMenu === mainMenu && !r.isDetail);
+  const route = routes.find((r) => hasMenuAccess(r.mainMenu, r.subMenu)) ?? routes[0];
+  return route?.path;
+}
+
+export function buildBreadcrumbs(
+  { route, params }: RouteMatch,
+  pathname: string,
+  hasMenuAccess: (mainMenu: string, subMenu?: string) => boolean,
+  recordCrumb: RecordCrumb | null,
+  menuLabel: (mainMenu: string, subMenu?: string) => string
+): Crumb[] {
+  const crumbs: Crumb[] = [];
+
+  // Main menu
+  crumbs.push({ label: menuLabel(route.mainMenu), href: mainMenuPath(route.mainMenu, hasMenuAccess) });
+
+  // Sub menu
+  crumbs.push({
+    label: menuLabel(route.mainMenu, route.subMenu),
+    href: route.isDetail ? route.path : undefined,
+  });
+
+  // Record
+  if (route.isDetail) {
+    const label = recordCrumb?.path === normalizePath(pathname) ? recordCrumb.label : null;
+    crumbs.push({ label: label ?? params.id ?? "" });
+  }
+
+  // Crumbs pointing at the current page are not links
+  const current = normalizePath(pathname);
+  return crumbs.map((crumb) =>
+    crumb.href && normalizePath(crumb.href) === current ? { label: crumb.label } : crumb
+  );
+}
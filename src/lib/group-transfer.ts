@@ -0,0 +1,348 @@
+// ============================================================
+// Group Transfer
+// ============================================================
+// Export and import of groups (name, description, permissions)
+// between backends, e.g. staging → production, in Team → Groups.
+// Two formats:
+//   - JSON: { version, exportedAt, groups: [{ name, description,
+//     permissions: MenuPermissionData[] }] }
+//   - CSV matrix: one line per group and submenu, a column per
+//     verb; 1 = granted, 0 = not, empty = the submenu has no such
+//     verb. Every submenu is listed, so it can be edited in a
+//     spreadsheet; text that would start a formula is written
+//     with a leading "'".
+// Imports are checked against ALL_MENU_ITEMS (unknown menus,
+// verbs a submenu does not declare, "view" missing) and planned
+// against the existing groups, matched by name, before anything
+// is saved.
+// ============================================================
+
+import type { GroupData, GroupInput, MenuPermissionData } from "@/lib/api";
+import { ALL_MENU_ITEMS } from "@/lib/menu-config";
+import { getVerbs } from "@/lib/permission-matrix";
+import { diffPermissions, type PermissionChange } from "@/lib/permission-preview";
+import { findSubmenu, PERMISSION_VERBS, submenuVerbs, type PermissionVerb } from "@/lib/permission-verbs";
+
+const FORMAT_VERSION = 1;
+
+/** One group as exported */
+export type GroupExport = {
+  name: string;
+  description: string | null;
+  permissions: MenuPermissionData[];
+};
+
+export type GroupsFile = {
+  version: number;
+  exportedAt: string;
+  groups: GroupExport[];
+};
+
+function toExport(group: GroupData): GroupExport {
+  return { name: group.name, description: group.description, permissions: group.permissions };
+}
+
+// -- Export --
+
+export function exportGroupsJson(groups: GroupData[]): string {
+  const file: GroupsFile = {
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    groups: groups.map(toExport),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const CSV_HEADER = ["group", "description", "main_menu", "sub_menu", ...PERMISSION_VERBS];
+
+// Cells a spreadsheet would run as a formula (CSV injection) get a
+// leading "'", which spreadsheets show as text; parseCsv drops it again
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string) {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function exportGroupsCsv(groups: GroupData[]): string {
+  const lines = [CSV_HEADER];
+  groups.forEach((group) => {
+    ALL_MENU_ITEMS.forEach((menu) => {
+      menu.items.forEach((sub) => {
+        const granted = getVerbs(group.permissions, { mainMenu: menu.title, sub });
+        const declared = submenuVerbs(sub);
+        lines.push([
+          group.name,
+          group.description ?? "",
+          menu.title,
+          sub.title,
+          ...PERMISSION_VERBS.map((verb) => (!declared.includes(verb) ? "" : granted.includes(verb) ? "1" : "0")),
+        ]);
+      });
+    });
+  });
+  return lines.map((line) => line.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** File name for an export of `groups` ("groups-<date>" for several) */
+export function exportFileName(groups: GroupData[], extension: "json" | "csv") {
+  const date = new Date().toISOString().slice(0, 10);
+  const base =
+    groups.length === 1
+      ? `group-${groups[0].name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "export"}`
+      : "groups";
+  return `${base}-${date}.${extension}`;
+}
+
+// -- Parsing --
+
+export type ParsedGroups = {
+  groups: GroupExport[];
+  /** Problems found; nothing may be imported while there are any */
+  errors: string[];
+};
+
+/**
+ * Check one group's rows against menu-config; returns the rows
+ * with the menu-config url and verbs in PERMISSION_VERBS order.
+ */
+function checkPermissions(
+  label: string,
+  rows: { mainMenu: unknown; subMenu: unknown; verbs: unknown[] | null }[],
+  errors: string[]
+): MenuPermissionData[] {
+  const checked: MenuPermissionData[] = [];
+
+  rows.forEach(({ mainMenu, subMenu, verbs }) => {
+    const menuName = `${String(mainMenu)} › ${String(subMenu)}`;
+    const sub = findSubmenu(String(mainMenu), String(subMenu));
+    if (!sub) {
+      errors.push(`${label}: unknown menu "${menuName}"`);
+      return;
+    }
+    // E.g. a row in the old canAdd / canChange / canDelete format: not "hidden"
+    if (!verbs) {
+      errors.push(`${label}: ${menuName} needs a verbs list`);
+      return;
+    }
+    const declared = submenuVerbs(sub);
+    const unknown = verbs.filter((verb) => !declared.includes(verb as PermissionVerb));
+    if (unknown.length > 0) {
+      errors.push(`${label}: ${menuName} has no ${unknown.map((v) => `"${String(v)}"`).join(", ")} permission`);
+      return;
+    }
+    if (verbs.length === 0) return; // Hidden
+    if (!verbs.includes("view")) {
+      errors.push(`${label}: ${menuName} needs "view" for any other permission`);
+      return;
+    }
+    if (checked.some((row) => row.mainMenu === String(mainMenu) && row.subMenu === sub.title)) {
+      errors.push(`${label}: ${menuName} is listed twice`);
+      return;
+    }
+    checked.push({
+      mainMenu: String(mainMenu),
+      subMenu: sub.title,
+      url: sub.url,
+      verbs: PERMISSION_VERBS.filter((verb) => verbs.includes(verb)),
+    });
+  });
+
+  return checked;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): ParsedGroups {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { groups: [], errors: ["The file is not valid JSON"] };
+  }
+
+  // A bare array of groups is accepted too
+  const list = Array.isArray(raw) ? raw : isRecord(raw) ? raw.groups : undefined;
+  if (!Array.isArray(list)) {
+    return { groups: [], errors: ['Expected a "groups" list'] };
+  }
+
+  const errors: string[] = [];
+  const groups = list.flatMap((item, i): GroupExport[] => {
+    const label = isRecord(item) && typeof item.name === "string" ? `"${item.name}"` : `Group ${i + 1}`;
+    if (!isRecord(item) || typeof item.name !== "string" || !item.name.trim()) {
+      errors.push(`${label}: a name is required`);
+      return [];
+    }
+    if (item.description != null && typeof item.description !== "string") {
+      errors.push(`${label}: the description must be text`);
+    }
+    if (!Array.isArray(item.permissions)) {
+      errors.push(`${label}: "permissions" must be a list`);
+      return [];
+    }
+    const rows = item.permissions.map((row) =>
+      isRecord(row)
+        ? { mainMenu: row.mainMenu, subMenu: row.subMenu, verbs: Array.isArray(row.verbs) ? row.verbs : null }
+        : { mainMenu: undefined, subMenu: undefined, verbs: null }
+    );
+    return [
+      {
+        name: item.name.trim(),
+        description: typeof item.description === "string" ? item.description.trim() || null : null,
+        permissions: checkPermissions(label, rows, errors),
+      },
+    ];
+  });
+
+  return { groups, errors };
+}
+
+/** RFC 4180 fields: quoted fields may hold commas, quotes ("") and line breaks */
+function parseCsvLines(text: string): string[][] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ",") {
+      line.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i += 1;
+      line.push(field);
+      lines.push(line);
+      line = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || line.length > 0) {
+    line.push(field);
+    lines.push(line);
+  }
+  // Blank lines carry nothing
+  return lines.filter((l) => l.some((cell) => cell.trim()));
+}
+
+type CsvRow = { mainMenu: string; subMenu: string; verbs: PermissionVerb[] };
+type CsvGroup = { name: string; description: string | null; rows: CsvRow[] };
+
+const CSV_TRUE = ["1", "x", "yes", "true"];
+const CSV_FALSE = ["", "0", "no", "false"];
+
+function parseCsv(text: string): ParsedGroups {
+  const [header, ...lines] = parseCsvLines(text);
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+
+  const missing = ["group", "main_menu", "sub_menu"].filter((name) => column(name) === -1);
+  if (missing.length > 0) {
+    return { groups: [], errors: [`Missing CSV column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`] };
+  }
+
+  const errors: string[] = [];
+  const byName = new Map<string, CsvGroup>();
+
+  lines.forEach((cells, i) => {
+    const lineNo = i + 2;
+    const cell = (name: string) => {
+      const raw = column(name) === -1 ? "" : (cells[column(name)] ?? "");
+      return (raw.startsWith("'") && FORMULA_START.test(raw.slice(1)) ? raw.slice(1) : raw).trim();
+    };
+    const name = cell("group");
+    if (!name) {
+      errors.push(`Line ${lineNo}: a group name is required`);
+      return;
+    }
+
+    const verbs: PermissionVerb[] = [];
+    PERMISSION_VERBS.forEach((verb) => {
+      const value = cell(verb).toLowerCase();
+      if (CSV_TRUE.includes(value)) verbs.push(verb);
+      else if (!CSV_FALSE.includes(value)) errors.push(`Line ${lineNo}: "${cell(verb)}" in column ${verb} is not 1 or 0`);
+    });
+
+    const key = name.toLowerCase();
+    const group = byName.get(key) ?? { name, description: null, rows: [] };
+    group.description ??= cell("description") || null;
+    group.rows.push({ mainMenu: cell("main_menu"), subMenu: cell("sub_menu"), verbs });
+    byName.set(key, group);
+  });
+
+  const groups = [...byName.values()].map((group) => ({
+    name: group.name,
+    description: group.description,
+    permissions: checkPermissions(`"${group.name}"`, group.rows, errors),
+  }));
+  return { groups, errors };
+}
+
+/** Read an exported file (JSON or CSV, told apart by its content) */
+export function parseGroupsFile(text: string): ParsedGroups {
+  const content = text.replace(/^\uFEFF/, ""); // Spreadsheet apps add a BOM
+  if (!content.trim()) return { groups: [], errors: ["The file is empty"] };
+  const parsed = /^\s*[[{]/.test(content) ? parseJson(content) : parseCsv(content);
+
+  const seen = new Set<string>();
+  parsed.groups.forEach((group) => {
+    const key = group.name.toLowerCase();
+    if (seen.has(key)) parsed.errors.push(`"${group.name}" appears more than once`);
+    seen.add(key);
+  });
+  if (parsed.groups.length === 0 && parsed.errors.length === 0) {
+    parsed.errors.push("The file has no groups");
+  }
+  return parsed;
+}
+
+// -- Dry run --
+
+export type ImportAction = "create" | "update" | "unchanged";
+
+/** What importing one group would do */
+export type ImportStep = {
+  action: ImportAction;
+  /** Existing group of the same name (case-insensitive), when updating */
+  existing: GroupData | null;
+  input: GroupInput;
+  descriptionChanged: boolean;
+  changes: PermissionChange[];
+};
+
+export function planImport(imported: GroupExport[], existing: GroupData[]): ImportStep[] {
+  return imported.map((group) => {
+    const match = existing.find((g) => g.name.toLowerCase() === group.name.toLowerCase()) ?? null;
+    const changes = diffPermissions(match?.permissions ?? [], group.permissions);
+    const descriptionChanged = (match?.description ?? null) !== group.description;
+    const isChanged = changes.length > 0 || descriptionChanged || (match !== null && match.name !== group.name);
+
+    return {
+      action: !match ? "create" : isChanged ? "update" : "unchanged",
+      existing: match,
+      input: {
+        name: group.name,
+        description: group.description ?? undefined,
+        permissions: group.permissions,
+      },
+      descriptionChanged: match !== null && descriptionChanged,
+      changes,
+    };
+  });
+}
@@ -0,0 +1,69 @@
+// ============================================================
+// Idle Activity
+// ============================================================
+// Time of the user's last pointer or keyboard input, shared by
+// every open tab so working in one tab keeps the others alive:
+//   - trackActivity() listens for input in this tab and stores
+//     the time in localStorage (at most every few seconds)
+//   - Other tabs pick it up from the "storage" event
+//   - hooks/useIdleTimeout.ts reads getLastActivity() to warn
+//     and sign out (timeouts per role: Settings › General)
+// ============================================================
+
+const STORAGE_KEY = "pms-last-activity";
+
+/** Input events fire constantly; share them at most this often */
+const SHARE_INTERVAL_MS = 5_000;
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+let lastActivity = Date.now();
+let lastShared = 0;
+
+export function getLastActivity(): number {
+  return lastActivity;
+}
+
+/**
+ * Marks the user as active now. `share` writes it for the other
+ * tabs right away instead of waiting for the throttle (used by the
+ * "Stay signed in" button, so every tab's warning closes at once).
+ */
+export function recordActivity(share = false) {
+  const now = Date.now();
+  lastActivity = now;
+
+  if (!share && now - lastShared < SHARE_INTERVAL_MS) return;
+  lastShared = now;
+  try {
+    localStorage.setItem(STORAGE_KEY, String(now));
+  } catch {
+    // Storage full or blocked: this tab still tracks its own activity
+  }
+}
+
+/**
+ * Starts listening for input in this tab and for activity from other
+ * tabs. While `isPaused()` is true (the warning is open) input in this
+ * tab is ignored, so only an explicit "Stay signed in" keeps the session.
+ * Returns the cleanup function.
+ */
+export function trackActivity(isPaused: () => boolean) {
+  const onInput = () => {
+    if (!isPaused()) recordActivity();
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    const shared = Number(event.newValue);
+    if (Number.isFinite(shared) && shared > lastActivity) lastActivity = shared;
+  };
+
+  ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, onInput, { passive: true }));
+  window.addEventListener("storage", onStorage);
+
+  return () => {
+    ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, onInput));
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,42 @@
+// ============================================================
+// Impersonation ("view as user")
+// ============================================================
+// Admins can sign in as another user to see the dashboard the way
+// that user does (better-auth admin plugin):
+//   - startImpersonating(userId): the session becomes the user's,
+//     marked with session.impersonatedBy = the admin's id
+//   - stopImpersonating(): back to the admin's own session
+// The backend records every start and stop in the audit log.
+//
+// Cached data belongs to whoever fetched it, so the query cache is
+// dropped on both switches and the session is re-read right away
+// (the admin plugin does not refresh useSession() by itself).
+// ============================================================
+
+import { authClient } from "@/lib/auth-client";
+import { clearQueryCache } from "@/lib/query-cache";
+import { navigate } from "@/lib/router";
+import { DASHBOARD_PATH, recordPath } from "@/lib/routes";
+
+function switchIdentity(landingPath: string) {
+  navigate(landingPath);
+  clearQueryCache();
+  authClient.$store.notify("$sessionSignal");
+}
+
+export async function startImpersonating(userId: string) {
+  const result = await authClient.admin.impersonateUser({ userId });
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to view as this user");
+  }
+  switchIdentity(DASHBOARD_PATH);
+}
+
+/** Lands the admin back on the record of `userId`, the user they were viewing as */
+export async function stopImpersonating(userId: string) {
+  const result = await authClient.admin.stopImpersonating();
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to stop viewing as this user");
+  }
+  switchIdentity(recordPath("team-users", userId));
+}
@@ -4,11 +4,16 @@
 // This is the single source of truth for ALL sidebar menu items.
 // Used by:
 //   - app-sidebar.tsx: to render the dynamic sidebar
+//   - lib/routes.ts: to build the dashboard route tree
 //   - Group management UI: to show the permission matrix
 //   - Backend: also maintains a copy in routes/permissions.ts
 //
 // Each menu has an icon (from @hugeicons) and sub-items.
 // The sidebar filters this list based on user permissions.
+//
+// Permission verbs: each submenu declares what a group can be
+// allowed to do there in `verbs` (default: view/add/change/delete;
+// the verb list itself is in lib/permission-verbs.ts).
 // ============================================================
 
 import { HugeiconsIcon } from "@hugeicons/react";
@@ -25,12 +30,16 @@ import {
   Settings01Icon,
 } from "@hugeicons/core-free-icons";
 import type { ReactNode } from "react";
+import type { PermissionVerb } from "@/lib/permission-verbs";
 
 // -- Types --
 
 export type MenuSubItem = {
-  title: string;     // Display name (matches subMenu in MenuPermission)
-  url: string;       // Route URL
+  title: string;        // Display name (matches subMenu in MenuPermission)
+  url: string;          // Permission key stored by the backend (also the legacy #hash)
+  path: string;         // Route path in the browser address bar
+  hasDetail?: boolean;  // Also route "<path>/:id" to a single record of this page
+  verbs?: readonly PermissionVerb[];  // What groups can be allowed here (default DEFAULT_VERBS)
 };
 
 export type MenuItem = {
@@ -48,79 +57,109 @@ export const ALL_MENU_ITEMS: MenuItem[] = [
     title: "Dashboard",
     icon: <HugeiconsIcon icon={ComputerTerminalIcon} strokeWidth={2} />,
     items: [
-      { title: "Overview", url: "dashboard" },
+      { title: "Overview", url: "dashboard", path: "/dashboard", verbs: ["view"] },
     ],
   },
   {
     title: "Properties",
     icon: <HugeiconsIcon icon={Home05Icon} strokeWidth={2} />,
     items: [
-      { title: "Property List", url: "properties" },
-      { title: "Property Settings", url: "property-settings" },
+      { title: "Property List", url: "properties", path: "/dashboard/properties" },
+      { title: "Property Settings", url: "property-settings", path: "/dashboard/properties/settings" },
     ],
   },
   {
     title: "Subscriptions",
     icon: <HugeiconsIcon icon={MoneyReceive01Icon} strokeWidth={2} />,
     items: [
-      { title: "Plans", url: "subscription-plans" },
-      { title: "Active Subscriptions", url: "active-subscriptions" },
+      { title: "Plans", url: "subscription-plans", path: "/dashboard/subscriptions/plans", hasDetail: true },
+      { title: "Active Subscriptions", url: "active-subscriptions", path: "/dashboard/subscriptions/active" },
     ],
   },
   {
     title: "Invoices",
     icon: <HugeiconsIcon icon={Invoice02Icon} strokeWidth={2} />,
     items: [
-      { title: "Invoice List", url: "invoices" },
-      { title: "Create Invoice", url: "create-invoice" },
+      {
+        title: "Invoice List",
+        url: "invoices",
+        path: "/dashboard/invoices",
+        verbs: ["view", "add", "change", "delete", "export", "approve", "void"],
+      },
+      { title: "Create Invoice", url: "create-invoice", path: "/dashboard/invoices/new", verbs: ["view", "add"] },
     ],
   },
   {
     title: "Payments",
     icon: <HugeiconsIcon icon={MoneyBag02Icon} strokeWidth={2} />,
     items: [
-      { title: "Payment List", url: "payments" },
-      { title: "Payment History", url: "payment-history" },
+      {
+        title: "Payment List",
+        url: "payments",
+        path: "/dashboard/payments",
+        verbs: ["view", "add", "change", "export", "void"],
+      },
+      { title: "Payment History", url: "payment-history", path: "/dashboard/payments/history", verbs: ["view", "export"] },
     ],
   },
   {
     title: "Expenses",
     icon: <HugeiconsIcon icon={MoneyExchange01Icon} strokeWidth={2} />,
     items: [
-      { title: "Expense List", url: "expenses" },
-      { title: "Expense Categories", url: "expense-categories" },
+      {
+        title: "Expense List",
+        url: "expenses",
+        path: "/dashboard/expenses",
+        verbs: ["view", "add", "change", "delete", "export", "approve"],
+      },
+      { title: "Expense Categories", url: "expense-categories", path: "/dashboard/expenses/categories" },
     ],
   },
   {
     title: "Sales",
     icon: <HugeiconsIcon icon={ChartAverageIcon} strokeWidth={2} />,
     items: [
-      { title: "Sales List", url: "sales" },
-      { title: "Sales Reports", url: "sales-reports" },
+      { title: "Sales List", url: "sales", path: "/dashboard/sales" },
+      { title: "Sales Reports", url: "sales-reports", path: "/dashboard/sales/reports", verbs: ["view", "export"] },
     ],
   },
   {
     title: "Reports",
     icon: <HugeiconsIcon icon={PieChartIcon} strokeWidth={2} />,
     items: [
-      { title: "Financial Reports", url: "financial-reports" },
-      { title: "Analytics", url: "analytics" },
+      { title: "Financial Reports", url: "financial-reports", path: "/dashboard/reports/financial", verbs: ["view", "export"] },
+      { title: "Analytics", url: "analytics", path: "/dashboard/reports/analytics", verbs: ["view", "export"] },
     ],
   },
   {
     title: "Team",
     icon: <HugeiconsIcon icon={UserGroup03Icon} strokeWidth={2} />,
     items: [
-      { title: "Users", url: "team-users" },
-      { title: "Groups", url: "team-groups" },
+      { title: "Users", url: "team-users", path: "/dashboard/team/users", hasDetail: true },
+      { title: "Groups", url: "team-groups", path: "/dashboard/team/groups", hasDetail: true },
     ],
   },
   {
     title: "Settings",
     icon: <HugeiconsIcon icon={Settings01Icon} strokeWidth={2} />,
     items: [
-      { title: "General", url: "settings-general" },
-      { title: "Account", url: "settings-account" },
+      { title: "General", url: "settings-general", path: "/dashboard/settings/general", verbs: ["view"] },
+      { title: "Account", url: "settings-account", path: "/dashboard/settings/account", verbs: ["view"] },
     ],
   },
 ];
+
+// -- Translations --
+
+function titleSlug(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+}
+
+/**
+ * i18n key of a menu's display name: "menu.<main>.title" for a main
+ * menu, "menu.<main>.<sub>" for a submenu (see the "menu" section of
+ * public/locales/<lang>/translation.json)
+ */
+export function menuTitleKey(mainMenu: string, subMenu?: string) {
+  return `menu.${titleSlug(mainMenu)}.${subMenu ? titleSlug(subMenu) : "title"}`;
+}
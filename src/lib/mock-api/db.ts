@@ -0,0 +1,458 @@
+// ============================================================
+// Mock API — In-memory Database
+// ============================================================
+// Seeded records for the mock backend. Everything lives in
+// memory and resets on page reload, except the signed-in
+// session id (kept in localStorage so a reload stays signed in).
+//
+// Seeded accounts (email / password):
+//   admin@bookito.test    / admin123    admin, full access
+//   manager@bookito.test  / manager123  "Managers" group
+//   viewer@bookito.test   / viewer123   "Viewers" group (view-only plans)
+//   new@bookito.test      / newuser123  email not verified yet
+//   sunil@bookito.test    / sunil123    suspended for a week
+//
+// Nobody has two-factor authentication yet; enroll from
+// Settings › Account with any authenticator app.
+//
+// Some accounts also have sessions on other (made-up) devices,
+// so the Sessions panels have something to revoke.
+//
+// Impersonation start/stop is written to the audit log.
+//
+// One invitation is pending (Team › Users); "Resend" logs a
+// working accept-invite link to the console.
+//
+// Both SSO providers sign in through the local mock OIDC server
+// (npm run mock:oidc); SSO accounts have no password.
+// ============================================================
+
+import type {
+  AuditAction,
+  GroupData,
+  MenuPermissionData,
+  PasswordPolicy,
+  PlanData,
+  SsoProvider,
+  SsoSettings,
+  UserRef,
+  UserRole,
+} from "@/lib/api";
+import { ALL_MENU_ITEMS } from "@/lib/menu-config";
+import type { PermissionVerb } from "@/lib/permission-verbs";
+import { DEFAULT_PASSWORD_POLICY } from "@/lib/password-policy";
+
+// -- Types --
+
+export type MockUser = {
+  id: string;
+  name: string;
+  email: string;
+  /** Empty for accounts created by SSO sign-in; they cannot use email + password */
+  password: string;
+  role: "admin" | "user";
+  groupId: string | null;
+  emailVerified: boolean;
+  /** Set once the first TOTP code is confirmed after enabling */
+  twoFactorEnabled: boolean;
+  /** Base32 TOTP secret (present from "enable" on, even before confirming) */
+  twoFactorSecret: string | null;
+  /** Unused backup codes */
+  backupCodes: string[];
+  /** Suspended (better-auth admin plugin "ban") */
+  banned: boolean;
+  banReason: string | null;
+  /** End of the suspension; null = until reactivated */
+  banExpires: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type MockGroup = Omit<GroupData, "_count">;
+
+export type MockPlan = Omit<PlanData, "createdBy" | "updatedBy"> & {
+  createdById: string;
+  updatedById: string;
+};
+
+/** Organization-wide settings (Settings › General) */
+export type MockSettings = {
+  requireAdminTwoFactor: boolean;
+  idleTimeoutMinutes: Record<UserRole, number>;
+  passwordPolicy: PasswordPolicy;
+  sso: SsoSettings;
+};
+
+/** better-auth genericOAuth provider config (server side; the client secret never leaves it) */
+export type MockSsoProvider = SsoProvider & {
+  clientId: string;
+  clientSecret: string;
+};
+
+export type MockSession = {
+  id: string;
+  token: string;
+  userId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  /** Admin who is viewing as this user (better-auth admin plugin) */
+  impersonatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+/** Pending invitation; the token is what the emailed link carries */
+export type MockInvitation = {
+  id: string;
+  token: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  groupId: string | null;
+  invitedById: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export type MockAuditEntry = {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  targetId: string;
+  createdAt: string;
+};
+
+// -- Helpers --
+
+let nextId = 1000;
+
+export function createId(prefix: string) {
+  nextId += 1;
+  return `${prefix}_${nextId.toString(36)}`;
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 86_400_000).toISOString();
+}
+
+/** Look up a submenu's permission key in menu-config */
+export function menuUrl(mainMenu: string, subMenu: string) {
+  const menu = ALL_MENU_ITEMS.find((m) => m.title === mainMenu);
+  return menu?.items.find((s) => s.title === subMenu)?.url ?? null;
+}
+
+function permission(mainMenu: string, subMenu: string, verbs: PermissionVerb[]): MenuPermissionData {
+  const url = menuUrl(mainMenu, subMenu) ?? "";
+  return { mainMenu, subMenu, url, verbs: ["view", ...verbs] };
+}
+
+// -- Seed data --
+
+const ADMIN_ID = "usr_admin";
+
+/** Two-factor fields of an account that has not enrolled */
+export function noTwoFactor(): Pick<MockUser, "twoFactorEnabled" | "twoFactorSecret" | "backupCodes"> {
+  return { twoFactorEnabled: false, twoFactorSecret: null, backupCodes: [] };
+}
+
+/** Suspension fields of an account in good standing */
+export function notBanned(): Pick<MockUser, "banned" | "banReason" | "banExpires"> {
+  return { banned: false, banReason: null, banExpires: null };
+}
+
+const groups: MockGroup[] = [
+  {
+    id: "grp_managers",
+    name: "Managers",
+    description: "Property managers who handle plans and invoices",
+    createdAt: daysAgo(40),
+    permissions: [
+      permission("Dashboard", "Overview", []),
+      permission("Team", "Users", ["add", "change"]),
+      permission("Subscriptions", "Plans", ["add", "change", "delete"]),
+      permission("Subscriptions", "Active Subscriptions", ["change"]),
+      permission("Invoices", "Invoice List", ["add", "change", "export", "approve"]),
+      permission("Reports", "Financial Reports", ["export"]),
+    ],
+  },
+  {
+    id: "grp_viewers",
+    name: "Viewers",
+    description: "Read-only access to plans",
+    createdAt: daysAgo(20),
+    permissions: [
+      permission("Subscriptions", "Plans", []),
+    ],
+  },
+];
+
+const users: MockUser[] = [
+  {
+    id: ADMIN_ID,
+    name: "Asha Admin",
+    email: "admin@bookito.test",
+    password: "admin123",
+    role: "admin",
+    groupId: null,
+    emailVerified: true,
+    ...noTwoFactor(),
+    ...notBanned(),
+    createdAt: daysAgo(60),
+    updatedAt: daysAgo(60),
+  },
+  {
+    id: "usr_manager",
+    name: "Manoj Manager",
+    email: "manager@bookito.test",
+    password: "manager123",
+    role: "user",
+    groupId: "grp_managers",
+    emailVerified: true,
+    ...noTwoFactor(),
+    ...notBanned(),
+    createdAt: daysAgo(35),
+    updatedAt: daysAgo(10),
+  },
+  {
+    id: "usr_viewer",
+    name: "Vera Viewer",
+    email: "viewer@bookito.test",
+    password: "viewer123",
+    role: "user",
+    groupId: "grp_viewers",
+    emailVerified: true,
+    ...noTwoFactor(),
+    ...notBanned(),
+    createdAt: daysAgo(15),
+    updatedAt: daysAgo(15),
+  },
+  {
+    id: "usr_pending",
+    name: "Nina New",
+    email: "new@bookito.test",
+    password: "newuser123",
+    role: "user",
+    groupId: null,
+    emailVerified: false,
+    ...noTwoFactor(),
+    ...notBanned(),
+    createdAt: daysAgo(1),
+    updatedAt: daysAgo(1),
+  },
+  {
+    id: "usr_suspended",
+    name: "Sunil Suspended",
+    email: "sunil@bookito.test",
+    password: "sunil123",
+    role: "user",
+    groupId: "grp_viewers",
+    emailVerified: true,
+    ...noTwoFactor(),
+    banned: true,
+    banReason: "Shared his login with the night shift",
+    banExpires: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+    createdAt: daysAgo(40),
+    updatedAt: daysAgo(1),
+  },
+];
+
+const plans: MockPlan[] = [
+  [1, 10, 150],
+  [11, 25, 130],
+  [26, 50, 110],
+  [51, 100, 95],
+].map(([fromRooms, toRooms, ratePerRoom], index) => ({
+  id: `pln_${index + 1}`,
+  fromRooms,
+  toRooms,
+  ratePerRoom,
+  createdById: ADMIN_ID,
+  updatedById: ADMIN_ID,
+  createdAt: daysAgo(30 - index),
+  updatedAt: daysAgo(30 - index),
+}));
+
+const DEVICES = {
+  iphone:
+    "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+  windows:
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36",
+  android:
+    "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36",
+};
+
+function seedSession(
+  id: string,
+  userId: string,
+  userAgent: string,
+  ipAddress: string,
+  [signedInDaysAgo, lastActiveDaysAgo]: [number, number]
+): MockSession {
+  return {
+    id,
+    token: `${userId}:tok_${id}`,
+    userId,
+    userAgent,
+    ipAddress,
+    impersonatedBy: null,
+    createdAt: daysAgo(signedInDaysAgo),
+    updatedAt: daysAgo(lastActiveDaysAgo),
+    expiresAt: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+  };
+}
+
+const sessions: MockSession[] = [
+  seedSession("ses_seed1", ADMIN_ID, DEVICES.iphone, "103.21.244.12", [3, 1]),
+  seedSession("ses_seed2", "usr_manager", DEVICES.windows, "49.36.112.7", [6, 0]),
+  seedSession("ses_seed3", "usr_manager", DEVICES.android, "157.45.88.201", [2, 2]),
+];
+
+/** Tokens of revoked sessions, so a reload does not restore them */
+const revokedTokens = new Set<string>();
+
+const settings: MockSettings = {
+  requireAdminTwoFactor: false,
+  idleTimeoutMinutes: { admin: 15, user: 30 },
+  passwordPolicy: { ...DEFAULT_PASSWORD_POLICY },
+  sso: { allowedDomains: ["bookito.test"], defaultGroupId: "grp_viewers" },
+};
+
+/** Where the mock OIDC server (scripts/mock-oidc-server.mjs) listens */
+export const MOCK_OIDC_URL = import.meta.env.VITE_MOCK_OIDC_URL || "http://localhost:9400";
+
+const ssoProviders: MockSsoProvider[] = [
+  { id: "google", name: "Google", type: "google", clientId: "pms-google", clientSecret: "mock-google-secret" },
+  { id: "keycloak", name: "Bookito SSO", type: "oidc", clientId: "pms-keycloak", clientSecret: "mock-keycloak-secret" },
+];
+
+const auditLog: MockAuditEntry[] = [];
+
+/** How long an emailed invitation link works */
+export const INVITATION_TTL_MS = 7 * 86_400_000;
+
+const invitations: MockInvitation[] = [
+  {
+    id: "inv_seed1",
+    token: "inv_tok_seed1",
+    name: "Farah Frontdesk",
+    email: "farah@bookito.test",
+    role: "user",
+    groupId: "grp_viewers",
+    invitedById: ADMIN_ID,
+    createdAt: daysAgo(2),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS - 2 * 86_400_000).toISOString(),
+  },
+];
+
+export const db = { users, groups, plans, sessions, settings, auditLog, invitations, ssoProviders };
+
+// -- Lookups --
+
+export function findUser(id: string | null | undefined) {
+  return users.find((u) => u.id === id) ?? null;
+}
+
+export function findGroup(id: string | null | undefined) {
+  return groups.find((g) => g.id === id) ?? null;
+}
+
+export function toUserRef(id: string): UserRef {
+  const user = findUser(id);
+  return { id, name: user?.name ?? "Deleted user", email: user?.email ?? "" };
+}
+
+// -- Audit log --
+
+export function recordAudit(action: AuditAction, actorId: string, targetId: string) {
+  auditLog.push({ id: createId("aud"), action, actorId, targetId, createdAt: new Date().toISOString() });
+}
+
+// -- Session persistence --
+
+const SESSION_STORAGE_KEY = "pms-mock-session";
+/** The admin's own session while they impersonate someone (better-auth's admin_session cookie) */
+const ADMIN_SESSION_STORAGE_KEY = "pms-mock-admin-session";
+
+/** Session of the "browser" (the mock has no real cookies) */
+export function getCurrentSession(): MockSession | null {
+  const token = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!token || revokedTokens.has(token)) return null;
+
+  const session = sessions.find((s) => s.token === token);
+  if (session) {
+    // Every request counts as activity ("last active")
+    session.updatedAt = new Date().toISOString();
+    return session;
+  }
+
+  // Page was reloaded: the in-memory session is gone, restore it
+  const [userId] = token.split(":");
+  if (!findUser(userId)) return null;
+  const [adminId] = localStorage.getItem(ADMIN_SESSION_STORAGE_KEY)?.split(":") ?? [];
+  return startSession(userId, token, adminId ?? null);
+}
+
+export function startSession(
+  userId: string,
+  token = `${userId}:${createId("tok")}`,
+  impersonatedBy: string | null = null
+) {
+  const now = new Date().toISOString();
+  const session: MockSession = {
+    id: createId("ses"),
+    token,
+    userId,
+    userAgent: typeof navigator === "undefined" ? null : navigator.userAgent,
+    ipAddress: "127.0.0.1",
+    impersonatedBy,
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+  };
+  sessions.push(session);
+  localStorage.setItem(SESSION_STORAGE_KEY, token);
+  return session;
+}
+
+export function endSession() {
+  const token = localStorage.getItem(SESSION_STORAGE_KEY);
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  localStorage.removeItem(ADMIN_SESSION_STORAGE_KEY);
+  revokeSessions((s) => s.token === token);
+}
+
+/** Switch the browser to a new session as `userId`, keeping the admin's to return to */
+export function startImpersonation(adminSession: MockSession, userId: string) {
+  localStorage.setItem(ADMIN_SESSION_STORAGE_KEY, adminSession.token);
+  return startSession(userId, undefined, adminSession.userId);
+}
+
+/** End the impersonation session and resume the admin's; null if it is gone */
+export function stopImpersonation(session: MockSession) {
+  const adminToken = localStorage.getItem(ADMIN_SESSION_STORAGE_KEY);
+  localStorage.removeItem(ADMIN_SESSION_STORAGE_KEY);
+  revokeSessions((s) => s.token === session.token);
+
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  if (!adminToken || revokedTokens.has(adminToken)) return null;
+
+  const adminSession = sessions.find((s) => s.token === adminToken);
+  if (adminSession) {
+    localStorage.setItem(SESSION_STORAGE_KEY, adminSession.token);
+    return adminSession;
+  }
+  // Reloaded while impersonating: the admin's session was never restored
+  const [adminId] = adminToken.split(":");
+  return findUser(adminId) ? startSession(adminId, adminToken) : null;
+}
+
+/** Sign out the matching sessions; their devices get 401 from now on */
+export function revokeSessions(predicate: (session: MockSession) => boolean) {
+  const remaining = sessions.filter((s) => {
+    if (!predicate(s)) return true;
+    revokedTokens.add(s.token);
+    return false;
+  });
+  sessions.splice(0, sessions.length, ...remaining);
+}
@@ -0,0 +1,1699 @@
+// ============================================================
+// Mock API — Route Handlers
+// ============================================================
+// Implements the backend routes the app calls, on top of the
+// in-memory db. Responses mirror the real backend:
+//   - List endpoints wrap rows in { data }
+//   - Validation errors: 400 { message, errors: [{ path, message }] }
+//   - Conflicts: 409 { message, errors: { field: "msg" } }
+//   - better-auth errors: { code, message }
+//   - No session -> 401, missing permission -> 403
+//   - New passwords must meet the password policy (sign-up, reset,
+//     invitations, admin-set): 400 PASSWORD_POLICY otherwise
+//   - Suspended accounts get 403 BANNED_USER on sign-in, with the
+//     reason and end date added to better-auth's error
+//   - Invitations are "emailed" by logging the accept link to the
+//     console, like verification and password reset links
+//   - Impersonation start/stop is recorded in the audit log, as
+//     the real backend does from its better-auth hooks
+//   - SSO sign-in trades the code at the mock OIDC server
+//     (npm run mock:oidc); allowed domains and the default group
+//     come from Settings › General
+//   - Two-factor sign-in: password first, then a TOTP or backup
+//     code (the real backend keeps the half-done sign-in in a
+//     cookie; the mock keeps it in memory)
+// ============================================================
+
+import type { MainMenu, PermissionsData, SubMenuPermissions } from "@/context/PermissionContext";
+import type {
+  AuditAction,
+  ChatRequest,
+  GroupInput,
+  MenuPermissionData,
+  PasswordPolicy,
+  PlanInput,
+  SecuritySettings,
+  SsoSettings,
+} from "@/lib/api";
+import { ALL_MENU_ITEMS, type MenuSubItem } from "@/lib/menu-config";
+import {
+  checkPassword,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  type PasswordRule,
+} from "@/lib/password-policy";
+import {
+  findSubmenu,
+  PERMISSION_VERBS,
+  submenuVerbs,
+  type PermissionVerb,
+} from "@/lib/permission-verbs";
+import type { RouteParams } from "@/lib/router";
+import { ssoCallbackPath } from "@/lib/routes";
+import {
+  createId,
+  db,
+  endSession,
+  findGroup,
+  findUser,
+  INVITATION_TTL_MS,
+  menuUrl,
+  MOCK_OIDC_URL,
+  noTwoFactor,
+  notBanned,
+  recordAudit,
+  revokeSessions,
+  startImpersonation,
+  startSession,
+  stopImpersonation,
+  toUserRef,
+  type MockAuditEntry,
+  type MockInvitation,
+  type MockPlan,
+  type MockSession,
+  type MockSsoProvider,
+  type MockUser,
+} from "@/lib/mock-api/db";
+import { generateTotpSecret, totpUri, verifyTotp } from "@/lib/mock-api/totp";
+
+// -- Types --
+
+export type MockRequest = {
+  params: RouteParams;
+  query: URLSearchParams;
+  body: unknown;
+  session: MockSession | null;
+};
+
+export type MockRoute = {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  pattern: string;
+  handler: (req: MockRequest) => Response | Promise<Response>;
+};
+
+type Issue = { path: string[]; message: string };
+
+// -- Responses --
+
+export function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function validationError(issues: Issue[]) {
+  return json(400, { message: issues[0]?.message ?? "Validation failed", errors: issues });
+}
+
+function conflict(field: string, message: string) {
+  return json(409, { message, errors: { [field]: message } });
+}
+
+function notFound(what: string) {
+  return json(404, { message: `${what} not found` });
+}
+
+function forbidden() {
+  return json(403, { message: "You do not have permission to perform this action" });
+}
+
+function unauthorized() {
+  return json(401, { message: "Unauthorized", code: "UNAUTHORIZED" });
+}
+
+// -- Body helpers --
+
+function asRecord(body: unknown): Record<string, unknown> {
+  return body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+}
+
+function isEmail(value: unknown): value is string {
+  return typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+// -- Password policy --
+
+const PASSWORD_RULE_MESSAGES: Record<PasswordRule, (policy: PasswordPolicy) => string> = {
+  length: (policy) => `Password must be ${policy.minLength} to ${MAX_PASSWORD_LENGTH} characters`,
+  uppercase: () => "Password must contain an uppercase letter",
+  lowercase: () => "Password must contain a lowercase letter",
+  number: () => "Password must contain a number",
+  symbol: () => "Password must contain a symbol",
+  common: () => "This password is too common",
+};
+
+/** Why a new password breaks the policy, or null when it is fine */
+function passwordPolicyError(password: unknown): string | null {
+  const policy = db.settings.passwordPolicy;
+  const failed = checkPassword(typeof password === "string" ? password : "", policy).find((r) => !r.passed);
+  return failed ? PASSWORD_RULE_MESSAGES[failed.rule](policy) : null;
+}
+
+/** better-auth style error for a password that breaks the policy */
+function passwordPolicyResponse(password: unknown): Response | null {
+  const message = passwordPolicyError(password);
+  return message ? json(400, { code: "PASSWORD_POLICY", message }) : null;
+}
+
+// -- Permissions --
+
+/** One flag per verb the submenu declares */
+function verbFlags(sub: MenuSubItem, granted: (verb: PermissionVerb) => boolean): Partial<SubMenuPermissions> {
+  return Object.fromEntries(submenuVerbs(sub).map((verb) => [verb, granted(verb)]));
+}
+
+function permissionsFor(user: MockUser): PermissionsData {
+  const group = findGroup(user.groupId);
+
+  const menus: MainMenu[] = ALL_MENU_ITEMS.map((menu) => ({
+    main_menu: menu.title,
+    sub_menu: menu.items.flatMap((sub) => {
+      if (user.role === "admin") {
+        return [{ menu_name: sub.title, url: sub.url, permissions: verbFlags(sub, () => true) }];
+      }
+      const row = group?.permissions.find(
+        (p) => p.mainMenu === menu.title && p.subMenu === sub.title
+      );
+      if (!row?.verbs.includes("view")) return [];
+      return [{ menu_name: sub.title, url: sub.url, permissions: verbFlags(sub, (verb) => row.verbs.includes(verb)) }];
+    }),
+  })).filter((menu) => menu.sub_menu.length > 0);
+
+  return {
+    role: user.role,
+    groupName: group?.name ?? null,
+    groupId: group?.id ?? null,
+    menus,
+  };
+}
+
+/**
+ * Resolve the signed-in user and check one action on a submenu.
+ * Returns the user, or the 401/403 response to send instead.
+ */
+function authorize(
+  req: MockRequest,
+  mainMenu: string,
+  subMenu: string,
+  action: PermissionVerb
+): MockUser | Response {
+  const user = findUser(req.session?.userId);
+  if (!user) return unauthorized();
+  if (user.role === "admin") return user;
+
+  const entry = permissionsFor(user)
+    .menus.find((m) => m.main_menu === mainMenu)
+    ?.sub_menu.find((s) => s.menu_name === subMenu);
+  if (!entry?.permissions[action]) return forbidden();
+  return user;
+}
+
+/** Like authorize(), for routes only role "admin" may use whatever the group allows */
+function requireAdmin(req: MockRequest): MockUser | Response {
+  const user = findUser(req.session?.userId);
+  if (!user) return unauthorized();
+  return user.role === "admin" ? user : forbidden();
+}
+
+// -- Serializers --
+
+/** Suspended right now; a suspension past its end date is lifted, as better-auth does */
+function isSuspended(user: MockUser) {
+  if (user.banned && user.banExpires && Date.parse(user.banExpires) < Date.now()) {
+    Object.assign(user, notBanned());
+  }
+  return user.banned;
+}
+
+function serializeUser(user: MockUser) {
+  const group = findGroup(user.groupId);
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    groupId: user.groupId,
+    group: group ? { id: group.id, name: group.name } : null,
+    emailVerified: user.emailVerified,
+    banned: isSuspended(user),
+    banReason: user.banReason,
+    banExpires: user.banExpires,
+    createdAt: user.createdAt,
+  };
+}
+
+/** better-auth's user shape */
+function serializeAuthUser(user: MockUser) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    twoFactorEnabled: user.twoFactorEnabled,
+    image: null,
+    role: user.role,
+    banned: user.banned,
+    banReason: user.banReason,
+    banExpires: user.banExpires,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+/** Sessions as /api/users/:id/sessions lists them (no tokens) */
+function serializeSession(session: MockSession) {
+  const { id, userAgent, ipAddress, createdAt, updatedAt, expiresAt } = session;
+  return { id, userAgent, ipAddress, createdAt, updatedAt, expiresAt };
+}
+
+function serializeInvitation(invitation: MockInvitation) {
+  const group = findGroup(invitation.groupId);
+  return {
+    id: invitation.id,
+    name: invitation.name,
+    email: invitation.email,
+    role: invitation.role,
+    groupId: invitation.groupId,
+    group: group ? { id: group.id, name: group.name } : null,
+    invitedBy: toUserRef(invitation.invitedById),
+    status: Date.parse(invitation.expiresAt) < Date.now() ? "expired" : "pending",
+    createdAt: invitation.createdAt,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+function serializeAuditEntry(entry: MockAuditEntry) {
+  return {
+    id: entry.id,
+    action: entry.action,
+    actor: toUserRef(entry.actorId),
+    target: toUserRef(entry.targetId),
+    createdAt: entry.createdAt,
+  };
+}
+
+function serializeGroup(group: (typeof db.groups)[number]) {
+  return {
+    ...group,
+    _count: { users: db.users.filter((u) => u.groupId === group.id).length },
+  };
+}
+
+function serializePlan({ createdById, updatedById, ...plan }: MockPlan) {
+  return { ...plan, createdBy: toUserRef(createdById), updatedBy: toUserRef(updatedById) };
+}
+
+// -- Auth (better-auth) --
+
+/** Password reset tokens issued by request-password-reset */
+const resetTokens = new Map<string, { userId: string; expiresAt: number }>();
+
+/** Email verification tokens (sent on sign-up and on resend) */
+const verificationTokens = new Map<string, string>();
+
+/** The mock's "email": log the verification link to the console */
+function sendVerificationEmail(user: MockUser, callbackURL?: unknown) {
+  const token = createId("vfy");
+  verificationTokens.set(token, user.id);
+  const link = new URL(String(callbackURL ?? "/verify-email"), window.location.origin);
+  link.searchParams.set("token", token);
+  console.info(`[mock-api] Verification link for ${user.email}: ${link.href}`);
+}
+
+const authRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/auth/get-session",
+    handler: ({ session }) => {
+      const user = findUser(session?.userId);
+      if (!session || !user) return json(200, null);
+      return json(200, { session, user: serializeAuthUser(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/sign-in/email",
+    handler: ({ body }) => {
+      const { email, password } = asRecord(body);
+      if (!isEmail(email)) {
+        return json(400, { code: "INVALID_EMAIL", message: "Invalid email" });
+      }
+      const user = db.users.find((u) => u.email === email.toLowerCase());
+      // SSO accounts have no password
+      if (!user || !user.password || user.password !== password) {
+        return json(401, {
+          code: "INVALID_EMAIL_OR_PASSWORD",
+          message: "Invalid email or password",
+        });
+      }
+      if (isSuspended(user)) {
+        // The backend adds the reason and end date to better-auth's BANNED_USER error
+        return json(403, {
+          code: "BANNED_USER",
+          message: "You have been banned from this application",
+          banReason: user.banReason,
+          banExpires: user.banExpires,
+        });
+      }
+      if (user.twoFactorEnabled && !trustedDevices.has(user.id)) {
+        pendingTwoFactorUserId = user.id;
+        return json(200, { twoFactorRedirect: true });
+      }
+      const session = startSession(user.id);
+      return json(200, { redirect: false, token: session.token, user: serializeAuthUser(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/sign-up/email",
+    handler: ({ body }) => {
+      const { name, email, password } = asRecord(body);
+      if (!isEmail(email)) {
+        return json(400, { code: "INVALID_EMAIL", message: "Invalid email" });
+      }
+      const policyError = passwordPolicyResponse(password);
+      if (policyError) return policyError;
+      if (db.users.some((u) => u.email === email.toLowerCase())) {
+        return json(422, {
+          code: "USER_ALREADY_EXISTS",
+          message: "User already exists. Use another email.",
+        });
+      }
+
+      const now = new Date().toISOString();
+      const user: MockUser = {
+        id: createId("usr"),
+        name: typeof name === "string" ? name.trim() : "",
+        email: email.toLowerCase(),
+        password: String(password),
+        role: "user",
+        groupId: null,
+        emailVerified: false,
+        ...noTwoFactor(),
+        ...notBanned(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.users.push(user);
+      sendVerificationEmail(user, "/verify-email");
+      const session = startSession(user.id);
+      return json(200, { token: session.token, user: serializeAuthUser(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/sign-out",
+    handler: () => {
+      endSession();
+      return json(200, { success: true });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/auth/list-sessions",
+    handler: ({ session }) => {
+      if (!session) return unauthorized();
+      return json(200, db.sessions.filter((s) => s.userId === session.userId));
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/revoke-session",
+    handler: ({ body, session }) => {
+      if (!session) return unauthorized();
+      const { token } = asRecord(body);
+      // Only the user's own sessions; unknown tokens are ignored like better-auth does
+      revokeSessions((s) => s.userId === session.userId && s.token === token);
+      return json(200, { status: true });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/revoke-other-sessions",
+    handler: ({ session }) => {
+      if (!session) return unauthorized();
+      revokeSessions((s) => s.userId === session.userId && s.token !== session.token);
+      return json(200, { status: true });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/send-verification-email",
+    handler: ({ body, session }) => {
+      const { email, callbackURL } = asRecord(body);
+      if (!isEmail(email)) {
+        return json(400, { code: "INVALID_EMAIL", message: "Invalid email" });
+      }
+
+      const user = db.users.find((u) => u.email === email.toLowerCase());
+      if (session && findUser(session.userId)?.email !== user?.email) {
+        return json(400, { code: "EMAIL_MISMATCH", message: "Email mismatch" });
+      }
+      if (user?.emailVerified) {
+        return json(400, { code: "EMAIL_ALREADY_VERIFIED", message: "Email is already verified" });
+      }
+      if (user) sendVerificationEmail(user, callbackURL);
+      return json(200, { status: true });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/auth/verify-email",
+    handler: ({ query }) => {
+      const token = query.get("token") ?? "";
+      const user = findUser(verificationTokens.get(token));
+      if (!user) {
+        return json(401, { code: "INVALID_TOKEN", message: "invalid_token" });
+      }
+      verificationTokens.delete(token);
+      user.emailVerified = true;
+      user.updatedAt = new Date().toISOString();
+      return json(200, { status: true, user: serializeAuthUser(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/request-password-reset",
+    handler: ({ body }) => {
+      const { email, redirectTo } = asRecord(body);
+      if (!isEmail(email)) {
+        return json(400, { code: "INVALID_EMAIL", message: "Invalid email" });
+      }
+
+      const user = db.users.find((u) => u.email === email.toLowerCase());
+      if (user) {
+        const token = createId("rst");
+        resetTokens.set(token, { userId: user.id, expiresAt: Date.now() + 3_600_000 });
+        // The "email": the real backend redirects here after checking the token
+        const link = new URL(String(redirectTo ?? "/reset-password"), window.location.origin);
+        link.searchParams.set("token", token);
+        console.info(`[mock-api] Password reset link for ${user.email}: ${link.href}`);
+      }
+      return json(200, {
+        status: true,
+        message: "If this email exists in our system, check your email for the reset link",
+      });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/reset-password",
+    handler: ({ body }) => {
+      const { newPassword, token } = asRecord(body);
+      const entry = typeof token === "string" ? resetTokens.get(token) : undefined;
+      if (!entry || entry.expiresAt < Date.now()) {
+        return json(400, { code: "INVALID_TOKEN", message: "Invalid token" });
+      }
+      const policyError = passwordPolicyResponse(newPassword);
+      if (policyError) return policyError;
+
+      const user = findUser(entry.userId);
+      if (user) {
+        user.password = String(newPassword);
+        user.updatedAt = new Date().toISOString();
+      }
+      resetTokens.delete(String(token));
+      return json(200, { status: true });
+    },
+  },
+];
+
+// -- Two-factor (better-auth twoFactor plugin) --
+
+const BACKUP_CODE_COUNT = 10;
+
+/** Signed in with a password, waiting for the second factor */
+let pendingTwoFactorUserId: string | null = null;
+
+/** Users who ticked "trust this device" (until reload) */
+const trustedDevices = new Set<string>();
+
+function generateBackupCodes() {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), (b) => alphabet[b % alphabet.length]);
+    return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+  });
+}
+
+function invalidPassword() {
+  return json(400, { code: "INVALID_PASSWORD", message: "Invalid password" });
+}
+
+/** Finish a two-factor sign-in by starting the real session */
+function completeTwoFactorSignIn(user: MockUser, trustDevice: unknown) {
+  pendingTwoFactorUserId = null;
+  if (trustDevice === true) trustedDevices.add(user.id);
+  const session = startSession(user.id);
+  return json(200, { token: session.token, user: serializeAuthUser(user) });
+}
+
+const twoFactorRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: "/api/auth/two-factor/enable",
+    handler: ({ body, session }) => {
+      const user = findUser(session?.userId);
+      if (!user) return unauthorized();
+      if (asRecord(body).password !== user.password) return invalidPassword();
+
+      // Not enabled until the first code is confirmed with verify-totp
+      user.twoFactorSecret = generateTotpSecret();
+      user.backupCodes = generateBackupCodes();
+      return json(200, {
+        totpURI: totpUri(user.twoFactorSecret, "Bookito", user.email),
+        backupCodes: user.backupCodes,
+      });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/two-factor/verify-totp",
+    handler: async ({ body, session }) => {
+      const { code, trustDevice } = asRecord(body);
+      // Confirming enrollment (signed in) or the second step of sign-in
+      const user = findUser(session?.userId ?? pendingTwoFactorUserId);
+      if (!user) {
+        return json(401, { code: "INVALID_TWO_FACTOR_COOKIE", message: "Invalid two factor cookie" });
+      }
+      if (!user.twoFactorSecret) {
+        return json(400, { code: "TOTP_NOT_ENABLED", message: "TOTP not enabled" });
+      }
+      if (!(await verifyTotp(user.twoFactorSecret, String(code ?? "")))) {
+        return json(401, { code: "INVALID_CODE", message: "Invalid code" });
+      }
+
+      if (session) {
+        user.twoFactorEnabled = true;
+        user.updatedAt = new Date().toISOString();
+        return json(200, { token: session.token, user: serializeAuthUser(user) });
+      }
+      return completeTwoFactorSignIn(user, trustDevice);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/two-factor/verify-backup-code",
+    handler: ({ body }) => {
+      const { code, trustDevice } = asRecord(body);
+      const user = findUser(pendingTwoFactorUserId);
+      if (!user) {
+        return json(401, { code: "INVALID_TWO_FACTOR_COOKIE", message: "Invalid two factor cookie" });
+      }
+      const normalized = String(code ?? "").trim().toLowerCase();
+      if (!user.backupCodes.includes(normalized)) {
+        return json(401, { code: "INVALID_BACKUP_CODE", message: "Invalid backup code" });
+      }
+
+      // Each backup code works once
+      user.backupCodes = user.backupCodes.filter((c) => c !== normalized);
+      return completeTwoFactorSignIn(user, trustDevice);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/two-factor/generate-backup-codes",
+    handler: ({ body, session }) => {
+      const user = findUser(session?.userId);
+      if (!user) return unauthorized();
+      if (asRecord(body).password !== user.password) return invalidPassword();
+      if (!user.twoFactorEnabled) {
+        return json(400, { code: "TWO_FACTOR_NOT_ENABLED", message: "Two factor isn't enabled" });
+      }
+
+      user.backupCodes = generateBackupCodes();
+      return json(200, { status: true, backupCodes: user.backupCodes });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/two-factor/disable",
+    handler: ({ body, session }) => {
+      const user = findUser(session?.userId);
+      if (!user) return unauthorized();
+      if (asRecord(body).password !== user.password) return invalidPassword();
+
+      Object.assign(user, noTwoFactor(), { updatedAt: new Date().toISOString() });
+      trustedDevices.delete(user.id);
+      return json(200, { status: true });
+    },
+  },
+];
+
+// -- Single sign-on (better-auth generic-oauth) --
+
+type PendingSsoSignIn = {
+  providerId: string;
+  redirectURI: string;
+  callbackURL: string;
+  errorCallbackURL: string;
+  expiresAt: number;
+};
+
+/** Started SSO sign-ins by OAuth state (the real backend keeps them in its verification table) */
+const ssoSignIns = new Map<string, PendingSsoSignIn>();
+
+const SSO_STATE_TTL_MS = 10 * 60_000;
+
+type SsoProfile = { email: string; name: string; emailVerified: boolean };
+
+/** Trade the code for the user's profile at the mock OIDC server */
+async function fetchSsoProfile(provider: MockSsoProvider, code: string, redirectURI: string): Promise<SsoProfile | null> {
+  try {
+    // Not under /api, so these reach the real network
+    const tokenResponse = await fetch(`${MOCK_OIDC_URL}/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectURI,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+      }),
+    });
+    if (!tokenResponse.ok) return null;
+    const { access_token } = asRecord(await tokenResponse.json());
+
+    const userInfoResponse = await fetch(`${MOCK_OIDC_URL}/userinfo`, {
+      headers: { Authorization: `Bearer ${access_token}` },
+    });
+    if (!userInfoResponse.ok) return null;
+    const { email, name, email_verified } = asRecord(await userInfoResponse.json());
+    if (!isEmail(email)) return null;
+
+    return {
+      email: email.toLowerCase(),
+      name: typeof name === "string" && name.trim() ? name.trim() : email.split("@")[0],
+      emailVerified: email_verified === true,
+    };
+  } catch {
+    // Mock OIDC server not running
+    return null;
+  }
+}
+
+/** better-auth sends failures to the error callback URL with ?error=<code> */
+function ssoErrorRedirect(errorCallbackURL: string, error: string) {
+  const url = new URL(errorCallbackURL, window.location.origin);
+  url.searchParams.set("error", error);
+  return json(200, { url: url.toString() });
+}
+
+const ssoRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: "/api/auth/sign-in/oauth2",
+    handler: ({ body }) => {
+      const { providerId, callbackURL, errorCallbackURL, disableRedirect } = asRecord(body);
+      const provider = db.ssoProviders.find((p) => p.id === providerId);
+      if (!provider) {
+        return json(404, { code: "PROVIDER_CONFIG_NOT_FOUND", message: "No config found for provider" });
+      }
+
+      const state = createId("sso");
+      const callback = typeof callbackURL === "string" && callbackURL ? callbackURL : "/";
+      // The mock only sees fetch calls, not the provider's redirect, so the
+      // provider sends the user to the app's landing page, which passes the
+      // code on to the callback route below (see lib/sso)
+      const redirectURI = `${window.location.origin}${ssoCallbackPath(provider.id)}`;
+      ssoSignIns.set(state, {
+        providerId: provider.id,
+        redirectURI,
+        callbackURL: callback,
+        errorCallbackURL: typeof errorCallbackURL === "string" && errorCallbackURL ? errorCallbackURL : callback,
+        expiresAt: Date.now() + SSO_STATE_TTL_MS,
+      });
+
+      const url = new URL(`${MOCK_OIDC_URL}/authorize`);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", provider.clientId);
+      url.searchParams.set("redirect_uri", redirectURI);
+      url.searchParams.set("scope", "openid email profile");
+      url.searchParams.set("state", state);
+      return json(200, { url: url.toString(), redirect: disableRedirect !== true });
+    },
+  },
+  {
+    // The real route redirects (302); the mock answers with the target
+    // URL, which is what better-auth documents for this endpoint
+    method: "GET",
+    pattern: "/api/auth/oauth2/callback/:providerId",
+    handler: async ({ params, query }) => {
+      const state = query.get("state") ?? "";
+      const pending = ssoSignIns.get(state);
+      ssoSignIns.delete(state);
+      if (!pending || pending.expiresAt < Date.now() || pending.providerId !== params.providerId) {
+        return json(400, { code: "INVALID_STATE", message: "Sign-in expired. Please start again." });
+      }
+
+      const providerError = query.get("error");
+      const code = query.get("code");
+      if (providerError || !code) {
+        return ssoErrorRedirect(pending.errorCallbackURL, providerError || "oauth_code_missing");
+      }
+
+      const provider = db.ssoProviders.find((p) => p.id === pending.providerId);
+      const profile = provider && (await fetchSsoProfile(provider, code, pending.redirectURI));
+      if (!profile) return ssoErrorRedirect(pending.errorCallbackURL, "oauth_code_verification_failed");
+
+      // Settings › General: SSO only for the organization's own domains
+      const { allowedDomains, defaultGroupId } = db.settings.sso;
+      const domain = profile.email.split("@")[1];
+      if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+        return ssoErrorRedirect(pending.errorCallbackURL, "domain_not_allowed");
+      }
+
+      let user = db.users.find((u) => u.email === profile.email);
+      if (user) {
+        // Only link to an existing account when the provider vouches for the email
+        if (!profile.emailVerified) return ssoErrorRedirect(pending.errorCallbackURL, "account_not_linked");
+        if (isSuspended(user)) return ssoErrorRedirect(pending.errorCallbackURL, "banned");
+      } else {
+        const now = new Date().toISOString();
+        user = {
+          id: createId("usr"),
+          name: profile.name,
+          email: profile.email,
+          password: "",
+          role: "user",
+          groupId: findGroup(defaultGroupId)?.id ?? null,
+          emailVerified: profile.emailVerified,
+          ...noTwoFactor(),
+          ...notBanned(),
+          createdAt: now,
+          updatedAt: now,
+        };
+        db.users.push(user);
+      }
+
+      // No TOTP step: the provider is responsible for the second factor
+      startSession(user.id);
+      return json(200, { url: pending.callbackURL });
+    },
+  },
+];
+
+// -- Impersonation (better-auth admin plugin) --
+
+const impersonationRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: "/api/auth/admin/impersonate-user",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const target = findUser(String(asRecord(req.body).userId ?? ""));
+      if (!target) return json(404, { code: "USER_NOT_FOUND", message: "User not found" });
+      if (target.role === "admin") {
+        return json(403, { code: "YOU_CANNOT_IMPERSONATE_ADMINS", message: "You cannot impersonate admins" });
+      }
+
+      const session = startImpersonation(req.session!, target.id);
+      recordAudit("impersonation.start", auth.id, target.id);
+      return json(200, { session, user: serializeAuthUser(target) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/admin/stop-impersonating",
+    handler: ({ session }) => {
+      if (!session) return unauthorized();
+      if (!session.impersonatedBy) {
+        return json(400, { message: "You are not impersonating anyone" });
+      }
+
+      recordAudit("impersonation.stop", session.impersonatedBy, session.userId);
+      const adminSession = stopImpersonation(session);
+      const admin = findUser(adminSession?.userId);
+      if (!adminSession || !admin) {
+        return json(500, { message: "Failed to find admin session" });
+      }
+      return json(200, { session: adminSession, user: serializeAuthUser(admin) });
+    },
+  },
+];
+
+// -- Suspensions (better-auth admin plugin "ban") --
+
+const banRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: "/api/auth/admin/ban-user",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const { userId, banReason, banExpiresIn } = asRecord(req.body);
+      const target = findUser(String(userId ?? ""));
+      if (!target) return json(404, { code: "USER_NOT_FOUND", message: "User not found" });
+      if (target.id === auth.id) {
+        return json(400, { code: "YOU_CANNOT_BAN_YOURSELF", message: "You cannot ban yourself" });
+      }
+
+      target.banned = true;
+      target.banReason = typeof banReason === "string" && banReason.trim() ? banReason.trim() : "No reason";
+      target.banExpires =
+        typeof banExpiresIn === "number" && banExpiresIn > 0
+          ? new Date(Date.now() + banExpiresIn * 1000).toISOString()
+          : null;
+      target.updatedAt = new Date().toISOString();
+      // Signed out everywhere right away
+      revokeSessions((s) => s.userId === target.id);
+      return json(200, { user: serializeAuthUser(target) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/admin/set-user-password",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const { userId, newPassword } = asRecord(req.body);
+      const target = findUser(String(userId ?? ""));
+      if (!target) return json(404, { code: "USER_NOT_FOUND", message: "User not found" });
+      const policyError = passwordPolicyResponse(newPassword);
+      if (policyError) return policyError;
+
+      target.password = String(newPassword);
+      target.updatedAt = new Date().toISOString();
+      return json(200, { status: true });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/admin/unban-user",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const target = findUser(String(asRecord(req.body).userId ?? ""));
+      if (!target) return json(404, { code: "USER_NOT_FOUND", message: "User not found" });
+      Object.assign(target, notBanned(), { updatedAt: new Date().toISOString() });
+      return json(200, { user: serializeAuthUser(target) });
+    },
+  },
+];
+
+// -- Permissions --
+
+// -- Permission events (text/event-stream) --
+
+type PermissionStream = {
+  userId: string;
+  /** permissionsFor() as last pushed, to push only real changes */
+  lastSent: string;
+  send: (chunk: string) => void;
+};
+
+const permissionStreams = new Set<PermissionStream>();
+const encoder = new TextEncoder();
+
+/** Push a "permissions" event to each open stream whose user's permissions changed */
+function publishPermissionChanges() {
+  permissionStreams.forEach((stream) => {
+    const user = findUser(stream.userId);
+    const current = user ? JSON.stringify(permissionsFor(user)) : "";
+    if (current === stream.lastSent) return;
+    stream.lastSent = current;
+    stream.send("event: permissions\ndata: {}\n\n");
+  });
+}
+
+const meRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/me/permissions",
+    handler: ({ session }) => {
+      const user = findUser(session?.userId);
+      if (!user) return unauthorized();
+      return json(200, permissionsFor(user));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/me/permissions/events",
+    handler: ({ session }) => {
+      const user = findUser(session?.userId);
+      if (!user) return unauthorized();
+
+      let stream: PermissionStream;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          stream = {
+            userId: user.id,
+            lastSent: JSON.stringify(permissionsFor(user)),
+            send: (chunk) => controller.enqueue(encoder.encode(chunk)),
+          };
+          permissionStreams.add(stream);
+          stream.send(": connected\n\n");
+        },
+        cancel() {
+          permissionStreams.delete(stream);
+        },
+      });
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    },
+  },
+];
+
+// -- Users --
+
+function validateUser(body: Record<string, unknown>, isCreate: boolean): Issue[] {
+  const issues: Issue[] = [];
+  const { name, email, password, role, groupId } = body;
+
+  if (typeof name !== "string" || name.trim().length < 2) {
+    issues.push({ path: ["name"], message: "Name must be at least 2 characters" });
+  }
+  if (isCreate && !isEmail(email)) {
+    issues.push({ path: ["email"], message: "Invalid email address" });
+  }
+  if (isCreate && (typeof password !== "string" || password.length < 6)) {
+    issues.push({ path: ["password"], message: "Password must be at least 6 characters" });
+  }
+  if (role !== undefined && role !== "admin" && role !== "user") {
+    issues.push({ path: ["role"], message: "Role must be admin or user" });
+  }
+  if (groupId && !findGroup(String(groupId))) {
+    issues.push({ path: ["groupId"], message: "Group does not exist" });
+  }
+  return issues;
+}
+
+const userRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/users",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "view");
+      if (auth instanceof Response) return auth;
+      return json(200, { data: db.users.map(serializeUser) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/users",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "add");
+      if (auth instanceof Response) return auth;
+
+      const body = asRecord(req.body);
+      const issues = validateUser(body, true);
+      if (issues.length > 0) return validationError(issues);
+
+      const email = String(body.email).toLowerCase();
+      if (db.users.some((u) => u.email === email)) {
+        return conflict("email", "A user with this email already exists");
+      }
+
+      const now = new Date().toISOString();
+      const user: MockUser = {
+        id: createId("usr"),
+        name: String(body.name).trim(),
+        email,
+        password: String(body.password),
+        role: body.role === "admin" ? "admin" : "user",
+        groupId: body.groupId ? String(body.groupId) : null,
+        emailVerified: true,
+        ...noTwoFactor(),
+        ...notBanned(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.users.push(user);
+      return json(201, { data: serializeUser(user) });
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/api/users/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "change");
+      if (auth instanceof Response) return auth;
+
+      const user = findUser(req.params.id);
+      if (!user) return notFound("User");
+
+      const body = asRecord(req.body);
+      const issues = validateUser(body, false);
+      if (issues.length > 0) return validationError(issues);
+
+      user.name = String(body.name).trim();
+      if (body.role === "admin" || body.role === "user") user.role = body.role;
+      user.groupId = body.groupId ? String(body.groupId) : null;
+      user.updatedAt = new Date().toISOString();
+      publishPermissionChanges();
+      return json(200, { data: serializeUser(user) });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/users/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "delete");
+      if (auth instanceof Response) return auth;
+
+      const index = db.users.findIndex((u) => u.id === req.params.id);
+      if (index === -1) return notFound("User");
+      if (db.users[index].id === auth.id) {
+        return json(400, { message: "You cannot delete your own account" });
+      }
+      const [user] = db.users.splice(index, 1);
+      revokeSessions((s) => s.userId === user.id);
+      return json(200, { success: true });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/users/:id/sessions",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const user = findUser(req.params.id);
+      if (!user) return notFound("User");
+      const rows = db.sessions.filter((s) => s.userId === user.id);
+      return json(200, { data: rows.map(serializeSession) });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/users/:id/sessions/:sessionId",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const session = db.sessions.find(
+        (s) => s.id === req.params.sessionId && s.userId === req.params.id
+      );
+      if (!session) return notFound("Session");
+      if (session.token === req.session?.token) {
+        return json(400, { message: "Use Sign out to end your current session" });
+      }
+      revokeSessions((s) => s.id === session.id);
+      return json(200, { success: true });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/users/:id/sessions",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const user = findUser(req.params.id);
+      if (!user) return notFound("User");
+      // An admin revoking their own sessions keeps the one they are using
+      revokeSessions((s) => s.userId === user.id && s.token !== req.session?.token);
+      return json(200, { success: true });
+    },
+  },
+];
+
+// -- Invitations --
+
+/** The mock's "email": a fresh token and expiry, link logged to the console */
+function sendInvitation(invitation: MockInvitation) {
+  invitation.token = createId("inv_tok");
+  invitation.expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+  const link = new URL("/accept-invite", window.location.origin);
+  link.searchParams.set("token", invitation.token);
+  console.info(`[mock-api] Invitation link for ${invitation.email}: ${link.href}`);
+}
+
+/** A usable invitation for the token of an emailed link */
+function findValidInvitation(token: unknown): MockInvitation | Response {
+  const invitation = db.invitations.find((i) => i.token === token);
+  if (!invitation) {
+    return json(400, { code: "INVALID_INVITATION", message: "This invitation link is invalid or was revoked" });
+  }
+  if (Date.parse(invitation.expiresAt) < Date.now()) {
+    return json(400, { code: "INVITATION_EXPIRED", message: "This invitation has expired" });
+  }
+  return invitation;
+}
+
+const invitationRoutes: MockRoute[] = [
+  // -- Invitee side (no session): registered before /:id --
+  {
+    method: "GET",
+    pattern: "/api/invitations/accept",
+    handler: ({ query }) => {
+      const invitation = findValidInvitation(query.get("token"));
+      if (invitation instanceof Response) return invitation;
+      return json(200, { name: invitation.name, email: invitation.email });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/invitations/accept",
+    handler: ({ body }) => {
+      const { token, password } = asRecord(body);
+      const invitation = findValidInvitation(token);
+      if (invitation instanceof Response) return invitation;
+      const passwordError = passwordPolicyError(password);
+      if (passwordError) return validationError([{ path: ["password"], message: passwordError }]);
+      if (db.users.some((u) => u.email === invitation.email)) {
+        return conflict("email", "An account with this email already exists");
+      }
+
+      const now = new Date().toISOString();
+      db.users.push({
+        id: createId("usr"),
+        name: invitation.name,
+        email: invitation.email,
+        password: String(password),
+        role: invitation.role,
+        groupId: findGroup(invitation.groupId) ? invitation.groupId : null,
+        // Opening the emailed link proves the address
+        emailVerified: true,
+        ...noTwoFactor(),
+        ...notBanned(),
+        createdAt: now,
+        updatedAt: now,
+      });
+      db.invitations.splice(db.invitations.indexOf(invitation), 1);
+      return json(200, { success: true });
+    },
+  },
+
+  // -- Admin side --
+  {
+    method: "GET",
+    pattern: "/api/invitations",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "view");
+      if (auth instanceof Response) return auth;
+      return json(200, { data: db.invitations.map(serializeInvitation) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/invitations",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "add");
+      if (auth instanceof Response) return auth;
+
+      const body = asRecord(req.body);
+      const issues = validateUser(body, true).filter((issue) => issue.path[0] !== "password");
+      if (issues.length > 0) return validationError(issues);
+
+      const email = String(body.email).toLowerCase();
+      if (db.users.some((u) => u.email === email)) {
+        return conflict("email", "A user with this email already exists");
+      }
+      if (db.invitations.some((i) => i.email === email)) {
+        return conflict("email", "This email already has a pending invitation; resend it instead");
+      }
+
+      const invitation: MockInvitation = {
+        id: createId("inv"),
+        token: "",
+        name: String(body.name).trim(),
+        email,
+        role: body.role === "admin" ? "admin" : "user",
+        groupId: body.groupId ? String(body.groupId) : null,
+        invitedById: auth.id,
+        createdAt: new Date().toISOString(),
+        expiresAt: "",
+      };
+      sendInvitation(invitation);
+      db.invitations.push(invitation);
+      return json(201, { data: serializeInvitation(invitation) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/invitations/:id/resend",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "add");
+      if (auth instanceof Response) return auth;
+
+      const invitation = db.invitations.find((i) => i.id === req.params.id);
+      if (!invitation) return notFound("Invitation");
+      sendInvitation(invitation);
+      return json(200, { data: serializeInvitation(invitation) });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/invitations/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Users", "add");
+      if (auth instanceof Response) return auth;
+
+      const index = db.invitations.findIndex((i) => i.id === req.params.id);
+      if (index === -1) return notFound("Invitation");
+      db.invitations.splice(index, 1);
+      return json(200, { success: true });
+    },
+  },
+];
+
+// -- Groups --
+
+function validateGroup(body: Record<string, unknown>): Issue[] {
+  const issues: Issue[] = [];
+  const { name, description, permissions } = body;
+
+  if (typeof name !== "string" || !name.trim()) {
+    issues.push({ path: ["name"], message: "Group name is required" });
+  } else if (name.trim().length > 50) {
+    issues.push({ path: ["name"], message: "Group name must be at most 50 characters" });
+  }
+  if (typeof description === "string" && description.length > 200) {
+    issues.push({ path: ["description"], message: "Description must be at most 200 characters" });
+  }
+  if (!Array.isArray(permissions)) {
+    issues.push({ path: ["permissions"], message: "Permissions must be an array" });
+  } else {
+    permissions.forEach((p: MenuPermissionData, i) => {
+      const sub = findSubmenu(p?.mainMenu, p?.subMenu);
+      if (!sub) {
+        issues.push({ path: ["permissions", String(i)], message: "Unknown menu" });
+        return;
+      }
+      const declared = submenuVerbs(sub);
+      const verbs: unknown[] = Array.isArray(p.verbs) ? p.verbs : [];
+      if (!Array.isArray(p.verbs) || verbs.length === 0) {
+        issues.push({ path: ["permissions", String(i), "verbs"], message: "Verbs must be a non-empty list" });
+      } else if (!verbs.includes("view")) {
+        issues.push({
+          path: ["permissions", String(i), "verbs"],
+          message: `${p.mainMenu} › ${p.subMenu}: "view" is required for any other permission`,
+        });
+      }
+      verbs
+        .filter((verb) => !declared.includes(verb as PermissionVerb))
+        .forEach((verb) => {
+          issues.push({
+            path: ["permissions", String(i), "verbs"],
+            message: `${p.mainMenu} › ${p.subMenu} has no "${String(verb)}" permission`,
+          });
+        });
+    });
+  }
+  return issues;
+}
+
+function toPermissions(rows: MenuPermissionData[]): MenuPermissionData[] {
+  return rows.map((p) => ({
+    mainMenu: p.mainMenu,
+    subMenu: p.subMenu,
+    url: menuUrl(p.mainMenu, p.subMenu) ?? p.url,
+    // Stored in PERMISSION_VERBS order, without duplicates
+    verbs: PERMISSION_VERBS.filter((verb) => p.verbs.includes(verb)),
+  }));
+}
+
+function isGroupNameTaken(name: string, exceptId?: string) {
+  const key = name.trim().toLowerCase();
+  return db.groups.some((g) => g.id !== exceptId && g.name.toLowerCase() === key);
+}
+
+const groupRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/groups",
+    handler: (req) => {
+      // The Users page reads groups for its "Assign Group" select too
+      const auth = authorize(req, "Team", "Groups", "view");
+      const access = auth instanceof Response ? authorize(req, "Team", "Users", "view") : auth;
+      if (access instanceof Response) return access;
+      return json(200, { data: db.groups.map(serializeGroup) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/groups",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Groups", "add");
+      if (auth instanceof Response) return auth;
+
+      const body = asRecord(req.body);
+      const issues = validateGroup(body);
+      if (issues.length > 0) return validationError(issues);
+
+      const input = body as GroupInput;
+      if (isGroupNameTaken(input.name)) {
+        return conflict("name", "A group with this name already exists");
+      }
+
+      const group = {
+        id: createId("grp"),
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        permissions: toPermissions(input.permissions),
+        createdAt: new Date().toISOString(),
+      };
+      db.groups.push(group);
+      return json(201, { data: serializeGroup(group) });
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/api/groups/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Groups", "change");
+      if (auth instanceof Response) return auth;
+
+      const group = findGroup(req.params.id);
+      if (!group) return notFound("Group");
+
+      const body = asRecord(req.body);
+      const issues = validateGroup(body);
+      if (issues.length > 0) return validationError(issues);
+
+      const input = body as GroupInput;
+      if (isGroupNameTaken(input.name, group.id)) {
+        return conflict("name", "A group with this name already exists");
+      }
+
+      group.name = input.name.trim();
+      group.description = input.description?.trim() || null;
+      group.permissions = toPermissions(input.permissions);
+      publishPermissionChanges();
+      return json(200, { data: serializeGroup(group) });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/groups/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Team", "Groups", "delete");
+      if (auth instanceof Response) return auth;
+
+      const index = db.groups.findIndex((g) => g.id === req.params.id);
+      if (index === -1) return notFound("Group");
+
+      const [group] = db.groups.splice(index, 1);
+      db.users.forEach((u) => {
+        if (u.groupId === group.id) u.groupId = null;
+      });
+      if (db.settings.sso.defaultGroupId === group.id) db.settings.sso.defaultGroupId = null;
+      publishPermissionChanges();
+      return json(200, { success: true });
+    },
+  },
+];
+
+// -- Plans --
+
+function validatePlan(body: Record<string, unknown>, exceptId?: string): Response | null {
+  const issues: Issue[] = [];
+  const { fromRooms, toRooms, ratePerRoom } = body;
+
+  if (!Number.isInteger(fromRooms) || (fromRooms as number) < 1) {
+    issues.push({ path: ["fromRooms"], message: "From rooms must be a whole number of at least 1" });
+  }
+  if (!Number.isInteger(toRooms) || (toRooms as number) < 1) {
+    issues.push({ path: ["toRooms"], message: "To rooms must be a whole number of at least 1" });
+  } else if (Number.isInteger(fromRooms) && (toRooms as number) < (fromRooms as number)) {
+    issues.push({ path: ["toRooms"], message: "To rooms must be greater than or equal to from rooms" });
+  }
+  if (typeof ratePerRoom !== "number" || !(ratePerRoom > 0)) {
+    issues.push({ path: ["ratePerRoom"], message: "Rate per room must be greater than 0" });
+  }
+  if (issues.length > 0) return validationError(issues);
+
+  const input = body as PlanInput;
+  const overlap = db.plans.find(
+    (p) => p.id !== exceptId && input.fromRooms <= p.toRooms && input.toRooms >= p.fromRooms
+  );
+  if (overlap) {
+    return conflict(
+      "fromRooms",
+      `Room range overlaps the existing ${overlap.fromRooms}-${overlap.toRooms} rooms plan`
+    );
+  }
+  return null;
+}
+
+const planRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/plans",
+    handler: (req) => {
+      const auth = authorize(req, "Subscriptions", "Plans", "view");
+      if (auth instanceof Response) return auth;
+      const rows = [...db.plans].sort((a, b) => a.fromRooms - b.fromRooms);
+      return json(200, { data: rows.map(serializePlan) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/plans",
+    handler: (req) => {
+      const auth = authorize(req, "Subscriptions", "Plans", "add");
+      if (auth instanceof Response) return auth;
+
+      const body = asRecord(req.body);
+      const error = validatePlan(body);
+      if (error) return error;
+
+      const input = body as PlanInput;
+      const now = new Date().toISOString();
+      const plan: MockPlan = {
+        id: createId("pln"),
+        fromRooms: input.fromRooms,
+        toRooms: input.toRooms,
+        ratePerRoom: input.ratePerRoom,
+        createdById: auth.id,
+        updatedById: auth.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.plans.push(plan);
+      return json(201, { data: serializePlan(plan) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/plans/bulk-delete",
+    handler: (req) => {
+      const auth = authorize(req, "Subscriptions", "Plans", "delete");
+      if (auth instanceof Response) return auth;
+
+      const { ids } = asRecord(req.body);
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return validationError([{ path: ["ids"], message: "Select at least one plan" }]);
+      }
+
+      const before = db.plans.length;
+      const remaining = db.plans.filter((p) => !ids.includes(p.id));
+      db.plans.splice(0, db.plans.length, ...remaining);
+      return json(200, { success: true, deleted: before - remaining.length });
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/api/plans/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Subscriptions", "Plans", "change");
+      if (auth instanceof Response) return auth;
+
+      const plan = db.plans.find((p) => p.id === req.params.id);
+      if (!plan) return notFound("Plan");
+
+      const body = asRecord(req.body);
+      const error = validatePlan(body, plan.id);
+      if (error) return error;
+
+      const input = body as PlanInput;
+      plan.fromRooms = input.fromRooms;
+      plan.toRooms = input.toRooms;
+      plan.ratePerRoom = input.ratePerRoom;
+      plan.updatedById = auth.id;
+      plan.updatedAt = new Date().toISOString();
+      return json(200, { data: serializePlan(plan) });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/plans/:id",
+    handler: (req) => {
+      const auth = authorize(req, "Subscriptions", "Plans", "delete");
+      if (auth instanceof Response) return auth;
+
+      const index = db.plans.findIndex((p) => p.id === req.params.id);
+      if (index === -1) return notFound("Plan");
+      db.plans.splice(index, 1);
+      return json(200, { success: true });
+    },
+  },
+];
+
+// -- Settings --
+
+/** One day; longer idle timeouts are effectively "never" */
+const MAX_IDLE_TIMEOUT_MINUTES = 24 * 60;
+
+/** e.g. "bookito.test"; no scheme, "@" or path */
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+const settingsRoutes: MockRoute[] = [
+  {
+    // Public: sign-up, reset and accept-invite check passwords before submitting
+    method: "GET",
+    pattern: "/api/settings/password-policy",
+    handler: () => json(200, db.settings.passwordPolicy),
+  },
+  {
+    // Public: the auth page shows a button per provider
+    method: "GET",
+    pattern: "/api/settings/sso-providers",
+    handler: () => json(200, db.ssoProviders.map(({ id, name, type }) => ({ id, name, type }))),
+  },
+  {
+    method: "GET",
+    pattern: "/api/settings/security",
+    handler: ({ session }) => {
+      if (!findUser(session?.userId)) return unauthorized();
+      return json(200, db.settings);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/api/settings/security",
+    handler: (req) => {
+      // Security policies are for admins only, whatever their group allows
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const { requireAdminTwoFactor, idleTimeoutMinutes, passwordPolicy, sso } = asRecord(
+        req.body
+      ) as Partial<SecuritySettings>;
+      const issues: Issue[] = [];
+      if (typeof requireAdminTwoFactor !== "boolean") {
+        issues.push({ path: ["requireAdminTwoFactor"], message: "requireAdminTwoFactor must be a boolean" });
+      }
+      const timeouts = asRecord(idleTimeoutMinutes);
+      for (const role of ["admin", "user"] as const) {
+        const minutes = timeouts[role];
+        if (typeof minutes !== "number" || !Number.isInteger(minutes) || minutes < 0 || minutes > MAX_IDLE_TIMEOUT_MINUTES) {
+          issues.push({
+            path: ["idleTimeoutMinutes", role],
+            message: `Idle timeout must be 0 to ${MAX_IDLE_TIMEOUT_MINUTES} minutes`,
+          });
+        }
+      }
+      const policy = asRecord(passwordPolicy);
+      const { minLength } = policy;
+      if (
+        typeof minLength !== "number" ||
+        !Number.isInteger(minLength) ||
+        minLength < MIN_PASSWORD_LENGTH ||
+        minLength > MAX_PASSWORD_LENGTH
+      ) {
+        issues.push({
+          path: ["passwordPolicy", "minLength"],
+          message: `Minimum length must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH}`,
+        });
+      }
+      const flags = [
+        "requireUppercase",
+        "requireLowercase",
+        "requireNumber",
+        "requireSymbol",
+        "blockCommonPasswords",
+      ] as const;
+      for (const flag of flags) {
+        if (typeof policy[flag] !== "boolean") {
+          issues.push({ path: ["passwordPolicy", flag], message: `${flag} must be a boolean` });
+        }
+      }
+      const { allowedDomains, defaultGroupId } = asRecord(sso);
+      const domains = Array.isArray(allowedDomains) ? allowedDomains : [];
+      if (!Array.isArray(allowedDomains)) {
+        issues.push({ path: ["sso", "allowedDomains"], message: "allowedDomains must be a list of domains" });
+      }
+      domains.forEach((domain, index) => {
+        if (typeof domain !== "string" || !DOMAIN_PATTERN.test(domain)) {
+          issues.push({ path: ["sso", "allowedDomains", String(index)], message: `"${domain}" is not a domain` });
+        }
+      });
+      if (defaultGroupId !== null && !findGroup(String(defaultGroupId))) {
+        issues.push({ path: ["sso", "defaultGroupId"], message: "Group not found" });
+      }
+      if (issues.length > 0) return validationError(issues);
+
+      db.settings.requireAdminTwoFactor = requireAdminTwoFactor as boolean;
+      db.settings.passwordPolicy = {
+        minLength: minLength as number,
+        ...(Object.fromEntries(flags.map((flag) => [flag, policy[flag]])) as Omit<PasswordPolicy, "minLength">),
+      };
+      db.settings.idleTimeoutMinutes = {
+        admin: timeouts.admin as number,
+        user: timeouts.user as number,
+      };
+      db.settings.sso = {
+        allowedDomains: [...new Set((domains as string[]).map((d) => d.toLowerCase()))],
+        defaultGroupId: defaultGroupId as SsoSettings["defaultGroupId"],
+      };
+      return json(200, db.settings);
+    },
+  },
+];
+
+// -- Audit log --
+
+const auditRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    pattern: "/api/audit-log",
+    handler: (req) => {
+      const auth = requireAdmin(req);
+      if (auth instanceof Response) return auth;
+
+      const targetId = req.query.get("targetId");
+      const action = req.query.get("action") as AuditAction | null;
+      const rows = db.auditLog
+        .filter((e) => (!targetId || e.targetId === targetId) && (!action || e.action === action))
+        .reverse();
+      return json(200, { data: rows.map(serializeAuditEntry) });
+    },
+  },
+];
+
+// -- AI chat --
+
+const aiRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    pattern: "/api/ai/chat",
+    handler: ({ session, body }) => {
+      if (!findUser(session?.userId)) return unauthorized();
+
+      const { message } = asRecord(body) as Partial<ChatRequest>;
+      if (typeof message !== "string" || !message.trim()) {
+        return validationError([{ path: ["message"], message: "Message is required" }]);
+      }
+      return json(200, {
+        response: `(Mock assistant) You said: "${message.trim()}". Connect the real backend for AI answers.`,
+      });
+    },
+  },
+];
+
+export const mockRoutes: MockRoute[] = [
+  ...authRoutes,
+  ...twoFactorRoutes,
+  ...ssoRoutes,
+  ...impersonationRoutes,
+  ...banRoutes,
+  ...meRoutes,
+  ...userRoutes,
+  ...invitationRoutes,
+  ...groupRoutes,
+  ...planRoutes,
+  ...settingsRoutes,
+  ...auditRoutes,
+  ...aiRoutes,
+];
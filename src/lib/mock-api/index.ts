@@ -0,0 +1,87 @@
+// ============================================================
+// Mock API
+// ============================================================
+// Opt-in, offline backend for development and automated tests.
+// Enable it with VITE_MOCK_API=true (e.g. in .env.local); main.tsx
+// then loads this module before rendering and it answers every
+// "/api/..." fetch in the browser — both lib/api and the
+// better-auth client — from the in-memory db. Other requests
+// (locale files, assets) go to the network as usual.
+//
+// Seeded accounts are listed in db.ts. Data resets on reload.
+// ============================================================
+
+import { matchPath } from "@/lib/router";
+import { getCurrentSession } from "@/lib/mock-api/db";
+import { json, mockRoutes } from "@/lib/mock-api/handlers";
+
+/** Simulated network latency, so loading states are visible */
+const LATENCY_MS = 250;
+
+function delay(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Answer one /api request from the mock routes */
+export async function handleMockRequest(request: Request): Promise<Response> {
+  const { pathname, searchParams } = new URL(request.url);
+
+  const methodMatches = mockRoutes.filter((route) => matchPath(route.pattern, pathname));
+  const route = methodMatches.find((r) => r.method === request.method);
+  if (!route) {
+    return methodMatches.length > 0
+      ? json(405, { message: `Method ${request.method} not allowed` })
+      : json(404, { message: `No mock for ${request.method} ${pathname}` });
+  }
+
+  const params = matchPath(route.pattern, pathname) ?? {};
+  const body = request.method === "GET" ? undefined : await readJson(request);
+  return route.handler({ params, query: searchParams, body, session: getCurrentSession() });
+}
+
+export type MockApiOptions = {
+  /** Delay before each answer; tests pass 0 */
+  latencyMs?: number;
+};
+
+/** Route every /api fetch through the mock backend */
+export function installMockApi({ latencyMs = LATENCY_MS }: MockApiOptions = {}) {
+  const realFetch = window.fetch.bind(window);
+
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const { pathname } = new URL(request.url);
+    if (!pathname.startsWith("/api/")) {
+      return realFetch(input, init);
+    }
+
+    await delay(latencyMs, request.signal);
+    return handleMockRequest(request);
+  };
+
+  console.info("[mock-api] Serving /api from in-memory data (VITE_MOCK_API)");
+}
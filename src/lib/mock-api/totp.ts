@@ -0,0 +1,89 @@
+// ============================================================
+// Mock API — TOTP
+// ============================================================
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30s),
+// the defaults of better-auth's two-factor plugin and of every
+// authenticator app. Lets the mock check real codes from the
+// QR code shown in Settings › Account.
+// ============================================================
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const DIGITS = 6;
+const PERIOD_SECONDS = 30;
+/** Accept the previous and next code too, for clock drift */
+const WINDOW = 1;
+
+function toBase32(bytes: Uint8Array) {
+  let bits = "";
+  bytes.forEach((byte) => {
+    bits += byte.toString(2).padStart(8, "0");
+  });
+  let output = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return output;
+}
+
+function fromBase32(secret: string) {
+  let bits = "";
+  for (const char of secret.replace(/=+$/, "").toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value !== -1) bits += value.toString(2).padStart(5, "0");
+  }
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  bytes.forEach((_, i) => {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  });
+  return bytes;
+}
+
+/** New random base32 secret */
+export function generateTotpSecret() {
+  return toBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/** otpauth:// URI that authenticator apps read from the QR code */
+export function totpUri(secret: string, issuer: string, account: string) {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+async function codeAt(key: CryptoKey, counter: number) {
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter % 2 ** 32);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/** Does `code` match the current time step (± WINDOW)? */
+export async function verifyTotp(secret: string, code: string) {
+  if (!/^\d{6}$/.test(code)) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    fromBase32(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const counter = Math.floor(Date.now() / 1000 / PERIOD_SECONDS);
+  for (let drift = -WINDOW; drift <= WINDOW; drift++) {
+    if ((await codeAt(key, counter + drift)) === code) return true;
+  }
+  return false;
+}
@@ -0,0 +1,86 @@
+// ============================================================
+// Password Policy
+// ============================================================
+// Rules every new password must meet, set by admins in
+// Settings › General and read (without a session) from
+// /api/settings/password-policy:
+//   - checkPassword(): one result per rule the policy turns on,
+//     for the live checklist next to password fields
+//   - isPasswordValid(): all of them pass
+//   - passwordStrength(): 0 (weak) to 4 (strong), for the meter;
+//     independent of the policy
+// The backend applies the same rules to sign-up, reset, invite
+// acceptance and admin-set passwords.
+// ============================================================
+
+import type { PasswordPolicy } from "@/lib/api";
+import { COMMON_PASSWORDS } from "@/lib/common-passwords";
+
+// -- Constants --
+
+/** better-auth's own limits; the policy can only tighten the minimum */
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+
+/** Used until the configured policy has loaded */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: MIN_PASSWORD_LENGTH,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  blockCommonPasswords: true,
+};
+
+// -- Rules --
+
+export type PasswordRule = "length" | "uppercase" | "lowercase" | "number" | "symbol" | "common";
+
+export type PasswordRuleResult = {
+  rule: PasswordRule;
+  passed: boolean;
+};
+
+export function isCommonPassword(password: string) {
+  return COMMON_PASSWORDS.has(password.trim().toLowerCase());
+}
+
+export function checkPassword(password: string, policy: PasswordPolicy): PasswordRuleResult[] {
+  const results: PasswordRuleResult[] = [
+    { rule: "length", passed: password.length >= policy.minLength && password.length <= MAX_PASSWORD_LENGTH },
+  ];
+  if (policy.requireUppercase) results.push({ rule: "uppercase", passed: /\p{Lu}/u.test(password) });
+  if (policy.requireLowercase) results.push({ rule: "lowercase", passed: /\p{Ll}/u.test(password) });
+  if (policy.requireNumber) results.push({ rule: "number", passed: /\d/.test(password) });
+  if (policy.requireSymbol) results.push({ rule: "symbol", passed: /[^\p{L}\d\s]/u.test(password) });
+  if (policy.blockCommonPasswords) {
+    results.push({ rule: "common", passed: password.length > 0 && !isCommonPassword(password) });
+  }
+  return results;
+}
+
+export function isPasswordValid(password: string, policy: PasswordPolicy) {
+  return checkPassword(password, policy).every((result) => result.passed);
+}
+
+// -- Strength --
+
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+/** Rough estimate from length and character variety; common passwords score 0 */
+export function passwordStrength(password: string): PasswordStrengthScore {
+  if (!password || isCommonPassword(password)) return 0;
+
+  const classes = [/\p{Lu}/u, /\p{Ll}/u, /\d/, /[^\p{L}\d]/u].filter((pattern) => pattern.test(password)).length;
+  // A run of one repeated character adds little
+  const uniqueChars = new Set(password).size;
+
+  let score = 0;
+  if (password.length >= 8) score += 1;
+  if (password.length >= 12) score += 1;
+  if (password.length >= 16) score += 1;
+  if (classes >= 3) score += 1;
+  if (classes === 4 && password.length >= 10) score += 1;
+  if (uniqueChars < 5) score = Math.min(score, 1);
+  return Math.min(score, 4) as PasswordStrengthScore;
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { PermissionsData } from "@/context/PermissionContext";
+import type { GroupData, MenuPermissionData } from "@/lib/api";
+import { ALL_MENU_ITEMS } from "@/lib/menu-config";
+import {
+  copyPermissions,
+  getVerbs,
+  hasAllVerbs,
+  hasVerbEverywhere,
+  setAllVerbs,
+  setVerb,
+  setVerbForAll,
+  setVerbs,
+  type MatrixTarget,
+} from "@/lib/permission-matrix";
+import { mockRequest, signInAs } from "@/test/mock-api";
+
+function target(mainMenu: string, subMenu: string): MatrixTarget {
+  const sub = ALL_MENU_ITEMS.find((menu) => menu.title === mainMenu)?.items.find((item) => item.title === subMenu);
+  if (!sub) throw new Error(`No submenu ${mainMenu} › ${subMenu}`);
+  return { mainMenu, sub };
+}
+
+function targetsOf(mainMenu: string): MatrixTarget[] {
+  return ALL_MENU_ITEMS.find((menu) => menu.title === mainMenu)!.items.map((sub) => ({ mainMenu, sub }));
+}
+
+const PLANS = target("Subscriptions", "Plans");
+const ACTIVE = target("Subscriptions", "Active Subscriptions");
+const INVOICE_LIST = target("Invoices", "Invoice List");
+const CREATE_INVOICE = target("Invoices", "Create Invoice");
+const OVERVIEW = target("Dashboard", "Overview");
+
+async function loadGroup(id: string): Promise<GroupData> {
+  const { body } = await mockRequest<{ data: GroupData[] }>("GET", "/api/groups");
+  const group = body.data.find((g) => g.id === id);
+  if (!group) throw new Error(`No group ${id}`);
+  return group;
+}
+
+async function saveGroup(group: GroupData, permissions: MenuPermissionData[]) {
+  return mockRequest("PUT", `/api/groups/${group.id}`, {
+    name: group.name,
+    description: group.description ?? undefined,
+    permissions,
+  });
+}
+
+describe("permission matrix toggles", () => {
+  let managers: GroupData;
+  let viewers: GroupData;
+
+  beforeEach(async () => {
+    await signInAs("admin@bookito.test", "admin123");
+    managers = await loadGroup("grp_managers");
+    viewers = await loadGroup("grp_viewers");
+  });
+
+  it("reads the seeded group's verbs, and none for a hidden submenu", () => {
+    expect(getVerbs(managers.permissions, INVOICE_LIST)).toEqual(["view", "add", "change", "export", "approve"]);
+    expect(getVerbs(viewers.permissions, PLANS)).toEqual(["view"]);
+    expect(getVerbs(viewers.permissions, INVOICE_LIST)).toEqual([]);
+  });
+
+  it("grants view along with any other verb", () => {
+    const rows = setVerb(viewers.permissions, ACTIVE, "change", true);
+
+    expect(getVerbs(rows, ACTIVE)).toEqual(["view", "change"]);
+    expect(rows.find((row) => row.subMenu === "Active Subscriptions")?.url).toBe("active-subscriptions");
+    // The input is left alone
+    expect(getVerbs(viewers.permissions, ACTIVE)).toEqual([]);
+  });
+
+  it("removes the whole row when view is revoked", () => {
+    const rows = setVerb(managers.permissions, PLANS, "view", false);
+
+    expect(getVerbs(rows, PLANS)).toEqual([]);
+    expect(rows.some((row) => row.subMenu === "Plans")).toBe(false);
+    expect(rows).toHaveLength(managers.permissions.length - 1);
+  });
+
+  it("keeps view when another verb is revoked", () => {
+    const rows = setVerb(managers.permissions, PLANS, "delete", false);
+    expect(getVerbs(rows, PLANS)).toEqual(["view", "add", "change"]);
+  });
+
+  it("drops verbs the submenu does not declare and keeps menu-config order", () => {
+    expect(getVerbs(setVerbs([], CREATE_INVOICE, ["void", "add", "delete"]), CREATE_INVOICE)).toEqual(["view", "add"]);
+    expect(getVerbs(setVerbs([], OVERVIEW, ["view", "change", "delete"]), OVERVIEW)).toEqual(["view"]);
+  });
+
+  it("toggles a column for every submenu that declares the verb", () => {
+    const invoices = targetsOf("Invoices");
+    expect(hasVerbEverywhere(managers.permissions, invoices, "add")).toBe(false);
+
+    const granted = setVerbForAll(managers.permissions, invoices, "add", true);
+    expect(hasVerbEverywhere(granted, invoices, "add")).toBe(true);
+    expect(getVerbs(granted, CREATE_INVOICE)).toEqual(["view", "add"]);
+
+    // Create Invoice has no "void", so only Invoice List counts
+    const voided = setVerbForAll(granted, invoices, "void", true);
+    expect(hasVerbEverywhere(voided, invoices, "void")).toBe(true);
+    expect(getVerbs(voided, CREATE_INVOICE)).toEqual(["view", "add"]);
+
+    const revoked = setVerbForAll(granted, invoices, "add", false);
+    expect(getVerbs(revoked, INVOICE_LIST)).toEqual(["view", "change", "export", "approve"]);
+    expect(getVerbs(revoked, CREATE_INVOICE)).toEqual(["view"]);
+  });
+
+  it("reports a column as unchecked when no submenu declares the verb", () => {
+    expect(hasVerbEverywhere(managers.permissions, targetsOf("Dashboard"), "add")).toBe(false);
+  });
+
+  it("grants or clears a whole main menu", () => {
+    const subscriptions = targetsOf("Subscriptions");
+    expect(hasAllVerbs(managers.permissions, subscriptions)).toBe(false);
+
+    const all = setAllVerbs(managers.permissions, subscriptions, true);
+    expect(hasAllVerbs(all, subscriptions)).toBe(true);
+    expect(getVerbs(all, ACTIVE)).toEqual(["view", "add", "change", "delete"]);
+
+    const none = setAllVerbs(all, subscriptions, false);
+    expect(subscriptions.every((t) => getVerbs(none, t).length === 0)).toBe(true);
+    // Other menus are untouched
+    expect(getVerbs(none, INVOICE_LIST)).toEqual(getVerbs(managers.permissions, INVOICE_LIST));
+  });
+
+  it("copies rows so editing the copy leaves the source group alone", () => {
+    const copy = copyPermissions(managers.permissions);
+    copy[0].verbs.push("export");
+    expect(managers.permissions[0].verbs).not.toContain("export");
+  });
+
+  it("produces rows the backend accepts and applies to the group's members", async () => {
+    let rows = setVerb(viewers.permissions, PLANS, "add", true);
+    rows = setVerb(rows, INVOICE_LIST, "export", true);
+    expect((await saveGroup(viewers, rows)).status).toBe(200);
+
+    await signInAs("viewer@bookito.test", "viewer123");
+    const { body } = await mockRequest<PermissionsData>("GET", "/api/me/permissions");
+    const permissionsOf = (mainMenu: string, subMenu: string) =>
+      body.menus.find((m) => m.main_menu === mainMenu)?.sub_menu.find((s) => s.menu_name === subMenu)?.permissions;
+
+    expect(permissionsOf("Subscriptions", "Plans")).toMatchObject({ view: true, add: true, change: false });
+    expect(permissionsOf("Invoices", "Invoice List")).toMatchObject({ view: true, export: true, add: false });
+  });
+
+  it("is rejected by the backend when view is missing", async () => {
+    const { status } = await saveGroup(viewers, [{ ...viewers.permissions[0], verbs: ["add"] }]);
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,112 @@
+// ============================================================
+// Permission Matrix Operations
+// ============================================================
+// Pure edits of a group's permission rows (MenuPermissionData[]),
+// shared by the matrix in Team → Groups and the templates.
+// A submenu without a row is hidden; "view" must be granted for
+// any other verb, so:
+//   - granting a verb also grants "view"
+//   - revoking "view" removes the whole row
+// ============================================================
+
+import type { MenuPermissionData } from "@/lib/api";
+import type { MenuSubItem } from "@/lib/menu-config";
+import { PERMISSION_VERBS, submenuVerbs, type PermissionVerb } from "@/lib/permission-verbs";
+
+/** A submenu of the matrix, with the main menu it belongs to */
+export type MatrixTarget = {
+  mainMenu: string;
+  sub: MenuSubItem;
+};
+
+function isRowOf(row: MenuPermissionData, { mainMenu, sub }: MatrixTarget) {
+  return row.mainMenu === mainMenu && row.subMenu === sub.title;
+}
+
+/** Granted verbs of a submenu (empty when it has no row) */
+export function getVerbs(permissions: MenuPermissionData[], target: MatrixTarget): PermissionVerb[] {
+  return permissions.find((row) => isRowOf(row, target))?.verbs ?? [];
+}
+
+/**
+ * Replace the verbs of a submenu. Verbs it does not declare are
+ * dropped, "view" is added when anything else is granted, and no
+ * verbs removes the row.
+ */
+export function setVerbs(
+  permissions: MenuPermissionData[],
+  target: MatrixTarget,
+  verbs: readonly PermissionVerb[]
+): MenuPermissionData[] {
+  const declared = submenuVerbs(target.sub);
+  const granted = PERMISSION_VERBS.filter(
+    (verb) => declared.includes(verb) && (verbs.includes(verb) || (verb === "view" && verbs.length > 0))
+  );
+  const existing = permissions.find((row) => isRowOf(row, target));
+
+  if (granted.length === 0) return permissions.filter((row) => row !== existing);
+  if (existing) return permissions.map((row) => (row === existing ? { ...row, verbs: granted } : row));
+  return [
+    ...permissions,
+    { mainMenu: target.mainMenu, subMenu: target.sub.title, url: target.sub.url, verbs: granted },
+  ];
+}
+
+/** Grant or revoke one verb on a submenu */
+export function setVerb(
+  permissions: MenuPermissionData[],
+  target: MatrixTarget,
+  verb: PermissionVerb,
+  granted: boolean
+): MenuPermissionData[] {
+  const current = getVerbs(permissions, target);
+  if (granted) return setVerbs(permissions, target, [...current, verb]);
+  return setVerbs(permissions, target, verb === "view" ? [] : current.filter((v) => v !== verb));
+}
+
+/** Whether every target that declares `verb` has it (false when none declares it) */
+export function hasVerbEverywhere(
+  permissions: MenuPermissionData[],
+  targets: MatrixTarget[],
+  verb: PermissionVerb
+): boolean {
+  const applicable = targets.filter((target) => submenuVerbs(target.sub).includes(verb));
+  return applicable.length > 0 && applicable.every((target) => getVerbs(permissions, target).includes(verb));
+}
+
+/** Whole-column toggle: grant or revoke `verb` on every target that declares it */
+export function setVerbForAll(
+  permissions: MenuPermissionData[],
+  targets: MatrixTarget[],
+  verb: PermissionVerb,
+  granted: boolean
+): MenuPermissionData[] {
+  return targets
+    .filter((target) => submenuVerbs(target.sub).includes(verb))
+    .reduce((rows, target) => setVerb(rows, target, verb, granted), permissions);
+}
+
+/** Whether every target has all the verbs it declares */
+export function hasAllVerbs(permissions: MenuPermissionData[], targets: MatrixTarget[]): boolean {
+  return targets.every((target) => {
+    const current = getVerbs(permissions, target);
+    return submenuVerbs(target.sub).every((verb) => current.includes(verb));
+  });
+}
+
+/** Row / main-menu toggle: grant everything the targets declare, or nothing */
+export function setAllVerbs(
+  permissions: MenuPermissionData[],
+  targets: MatrixTarget[],
+  granted: boolean
+): MenuPermissionData[] {
+  return targets.reduce(
+    (rows, target) => setVerbs(rows, target, granted ? submenuVerbs(target.sub) : []),
+    permissions
+  );
+}
+
+/** Copy of another group's rows, so editing the copy leaves the source alone */
+export function copyPermissions(permissions: MenuPermissionData[]): MenuPermissionData[] {
+  return permissions.map((row) => ({ ...row, verbs: [...row.verbs] }));
+}
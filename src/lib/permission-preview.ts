@@ -0,0 +1,71 @@
+// ============================================================
+// Permission Preview
+// ============================================================
+// What a group's members get from a set of permission rows,
+// worked out in the browser for "Preview as group" in
+// Team → Groups (before the rows are saved):
+//   - groupPermissionsData(): the /api/me/permissions payload a
+//     member would receive, to inject into PermissionProvider
+//   - diffPermissions(): submenus whose verbs differ between the
+//     saved rows and the edited ones
+// ============================================================
+
+import type { PermissionsData } from "@/context/PermissionContext";
+import type { MenuPermissionData } from "@/lib/api";
+import { ALL_MENU_ITEMS } from "@/lib/menu-config";
+import { getVerbs } from "@/lib/permission-matrix";
+import { PERMISSION_VERBS, submenuVerbs, type PermissionVerb } from "@/lib/permission-verbs";
+
+/** Permissions of a regular user in the group, as the backend would send them */
+export function groupPermissionsData(group: {
+  id: string | null;
+  name: string;
+  permissions: MenuPermissionData[];
+}): PermissionsData {
+  const menus = ALL_MENU_ITEMS.map((menu) => ({
+    main_menu: menu.title,
+    sub_menu: menu.items.flatMap((sub) => {
+      const verbs = getVerbs(group.permissions, { mainMenu: menu.title, sub });
+      if (!verbs.includes("view")) return [];
+      const declared = submenuVerbs(sub);
+      return [
+        {
+          menu_name: sub.title,
+          url: sub.url,
+          permissions: Object.fromEntries(declared.map((verb) => [verb, verbs.includes(verb)])),
+        },
+      ];
+    }),
+  })).filter((menu) => menu.sub_menu.length > 0);
+
+  return { role: "user", groupName: group.name, groupId: group.id, menus };
+}
+
+/** One submenu whose verbs differ, in menu-config order */
+export type PermissionChange = {
+  mainMenu: string;
+  subMenu: string;
+  saved: PermissionVerb[];
+  draft: PermissionVerb[];
+};
+
+/** Submenus whose granted verbs differ between `saved` and `draft` */
+export function diffPermissions(
+  saved: MenuPermissionData[],
+  draft: MenuPermissionData[]
+): PermissionChange[] {
+  return ALL_MENU_ITEMS.flatMap((menu) =>
+    menu.items.flatMap((sub) => {
+      const target = { mainMenu: menu.title, sub };
+      // Declared verbs only, in PERMISSION_VERBS order, so the comparison ignores row order
+      const normalize = (rows: MenuPermissionData[]) => {
+        const verbs = getVerbs(rows, target);
+        return PERMISSION_VERBS.filter((verb) => verbs.includes(verb) && submenuVerbs(sub).includes(verb));
+      };
+      const before = normalize(saved);
+      const after = normalize(draft);
+      if (before.join() === after.join()) return [];
+      return [{ mainMenu: menu.title, subMenu: sub.title, saved: before, draft: after }];
+    })
+  );
+}
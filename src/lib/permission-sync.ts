@@ -0,0 +1,158 @@
+// ============================================================
+// Permission Sync
+// ============================================================
+// Keeps PermissionProvider's permissions current while the app is
+// open, so a group edit reaches its members without a reload:
+//   - watchPermissionChanges(): follows the backend's event stream
+//     (GET /api/me/permissions/events, a "permissions" event when
+//     the user's role, group or group permissions change). While
+//     the stream is down it revalidates whenever the tab regains
+//     focus, and reconnects with backoff; a backend without the
+//     endpoint (4xx) gets focus revalidation only.
+//   - openPermissionChannel(): a BroadcastChannel, so permissions
+//     loaded in one tab are applied in every tab of the same user
+// ============================================================
+
+import type { PermissionsData } from "@/context/PermissionContext";
+import { API_BASE } from "@/lib/api";
+
+const EVENTS_PATH = "/api/me/permissions/events";
+const CHANNEL_NAME = "pms-permissions";
+
+const RECONNECT_MIN_MS = 2_000;
+const RECONNECT_MAX_MS = 60_000;
+/** Switching tabs back and forth refetches at most this often */
+const FOCUS_REVALIDATE_MS = 10_000;
+
+// -- Event stream --
+
+/** Reads a text/event-stream body, calling onEvent with each event's name */
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  signal: AbortSignal,
+  onEvent: (name: string) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  // Also releases streams the abort does not reach (e.g. the mock API's)
+  signal.addEventListener("abort", () => reader.cancel().catch(() => {}), { once: true });
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+
+    // Events end with a blank line; keep a trailing partial one for the next chunk
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const lines = block.split("\n").filter((line) => line && !line.startsWith(":"));
+      if (lines.length === 0) continue; // Comment / keep-alive
+      const name = lines.find((line) => line.startsWith("event:"))?.slice(6).trim();
+      onEvent(name || "message");
+    }
+  }
+}
+
+/**
+ * Calls onChange whenever the signed-in user's permissions may have
+ * changed (see the header). Returns the cleanup function.
+ */
+export function watchPermissionChanges(onChange: () => void) {
+  const controller = new AbortController();
+  let isStreaming = false;
+  let hasStreamed = false;
+  let retryDelay = RECONNECT_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastRevalidated = Date.now();
+
+  const revalidateOnFocus = () => {
+    if (isStreaming || document.visibilityState !== "visible") return;
+    if (Date.now() - lastRevalidated < FOCUS_REVALIDATE_MS) return;
+    lastRevalidated = Date.now();
+    onChange();
+  };
+
+  const reconnectLater = () => {
+    retryTimer = setTimeout(connect, retryDelay);
+    retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS);
+  };
+
+  async function connect() {
+    try {
+      const res = await fetch(`${API_BASE}${EVENTS_PATH}`, {
+        credentials: "include",
+        headers: { Accept: "text/event-stream" },
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        // Not offered (404) or signed out (401): focus revalidation only
+        if (res.status >= 500) reconnectLater();
+        return;
+      }
+
+      isStreaming = true;
+      retryDelay = RECONNECT_MIN_MS;
+      // Changes made while reconnecting were not pushed
+      if (hasStreamed) onChange();
+      hasStreamed = true;
+
+      await readEvents(res.body, controller.signal, (name) => {
+        if (name === "permissions") onChange();
+      });
+    } catch {
+      // Network error or aborted; handled below
+    }
+
+    isStreaming = false;
+    if (!controller.signal.aborted) reconnectLater();
+  }
+
+  connect();
+  window.addEventListener("focus", revalidateOnFocus);
+  document.addEventListener("visibilitychange", revalidateOnFocus);
+
+  return () => {
+    controller.abort();
+    clearTimeout(retryTimer);
+    window.removeEventListener("focus", revalidateOnFocus);
+    document.removeEventListener("visibilitychange", revalidateOnFocus);
+  };
+}
+
+// -- Cross-tab channel --
+
+type PermissionMessage = {
+  userId: string;
+  data: PermissionsData;
+};
+
+export type PermissionChannel = {
+  /** Share freshly loaded permissions with the user's other tabs */
+  publish: (data: PermissionsData) => void;
+  close: () => void;
+};
+
+/**
+ * Receives permissions that another tab of `userId` loaded. Tabs
+ * signed in as someone else (or impersonating) ignore them.
+ */
+export function openPermissionChannel(
+  userId: string,
+  onData: (data: PermissionsData) => void
+): PermissionChannel {
+  if (typeof BroadcastChannel === "undefined") {
+    return { publish: () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<PermissionMessage>) => {
+    if (event.data?.userId === userId) onData(event.data.data);
+  };
+
+  return {
+    publish: (data) => channel.postMessage({ userId, data } satisfies PermissionMessage),
+    close: () => channel.close(),
+  };
+}
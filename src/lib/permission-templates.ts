@@ -0,0 +1,89 @@
+// ============================================================
+// Permission Templates
+// ============================================================
+// Built-in starting points for a group's permission matrix
+// ("Start from template" in Team → Groups). A template grants
+// verbs per main menu, or per submenu where it needs to be more
+// specific; "all" means every verb the submenu declares. Verbs a
+// submenu does not declare are skipped, and "view" comes with
+// anything else (see lib/permission-matrix).
+// ============================================================
+
+import type { MenuPermissionData } from "@/lib/api";
+import { ALL_MENU_ITEMS } from "@/lib/menu-config";
+import { setVerbs } from "@/lib/permission-matrix";
+import { submenuVerbs, type PermissionVerb } from "@/lib/permission-verbs";
+
+type Grant = "all" | PermissionVerb[];
+
+/** Main menu title -> grant for all its submenus, or submenu title -> grant */
+type TemplateGrants = Record<string, Grant | Record<string, Grant>>;
+
+export type PermissionTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  grants: TemplateGrants;
+};
+
+export const PERMISSION_TEMPLATES: PermissionTemplate[] = [
+  {
+    id: "read-only",
+    name: "Read-only",
+    description: "Sees every page except Team, changes nothing",
+    grants: {
+      Dashboard: ["view"],
+      Properties: ["view"],
+      Subscriptions: ["view"],
+      Invoices: ["view"],
+      Payments: ["view"],
+      Expenses: ["view"],
+      Sales: ["view"],
+      Reports: ["view"],
+      Settings: ["view"],
+    },
+  },
+  {
+    id: "accountant",
+    name: "Accountant",
+    description: "Invoices, payments, expenses and reports, including approve, void and export",
+    grants: {
+      Dashboard: ["view"],
+      Subscriptions: ["view"],
+      Invoices: "all",
+      Payments: "all",
+      Expenses: "all",
+      Sales: ["view", "export"],
+      Reports: "all",
+      Settings: { Account: ["view"] },
+    },
+  },
+  {
+    id: "front-office",
+    name: "Front Office",
+    description: "Day-to-day desk work: properties, new invoices and taking payments",
+    grants: {
+      Dashboard: ["view"],
+      Properties: { "Property List": ["view", "add", "change"] },
+      Subscriptions: { "Active Subscriptions": ["view"] },
+      Invoices: { "Invoice List": ["view", "add"], "Create Invoice": "all" },
+      Payments: { "Payment List": ["view", "add"] },
+      Sales: { "Sales List": ["view", "add"] },
+      Settings: { Account: ["view"] },
+    },
+  },
+];
+
+/** The permission rows a template grants */
+export function templatePermissions(template: PermissionTemplate): MenuPermissionData[] {
+  return ALL_MENU_ITEMS.reduce<MenuPermissionData[]>((rows, menu) => {
+    const menuGrant = template.grants[menu.title];
+    if (!menuGrant) return rows;
+
+    return menu.items.reduce((menuRows, sub) => {
+      const grant = Array.isArray(menuGrant) || menuGrant === "all" ? menuGrant : menuGrant[sub.title];
+      if (!grant) return menuRows;
+      return setVerbs(menuRows, { mainMenu: menu.title, sub }, grant === "all" ? submenuVerbs(sub) : grant);
+    }, rows);
+  }, []);
+}
@@ -0,0 +1,46 @@
+// ============================================================
+// Permission Verbs
+// ============================================================
+// What a group can be allowed to do on a submenu. Each submenu
+// in menu-config declares the verbs that apply to it (default:
+// view/add/change/delete); finance pages add export, approve
+// and void.
+//
+//   - "view" makes the submenu visible; every other verb needs it
+//   - To add a verb: append it to PERMISSION_VERBS, give it a
+//     label, declare it on the submenus that use it, and add
+//     "permissions.actions.<verb>" to the locale files (the
+//     backend keeps the same list)
+// ============================================================
+
+import { ALL_MENU_ITEMS, type MenuSubItem } from "@/lib/menu-config";
+
+export const PERMISSION_VERBS = ["view", "add", "change", "delete", "export", "approve", "void"] as const;
+
+export type PermissionVerb = (typeof PERMISSION_VERBS)[number];
+
+/** Verbs of a submenu that does not declare its own */
+export const DEFAULT_VERBS: readonly PermissionVerb[] = ["view", "add", "change", "delete"];
+
+/** Column headings in the permission matrix */
+export const PERMISSION_VERB_LABELS: Record<PermissionVerb, string> = {
+  view: "View",
+  add: "Add",
+  change: "Change",
+  delete: "Delete",
+  export: "Export",
+  approve: "Approve",
+  void: "Void",
+};
+
+/** The verbs a submenu declares, in PERMISSION_VERBS order */
+export function submenuVerbs(sub: MenuSubItem): PermissionVerb[] {
+  const declared = sub.verbs ?? DEFAULT_VERBS;
+  return PERMISSION_VERBS.filter((verb) => declared.includes(verb));
+}
+
+/** Look up a submenu by its main and sub menu titles */
+export function findSubmenu(mainMenu: string, subMenu: string): MenuSubItem | null {
+  const menu = ALL_MENU_ITEMS.find((m) => m.title === mainMenu);
+  return menu?.items.find((s) => s.title === subMenu) ?? null;
+}
@@ -0,0 +1,223 @@
+// ============================================================
+// Query Cache
+// ============================================================
+// Shared, in-memory cache for admin data fetched from /api.
+//   - One entry per query key, e.g. ["groups"], shared by every
+//     page that reads it (UserManagement and GroupManagement
+//     both read ["groups"] and fetch it only once)
+//   - Stale-while-revalidate: cached data is shown instantly and
+//     refreshed in the background once older than `staleTime`
+//   - Concurrent fetches of the same key are de-duplicated
+//   - Mutations either patch an entry (setQueryData) or mark
+//     it stale and refetch it (invalidateQueries)
+//
+// React components read entries through hooks/useQuery.ts.
+// ============================================================
+
+import { isAbortError } from "@/lib/api";
+
+// -- Types --
+
+export type QueryKey = readonly string[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  /** A request for this key is in flight */
+  isFetching: boolean;
+  /** When data was last stored (0 = never) */
+  updatedAt: number;
+  /** Set by invalidateQueries(); forces the next read to refetch */
+  isInvalidated: boolean;
+};
+
+type Entry = {
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+};
+
+// -- Keys used across the app --
+
+export const queryKeys = {
+  users: ["users"],
+  groups: ["groups"],
+  plans: ["plans"],
+  securitySettings: ["settings", "security"],
+  passwordPolicy: ["settings", "password-policy"],
+  ssoProviders: ["settings", "sso-providers"],
+  sessions: ["sessions"],
+  auditLog: ["audit-log"],
+  invitations: ["invitations"],
+} as const satisfies Record<string, QueryKey>;
+
+/** Sessions of one user, or of the signed-in user when `userId` is omitted */
+export function sessionsKey(userId?: string): QueryKey {
+  return [...queryKeys.sessions, userId ?? "me"];
+}
+
+/** Default time before cached data is refetched in the background */
+export const DEFAULT_STALE_TIME = 60_000;
+
+// -- Store --
+
+const entries = new Map<string, Entry>();
+
+const EMPTY_STATE: QueryState<unknown> = {
+  data: undefined,
+  error: null,
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+function hashKey(key: QueryKey) {
+  return JSON.stringify(key);
+}
+
+function getEntry(key: QueryKey): Entry {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+}
+
+function setState(entry: Entry, patch: Partial<QueryState<unknown>>) {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+}
+
+/** Does `key` start with `prefix`? (["groups", "1"] matches ["groups"]) */
+function matchesPrefix(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, i) => key[i] === part);
+}
+
+// -- Reading --
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return getEntry(key).state as QueryState<T>;
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+export function isQueryStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME) {
+  const { updatedAt, isInvalidated } = getEntry(key).state;
+  return isInvalidated || updatedAt === 0 || Date.now() - updatedAt > staleTime;
+}
+
+// -- Fetching --
+
+/**
+ * Fetch `key` unless a request for it is already in flight.
+ * `force` aborts the in-flight request and starts a new one
+ * (used after mutations so the refetch sees the new data).
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { force = false }: { force?: boolean } = {}
+): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+  if (entry.promise && !force) {
+    return entry.promise as Promise<T>;
+  }
+
+  entry.controller?.abort();
+  const controller = new AbortController();
+  entry.controller = controller;
+
+  const promise = fetcher(controller.signal).then(
+    (data) => {
+      if (entry.controller === controller) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+        setState(entry, {
+          data,
+          error: null,
+          isFetching: false,
+          updatedAt: Date.now(),
+          isInvalidated: false,
+        });
+      }
+      return data;
+    },
+    (err) => {
+      if (entry.controller === controller) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+        // Keep showing the last good data; only surface the error
+        setState(entry, { error: isAbortError(err) ? null : err, isFetching: false });
+      }
+      throw err;
+    }
+  );
+
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+}
+
+// -- Mutating --
+
+/** Replace (or patch) the cached data of `key`, e.g. for optimistic updates */
+export function setQueryData<T>(key: QueryKey, updater: T | ((prev: T | undefined) => T)) {
+  const entry = getEntry(key);
+  const prev = entry.state.data as T | undefined;
+  const data =
+    typeof updater === "function" ? (updater as (prev: T | undefined) => T)(prev) : updater;
+  setState(entry, { data, updatedAt: Date.now() });
+}
+
+/**
+ * Apply an optimistic patch to `key` and return a function that
+ * restores the previous data (call it when the mutation fails).
+ */
+export function optimisticUpdate<T>(key: QueryKey, updater: (prev: T) => T) {
+  const entry = getEntry(key);
+  const snapshot = entry.state;
+  if (snapshot.data !== undefined) {
+    setState(entry, { data: updater(snapshot.data as T) });
+  }
+  return () => setState(entry, { data: snapshot.data });
+}
+
+/**
+ * Mark every entry under `prefix` as stale. Entries that are on
+ * screen right now are refetched immediately.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry, hash) => {
+    const key = JSON.parse(hash) as QueryKey;
+    if (!matchesPrefix(key, prefix)) return;
+
+    setState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher, { force: true }).catch(() => {});
+    }
+  });
+}
+
+/** Drop every cached entry (e.g. on sign-out, so the next user starts clean) */
+export function clearQueryCache() {
+  entries.forEach((entry) => {
+    entry.controller?.abort();
+    entry.promise = undefined;
+    entry.controller = undefined;
+    setState(entry, EMPTY_STATE);
+  });
+}
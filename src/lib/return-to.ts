@@ -0,0 +1,67 @@
+// ============================================================
+// Return-To (deep links across sign-in)
+// ============================================================
+// When a signed-out visitor opens a dashboard URL, App.tsx sends
+// them to the auth page with the original path, query and hash
+// in "?returnTo=...". After sign-in they are sent back there.
+//
+// Only same-origin dashboard paths are accepted, so a crafted
+// link like "/?returnTo=https://evil.example" cannot be used as
+// an open redirect.
+// ============================================================
+
+import type { RouterLocation } from "@/lib/router";
+import { AUTH_PATH, isDashboardPath } from "@/lib/routes";
+
+export const RETURN_TO_PARAM = "returnTo";
+
+/**
+ * Validate a returnTo value. Returns the normalized
+ * "/path?query#hash" when it is a same-origin dashboard URL,
+ * or null for anything else.
+ */
+export function sanitizeReturnTo(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  // Must be an absolute path; rejects "//host", "/\host" and schemes
+  if (!value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, window.location.origin);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== window.location.origin) return null;
+  if (!isDashboardPath(url.pathname)) return null;
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/** Read and validate the returnTo param of a query string */
+export function getReturnTo(search: string): string | null {
+  return sanitizeReturnTo(new URLSearchParams(search).get(RETURN_TO_PARAM));
+}
+
+/** `path` with a validated returnTo param (or just `path` when there is none) */
+export function withReturnTo(path: string, returnTo: string | null): string {
+  const target = sanitizeReturnTo(returnTo);
+  if (!target) return path;
+
+  const params = new URLSearchParams({ [RETURN_TO_PARAM]: target });
+  return `${path}?${params.toString()}`;
+}
+
+/**
+ * Auth page URL (or another pre-dashboard page, e.g. email
+ * verification) that brings the user back to `location` afterwards
+ */
+export function buildAuthRedirect(
+  { pathname, search, hash }: RouterLocation,
+  path: string = AUTH_PATH
+): string {
+  return withReturnTo(path, `${pathname}${search}${hash}`);
+}
@@ -0,0 +1,115 @@
+// ============================================================
+// Router (History API)
+// ============================================================
+// A tiny client-side router built on window.history.
+// Used by:
+//   - App.tsx: to switch between the auth page and the dashboard
+//   - dashboard-page.tsx: to render the page for the current URL
+//   - components/link.tsx: for in-app links without a full reload
+//
+// Any navigate() call or browser back/forward notifies every
+// useLocation() subscriber, so components re-render on the new URL.
+// ============================================================
+
+import { useMemo, useSyncExternalStore } from "react";
+
+// -- Types --
+
+export type RouterLocation = {
+  pathname: string;
+  search: string;
+  hash: string;
+};
+
+export type RouteParams = Record<string, string>;
+
+export type NavigateOptions = {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+};
+
+// Fired on window after navigate() changes the URL
+const NAVIGATE_EVENT = "pms:navigate";
+
+// -- Location store --
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener("hashchange", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener("hashchange", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+function getSnapshot() {
+  const { pathname, search, hash } = window.location;
+  return `${pathname}${search}${hash}`;
+}
+
+function getServerSnapshot() {
+  return "/";
+}
+
+/** Split "/path?query#hash" into its parts */
+export function parseLocation(href: string): RouterLocation {
+  const url = new URL(href, "http://localhost");
+  return { pathname: url.pathname, search: url.search, hash: url.hash };
+}
+
+/** Subscribe to the current browser location */
+export function useLocation(): RouterLocation {
+  const href = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  return useMemo(() => parseLocation(href), [href]);
+}
+
+/** Change the URL and notify every useLocation() subscriber */
+export function navigate(to: string, { replace = false }: NavigateOptions = {}) {
+  if (to === getSnapshot()) return;
+
+  if (replace) {
+    window.history.replaceState(null, "", to);
+  } else {
+    window.history.pushState(null, "", to);
+  }
+
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+// -- Matching --
+
+/** Strip a trailing slash so "/dashboard/" and "/dashboard" match alike */
+export function normalizePath(pathname: string) {
+  return pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+}
+
+/**
+ * Match a pathname against a pattern such as "/dashboard/team/users/:id".
+ * Returns the decoded params on a match, or null otherwise.
+ */
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const patternParts = normalizePath(pattern).split("/");
+  const pathParts = normalizePath(pathname).split("/");
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: RouteParams = {};
+  for (let i = 0; i < patternParts.length; i += 1) {
+    const expected = patternParts[i];
+    const actual = pathParts[i];
+
+    if (expected.startsWith(":")) {
+      if (!actual) return null;
+      try {
+        params[expected.slice(1)] = decodeURIComponent(actual);
+      } catch {
+        return null;
+      }
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+
+  return params;
+}
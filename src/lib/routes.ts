@@ -0,0 +1,131 @@
+// ============================================================
+// Dashboard Route Tree
+// ============================================================
+// Generated from ALL_MENU_ITEMS so every menu entry has a real,
+// deep-linkable URL. Each route remembers which main/sub menu it
+// belongs to, which is what PermissionContext checks access with.
+//
+// Routes for submenus with `hasDetail` also get a record route,
+// e.g. /dashboard/team/users/:id opens that user directly.
+// ============================================================
+
+import { ALL_MENU_ITEMS, type MenuSubItem } from "@/lib/menu-config";
+import { matchPath, normalizePath, type RouteParams } from "@/lib/router";
+
+// -- Constants --
+
+export const AUTH_PATH = "/";
+export const DASHBOARD_PATH = "/dashboard";
+/** Landing page of the emailed password reset link (?token=...) */
+export const RESET_PASSWORD_PATH = "/reset-password";
+/** Landing page of the emailed invitation link (?token=...) */
+export const ACCEPT_INVITE_PATH = "/accept-invite";
+/** "Check your inbox" page; also the landing page of the verification link */
+export const VERIFY_EMAIL_PATH = "/verify-email";
+/** Landing page after signing in with an SSO provider (see lib/sso) */
+export const SSO_CALLBACK_PATTERN = "/sso/callback/:providerId";
+/** Route key of Settings › Account, where two-factor is set up */
+export const ACCOUNT_SETTINGS_KEY = "settings-account";
+
+// -- Types --
+
+export type DashboardRoute = {
+  /** Permission key of the submenu (MenuSubItem.url) */
+  key: string;
+  /** Main menu title, as passed to hasMenuAccess() */
+  mainMenu: string;
+  /** Sub menu title, as passed to hasMenuAccess() */
+  subMenu: string;
+  /** Path of the submenu page */
+  path: string;
+  /** Pattern this route matches, e.g. "/dashboard/team/users/:id" */
+  pattern: string;
+  /** Whether this is the single-record route of the submenu */
+  isDetail: boolean;
+};
+
+export type RouteMatch = {
+  route: DashboardRoute;
+  params: RouteParams;
+};
+
+// -- Route tree --
+
+function toRoutes(mainMenu: string, sub: MenuSubItem): DashboardRoute[] {
+  const base = {
+    key: sub.url,
+    mainMenu,
+    subMenu: sub.title,
+    path: sub.path,
+  };
+
+  const routes: DashboardRoute[] = [{ ...base, pattern: sub.path, isDetail: false }];
+  if (sub.hasDetail) {
+    routes.push({ ...base, pattern: `${sub.path}/:id`, isDetail: true });
+  }
+  return routes;
+}
+
+export const DASHBOARD_ROUTES: DashboardRoute[] = ALL_MENU_ITEMS.flatMap((menu) =>
+  menu.items.flatMap((sub) => toRoutes(menu.title, sub))
+);
+
+// -- Helpers --
+
+/** Is this pathname inside the dashboard shell? */
+export function isDashboardPath(pathname: string) {
+  const path = normalizePath(pathname);
+  return path === DASHBOARD_PATH || path.startsWith(`${DASHBOARD_PATH}/`);
+}
+
+/** Find the route (and its params) for a dashboard pathname */
+export function matchDashboardRoute(pathname: string): RouteMatch | null {
+  for (const route of DASHBOARD_ROUTES) {
+    const params = matchPath(route.pattern, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+}
+
+/** Build the URL of a record route, e.g. recordPath("team-users", "42") */
+export function recordPath(key: string, id: string) {
+  const route = DASHBOARD_ROUTES.find((r) => r.key === key && r.isDetail);
+  if (!route) {
+    throw new Error(`Route "${key}" has no record page`);
+  }
+  return `${route.path}/${encodeURIComponent(id)}`;
+}
+
+/** SSO landing page of one provider, e.g. ssoCallbackPath("google") */
+export function ssoCallbackPath(providerId: string) {
+  return SSO_CALLBACK_PATTERN.replace(":providerId", encodeURIComponent(providerId));
+}
+
+/** Path of a submenu page by its permission key */
+export function routePath(key: string) {
+  const route = DASHBOARD_ROUTES.find((r) => r.key === key && !r.isDetail);
+  return route?.path ?? DASHBOARD_PATH;
+}
+
+/**
+ * Old links used "/dashboard#team-users". Resolve such a hash to the
+ * new path so links already shared in chat keep working.
+ */
+export function resolveLegacyHash(hash: string): string | null {
+  const key = hash.replace(/^#/, "");
+  if (!key) return null;
+  return DASHBOARD_ROUTES.find((r) => r.key === key && !r.isDetail)?.path ?? null;
+}
+
+/**
+ * First submenu page the user may open, in sidebar order.
+ * Used to land users without access to the overview somewhere useful.
+ */
+export function firstAccessiblePath(
+  hasMenuAccess: (mainMenu: string, subMenu?: string) => boolean
+): string | null {
+  const route = DASHBOARD_ROUTES.find(
+    (r) => !r.isDetail && hasMenuAccess(r.mainMenu, r.subMenu)
+  );
+  return route?.path ?? null;
+}
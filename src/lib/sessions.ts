@@ -0,0 +1,84 @@
+// ============================================================
+// Sessions
+// ============================================================
+// Signed-in devices, shown by the Sessions panel:
+//   - Own sessions come from better-auth (list-sessions,
+//     revoke-session, revoke-other-sessions)
+//   - Another user's sessions come from /api/users/:id/sessions
+//     (admins only), see lib/api/users.ts
+//   - describeDevice() turns a user agent into "Chrome on macOS"
+// ============================================================
+
+import type { SessionData } from "@/lib/api";
+import { authClient } from "@/lib/auth-client";
+
+// -- Types --
+
+/** A session row; own sessions carry the token better-auth revokes by */
+export type SessionRow = SessionData & { token?: string };
+
+export type DeviceInfo = {
+  browser: string;
+  os: string;
+  isMobile: boolean;
+};
+
+// -- User agent --
+
+// Order matters: Edge and Opera also send "Chrome", Chrome also sends "Safari"
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeDevice(userAgent: string | null): DeviceInfo {
+  const ua = userAgent ?? "";
+  return {
+    browser: BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? "Unknown browser",
+    os: SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? "unknown system",
+    isMobile: /Mobi|iPhone|iPad|Android/.test(ua),
+  };
+}
+
+// -- Own sessions (better-auth) --
+
+function unwrap<T>(result: { data: T | null; error: { message?: string } | null }, fallback: string): T {
+  if (result.error || result.data === null) {
+    throw new Error(result.error?.message || fallback);
+  }
+  return result.data;
+}
+
+export async function fetchMySessions(signal: AbortSignal): Promise<SessionRow[]> {
+  const result = await authClient.listSessions({ fetchOptions: { signal } });
+  return unwrap(result, "Failed to load sessions").map((session) => ({
+    id: session.id,
+    token: session.token,
+    userAgent: session.userAgent ?? null,
+    ipAddress: session.ipAddress ?? null,
+    createdAt: new Date(session.createdAt).toISOString(),
+    updatedAt: new Date(session.updatedAt).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString(),
+  }));
+}
+
+export async function revokeMySession(token: string) {
+  unwrap(await authClient.revokeSession({ token }), "Failed to revoke session");
+}
+
+/** "Sign out all other devices" */
+export async function revokeMyOtherSessions() {
+  unwrap(await authClient.revokeOtherSessions(), "Failed to sign out other devices");
+}
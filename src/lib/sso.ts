@@ -0,0 +1,173 @@
+// ============================================================
+// Single Sign-On
+// ============================================================
+// Sign-in through an OIDC / OAuth provider (better-auth
+// generic-oauth). The providers (Google, a company Keycloak, ...)
+// are configured on the backend; the auth page lists them from
+// GET /api/settings/sso-providers.
+//   - startSsoSignIn(): asks the backend for the provider's
+//     authorization URL and leaves the app for it
+//   - completeSsoSignIn(): run by App.tsx on the landing page
+//     (SSO_CALLBACK_PATTERN) once the provider sends the user back
+//   - signInWithSsoPopup(): the same round trip in a popup, for
+//     the session-expired dialog; the page underneath stays put
+//
+// The backend exchanges the code and creates the session. It
+// rejects emails outside Settings › General's allowed domains and
+// puts new accounts in the default SSO group.
+// ============================================================
+
+import { authClient } from "@/lib/auth-client";
+import { getReturnTo, withReturnTo } from "@/lib/return-to";
+import { ssoCallbackPath } from "@/lib/routes";
+
+export type SsoErrorReason = "cancelled" | "domain" | "suspended" | "failed";
+
+export type SsoResult = {
+  /** Why the sign-in failed; null when there is a session now */
+  error: SsoErrorReason | null;
+  /** Validated returnTo carried through the provider round trip */
+  returnTo: string | null;
+};
+
+/** better-auth / provider error codes on the landing page, by reason */
+const ERROR_REASONS: Record<string, SsoErrorReason> = {
+  access_denied: "cancelled",
+  domain_not_allowed: "domain",
+  banned: "suspended",
+};
+
+function toResult(search: string): SsoResult {
+  const error = new URLSearchParams(search).get("error");
+  return {
+    error: error ? (ERROR_REASONS[error] ?? "failed") : null,
+    returnTo: getReturnTo(search),
+  };
+}
+
+/**
+ * Leave for the provider's sign-in page. Resolves only when the
+ * backend refused to start (unknown provider, network error).
+ */
+export async function startSsoSignIn(providerId: string, returnTo: string | null) {
+  // Absolute: the backend may live on another origin (VITE_API_URL)
+  const landingURL = `${window.location.origin}${withReturnTo(ssoCallbackPath(providerId), returnTo)}`;
+  const result = await authClient.signIn.oauth2({
+    providerId,
+    callbackURL: landingURL,
+    errorCallbackURL: landingURL,
+  });
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to start single sign-on");
+  }
+}
+
+const FAILED: SsoResult = { error: "failed", returnTo: null };
+
+// The code is single-use; share one exchange per landing URL so a
+// re-mount (StrictMode) does not report it as already used
+const callbackRequests = new Map<string, Promise<SsoResult>>();
+
+/**
+ * Finish an SSO sign-in on the landing page.
+ *
+ * Normally the backend has already handled the provider's callback
+ * and redirected here (with ?error= when it refused). When the
+ * provider was told to send the user straight to this page, the
+ * code and state are still in the URL and are handed to the
+ * backend's callback endpoint from here.
+ */
+export function completeSsoSignIn(providerId: string, search: string): Promise<SsoResult> {
+  const params = new URLSearchParams(search);
+  if (!params.has("code")) {
+    return Promise.resolve(toResult(search));
+  }
+
+  const key = `${providerId}${search}`;
+  let request = callbackRequests.get(key);
+  if (!request) {
+    request = authClient
+      .$fetch<{ url: string }>(`/oauth2/callback/${encodeURIComponent(providerId)}`, {
+        method: "GET",
+        query: Object.fromEntries(params),
+      })
+      .then(
+        (result): SsoResult =>
+          result.error ? FAILED : toResult(new URL(result.data.url, window.location.origin).search),
+        () => FAILED
+      );
+    callbackRequests.set(key, request);
+  }
+  return request;
+}
+
+// -- Popup (session expired) --
+
+// Marks a landing page opened by signInWithSsoPopup(); window.opener
+// and window.name do not survive the provider's pages reliably
+const POPUP_PARAM = "sso_popup";
+const POPUP_CHANNEL_NAME = "pms-sso-popup";
+
+type PopupMessage = {
+  id: string;
+  error: SsoErrorReason | null;
+};
+
+/**
+ * Sign in through the provider in a popup. Call it from a click
+ * handler, or the browser blocks the popup. Resolves with the
+ * popup's result (null error once there is a session); aborting
+ * `signal` stops waiting, e.g. when the popup was closed.
+ */
+export async function signInWithSsoPopup(providerId: string, signal: AbortSignal): Promise<SsoErrorReason | null> {
+  // Opened before anything is awaited, so it still counts as the click's
+  const popup = window.open("", POPUP_CHANNEL_NAME, "popup,width=480,height=640");
+  if (!popup) {
+    throw new Error("Allow pop-ups for this site to sign in with single sign-on");
+  }
+
+  const id = crypto.randomUUID();
+  const landingURL = `${window.location.origin}${ssoCallbackPath(providerId)}?${new URLSearchParams({ [POPUP_PARAM]: id })}`;
+  const result = await authClient.signIn.oauth2({
+    providerId,
+    callbackURL: landingURL,
+    errorCallbackURL: landingURL,
+    disableRedirect: true,
+  });
+  if (result.error || !result.data?.url) {
+    popup.close();
+    throw new Error(result.error?.message || "Failed to start single sign-on");
+  }
+  popup.location.href = result.data.url;
+
+  return new Promise((resolve) => {
+    const channel = new BroadcastChannel(POPUP_CHANNEL_NAME);
+    const finish = (error: SsoErrorReason | null) => {
+      channel.close();
+      signal.removeEventListener("abort", onAbort);
+      resolve(error);
+    };
+    const onAbort = () => finish("cancelled");
+
+    channel.onmessage = (event: MessageEvent<PopupMessage>) => {
+      if (event.data?.id === id) finish(event.data.error);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * On the landing page: when it was opened by signInWithSsoPopup(),
+ * hands the result to the opening tab and closes the popup.
+ * Returns false for a normal (full page) sign-in.
+ */
+export function reportSsoPopupResult(search: string, error: SsoErrorReason | null): boolean {
+  const id = new URLSearchParams(search).get(POPUP_PARAM);
+  if (!id) return false;
+
+  const channel = new BroadcastChannel(POPUP_CHANNEL_NAME);
+  channel.postMessage({ id, error } satisfies PopupMessage);
+  channel.close();
+  window.close();
+  return true;
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// Suspensions
+// ============================================================
+// Admins suspend accounts instead of deleting them, so the user's
+// history is kept (better-auth admin plugin "ban"):
+//   - suspendUser(): with a reason and an optional end date; the
+//     user is signed out everywhere at once
+//   - reactivateUser(): lifts it early (it also ends by itself
+//     once the end date passes)
+//   - getSuspensionNotice(): reads the reason and end date from a
+//     rejected sign-in, for the auth page
+// ============================================================
+
+import { authClient } from "@/lib/auth-client";
+
+export type SuspensionNotice = {
+  reason: string | null;
+  /** ISO date the suspension ends; null = until an admin lifts it */
+  until: string | null;
+};
+
+/** `until`: the suspension ends at this moment; null = until reactivated */
+export async function suspendUser(userId: string, reason: string, until: Date | null) {
+  const result = await authClient.admin.banUser({
+    userId,
+    banReason: reason,
+    banExpiresIn: until ? Math.max(1, Math.round((until.getTime() - Date.now()) / 1000)) : undefined,
+  });
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to suspend user");
+  }
+}
+
+export async function reactivateUser(userId: string) {
+  const result = await authClient.admin.unbanUser({ userId });
+  if (result.error) {
+    throw new Error(result.error.message || "Failed to reactivate user");
+  }
+}
+
+/**
+ * better-auth rejects suspended accounts with code BANNED_USER; the
+ * backend adds `banReason` and `banExpires` to that error body.
+ */
+export function getSuspensionNotice(error: unknown): SuspensionNotice | null {
+  if (!error || typeof error !== "object" || !("code" in error) || error.code !== "BANNED_USER") {
+    return null;
+  }
+  const { banReason, banExpires } = error as { banReason?: unknown; banExpires?: unknown };
+  return {
+    reason: typeof banReason === "string" && banReason ? banReason : null,
+    until: typeof banExpires === "string" && banExpires ? banExpires : null,
+  };
+}
@@ -7,12 +7,21 @@ import "./index.css"
 import "./utils/i18n.ts"
 import App from "./App.tsx"
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <ThemeProvider defaultTheme="light" storageKey="pms-theme">
-      <TooltipProvider>
-        <App />
-      </TooltipProvider>
-    </ThemeProvider>
-  </StrictMode>
-)
+// Offline backend for development (see lib/mock-api); never bundled otherwise
+async function enableMockApi() {
+  if (import.meta.env.VITE_MOCK_API !== "true") return
+  const { installMockApi } = await import("@/lib/mock-api")
+  installMockApi()
+}
+
+enableMockApi().then(() => {
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <ThemeProvider defaultTheme="light" storageKey="pms-theme">
+        <TooltipProvider>
+          <App />
+        </TooltipProvider>
+      </ThemeProvider>
+    </StrictMode>
+  )
+})
@@ -0,0 +1,109 @@
+// ============================================================
+// Test Helpers — Mock API
+// ============================================================
+// Direct calls into the mock backend (lib/mock-api) for arranging
+// and checking state around a rendered component, and a stand-in
+// for a backend still on the old group permission format.
+// ============================================================
+
+import type { GroupData, MenuPermissionData } from "@/lib/api";
+import { handleMockRequest } from "@/lib/mock-api";
+import { db, type MockUser } from "@/lib/mock-api/db";
+import type { PermissionVerb } from "@/lib/permission-verbs";
+
+/** Call one mock route; returns the status and parsed JSON body */
+export async function mockRequest<T = unknown>(method: string, path: string, body?: unknown) {
+  const response = await handleMockRequest(
+    new Request(path, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: (await response.json()) as T };
+}
+
+/** Sign in as a seeded account (see lib/mock-api/db) */
+export async function signInAs(email: string, password: string) {
+  const { status, body } = await mockRequest("POST", "/api/auth/sign-in/email", { email, password });
+  if (status !== 200) {
+    throw new Error(`Could not sign in as ${email}: ${JSON.stringify(body)}`);
+  }
+}
+
+export function findMockUser(email: string): MockUser {
+  const user = db.users.find((u) => u.email === email);
+  if (!user) throw new Error(`No seeded user ${email}`);
+  return user;
+}
+
+/** Turn two-factor on for a seeded account, with one known backup code */
+export function enableTwoFactor(email: string, backupCode: string) {
+  const user = findMockUser(email);
+  user.twoFactorEnabled = true;
+  user.twoFactorSecret = "JBSWY3DPEHPK3PXP";
+  user.backupCodes = [backupCode];
+  return user;
+}
+
+// -- Older backends --
+
+/** A group row from before per-verb permissions */
+type LegacyPermissionRow = Omit<MenuPermissionData, "verbs"> & {
+  canAdd?: boolean;
+  canChange?: boolean;
+  canDelete?: boolean;
+};
+
+function fromLegacyRow({ mainMenu, subMenu, url, canAdd, canChange, canDelete }: LegacyPermissionRow) {
+  const verbs: PermissionVerb[] = ["view"];
+  if (canAdd) verbs.push("add");
+  if (canChange) verbs.push("change");
+  if (canDelete) verbs.push("delete");
+  return { mainMenu, subMenu, url, verbs };
+}
+
+function toLegacyGroup({ permissions, ...group }: GroupData) {
+  return {
+    ...group,
+    permissions: permissions.map(({ verbs, ...row }): LegacyPermissionRow => ({
+      ...row,
+      canAdd: verbs.includes("add"),
+      canChange: verbs.includes("change"),
+      canDelete: verbs.includes("delete"),
+    })),
+  };
+}
+
+/**
+ * Put a backend still on the old group format in front of the mock:
+ * /api/groups reads only canAdd / canChange / canDelete from the rows
+ * it is sent (verbs are ignored) and answers with those instead of
+ * verbs. Returns the function that takes it away again.
+ */
+export function serveLegacyGroupFormat() {
+  const mockFetch = window.fetch;
+
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    if (!new URL(request.url).pathname.startsWith("/api/groups")) return mockFetch(request);
+
+    let forwarded = request;
+    if (request.method === "POST" || request.method === "PUT") {
+      const body = (await request.clone().json()) as { permissions: LegacyPermissionRow[] };
+      forwarded = new Request(request, {
+        body: JSON.stringify({ ...body, permissions: body.permissions.map(fromLegacyRow) }),
+      });
+    }
+
+    const response = await mockFetch(forwarded);
+    if (!response.ok || request.method === "DELETE") return response;
+    const { data } = (await response.json()) as { data: GroupData | GroupData[] };
+    const legacy = Array.isArray(data) ? data.map(toLegacyGroup) : toLegacyGroup(data);
+    return new Response(JSON.stringify({ data: legacy }), { status: response.status, headers: response.headers });
+  };
+
+  return () => {
+    window.fetch = mockFetch;
+  };
+}
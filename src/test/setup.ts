@@ -0,0 +1,90 @@
+// ============================================================
+// Test Setup (Vitest + jsdom)
+// ============================================================
+// Runs before every test file:
+//   - Request resolves "/api/..." against the page, like a browser
+//   - Every /api fetch (lib/api and better-auth) is answered by the
+//     mock API, without its simulated latency
+//   - English translations, loaded synchronously (no Suspense)
+//   - <canvas> drawn by @napi-rs/canvas, so posters are real PNGs
+//   - WebCrypto takes jsdom's ArrayBuffers (the mock's TOTP check)
+//   - Rendered trees, the signed-in session and cached queries are
+//     dropped after each test; the mock db itself lives per file
+// ============================================================
+
+import { createCanvas, type Canvas } from "@napi-rs/canvas";
+import { cleanup } from "@testing-library/react";
+import i18n from "i18next";
+import { initReactI18next } from "react-i18next";
+import { afterEach } from "vitest";
+import en from "../../public/locales/en/translation.json";
+import { installMockApi } from "@/lib/mock-api";
+import { clearQueryCache } from "@/lib/query-cache";
+
+// -- Fetch --
+
+const NodeRequest = globalThis.Request;
+globalThis.Request = class extends NodeRequest {
+  constructor(input: RequestInfo | URL, init?: RequestInit) {
+    super(typeof input === "string" ? new URL(input, window.location.href) : input, init);
+  }
+};
+
+installMockApi({ latencyMs: 0 });
+
+// -- Translations --
+
+await i18n.use(initReactI18next).init({
+  lng: "en",
+  fallbackLng: "en",
+  resources: { en: { translation: en } },
+  interpolation: { escapeValue: false },
+  react: { useSuspense: false },
+  showSupportNotice: false,
+});
+
+// -- Canvas --
+
+const backingCanvases = new WeakMap<HTMLCanvasElement, Canvas>();
+
+// Sized when first drawn on; components set width / height before that
+function backingCanvas(element: HTMLCanvasElement) {
+  let canvas = backingCanvases.get(element);
+  if (!canvas || canvas.width !== element.width || canvas.height !== element.height) {
+    canvas = createCanvas(element.width, element.height);
+    backingCanvases.set(element, canvas);
+  }
+  return canvas;
+}
+
+HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement, contextId: string) {
+  return contextId === "2d" ? backingCanvas(this).getContext("2d") : null;
+} as unknown as HTMLCanvasElement["getContext"];
+
+HTMLCanvasElement.prototype.toDataURL = function (this: HTMLCanvasElement, type?: string) {
+  return backingCanvas(this).toDataURL(type === "image/jpeg" ? "image/jpeg" : "image/png");
+};
+
+// -- WebCrypto --
+
+// jsdom brings its own ArrayBuffer, which Node's crypto.subtle rejects;
+// hand it a copy of the bytes (a Uint8Array allocates a Node one)
+function toNodeBytes(data: unknown) {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data).slice();
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice();
+  return data;
+}
+
+const { subtle } = globalThis.crypto;
+subtle.importKey = ((format: KeyFormat, keyData: unknown, ...rest: unknown[]) =>
+  Reflect.apply(SubtleCrypto.prototype.importKey, subtle, [format, toNodeBytes(keyData), ...rest])) as SubtleCrypto["importKey"];
+subtle.sign = ((algorithm: AlgorithmIdentifier, key: CryptoKey, data: BufferSource) =>
+  Reflect.apply(SubtleCrypto.prototype.sign, subtle, [algorithm, key, toNodeBytes(data)])) as SubtleCrypto["sign"];
+
+// -- Between tests --
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear(); // Signs the mock session out
+  clearQueryCache();
+});